@@ -6,13 +6,19 @@ import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 
 // Import routes
-import authRoutes from './routes/auth';
-import depositRoutes from './routes/deposit';
-import gameRoutes from './routes/game';
-import chatRoutes from './routes/chat';
+import { API_ROUTES, getApiRoutes } from './routes';
+import { buildOpenApiDocument } from './schemas/openapi';
+import { buildAsyncApiDocument } from './schemas/asyncapi';
 
 // Import services
 import { startRoundManager, stopRoundManager } from './services/roundManager';
+import { startOrderEngine } from './services/orderService';
+import { startIdempotencyCleanup, stopIdempotencyCleanup } from './services/idempotencyService';
+import { startReconciliation, stopReconciliation } from './services/reconciliationService';
+import { startDepositWorker, stopDepositWorker } from './services/depositService';
+import { startEscrowWatcher, stopEscrowWatcher } from './services/escrowWatcher';
+import { startWithdrawalWorker, stopWithdrawalWorker } from './services/withdrawalService';
+import { startFeeSweeper, stopFeeSweeper } from './services/feeSweepService';
 
 // Import WebSocket modules
 import { 
@@ -20,9 +26,11 @@ import {
   handleConnection, 
   handleClose, 
   handleError,
-  getConnectionStats
+  getConnectionStats,
+  CHANNELS
 } from './websocket/server';
 import { handleMessage } from './websocket/handlers';
+import { notFoundHandler, errorHandler } from './middleware/errorHandler';
 import { broadcastToAll } from './websocket/broadcast';
 
 // Load environment variables
@@ -68,7 +76,8 @@ app.use(cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key'],
+  exposedHeaders: ['Idempotent-Replayed']
 }));
 app.use(express.json());
 
@@ -83,31 +92,43 @@ app.get('/health', (req, res) => {
   });
 });
 
+// API docs - built once from the route definitions and message schemas
+const openApiDocument = buildOpenApiDocument(getApiRoutes());
+const asyncApiDocument = buildAsyncApiDocument(`ws://localhost:${PORT}`);
+
 // API routes
 app.get('/api', (req, res) => {
   res.json({ 
     message: 'Welcome to PumpIt API',
     version: '1.0.0',
-    endpoints: {
-      auth: '/api/auth',
-      deposit: '/api/deposit',
-      withdraw: '/api/withdraw',
-      game: '/api/game',
-      chat: '/api/chat'
+    endpoints: Object.fromEntries(API_ROUTES.map(({ tag, path }) => [tag, path])),
+    docs: {
+      openapi: '/api/openapi.json',
+      asyncapi: '/api/asyncapi.json'
     },
     websocket: {
       url: `ws://localhost:${PORT}`,
-      channels: ['round', 'trades', 'chat', 'prices']
+      channels: Object.values(CHANNELS)
     }
   });
 });
 
+app.get('/api/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+
+app.get('/api/asyncapi.json', (req, res) => {
+  res.json(asyncApiDocument);
+});
+
 // Mount route modules
-app.use('/api/auth', authRoutes);
-app.use('/api/deposit', depositRoutes);
-app.use('/api/withdraw', depositRoutes);
-app.use('/api/game', gameRoutes);
-app.use('/api/chat', chatRoutes);
+for (const { path, router } of API_ROUTES) {
+  app.use(path, router);
+}
+
+// Unknown API routes and uncaught errors get the standard error envelope
+app.use('/api', notFoundHandler);
+app.use(errorHandler);
 
 // Handle WebSocket upgrade - important for nginx/load balancer compatibility
 server.on('upgrade', (request, socket, head) => {
@@ -146,6 +167,13 @@ async function shutdown() {
   stopRoundManager();
   console.log('Round manager stopped');
   
+  stopIdempotencyCleanup();
+  stopReconciliation();
+  stopDepositWorker();
+  stopEscrowWatcher();
+  stopWithdrawalWorker();
+  stopFeeSweeper();
+  
   wss.close(() => {
     console.log('WebSocket server closed');
   });
@@ -172,4 +200,25 @@ server.listen(PORT, () => {
   // Start round manager background job
   startRoundManager();
   console.log(`🎮 Round manager started`);
+  
+  // Evaluate take-profit / stop-loss orders on price changes
+  startOrderEngine();
+  
+  // Expire old Idempotency-Key records
+  startIdempotencyCleanup();
+  
+  // Check the escrow wallet covers player balances and open pools
+  startReconciliation();
+  
+  // Verify and credit deposits submitted to /api/deposit/confirm
+  startDepositWorker();
+  
+  // Credit deposits sent to the escrow that were never confirmed
+  startEscrowWatcher();
+  
+  // Finish withdrawals a restart interrupted, then keep unconfirmed ones moving
+  startWithdrawalWorker();
+  
+  // Move accrued trading fees from escrow to the house wallet
+  startFeeSweeper();
 });
@@ -0,0 +1,83 @@
+/**
+ * Assets
+ *
+ * Players hold a balance per asset and every round is quoted in one of them.
+ * Inside the app every asset uses the same 9-decimal Lamports amounts and
+ * Decimal(20, 9) columns, so the balance, pool and ledger math is shared.
+ * Amounts are converted to the asset's on-chain decimals (USDC has 6) only
+ * when reading chain balances and building transfers.
+ */
+
+import { Asset, Prisma, Profile } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { PublicKey } from '@solana/web3.js';
+import { Lamports } from './lamports';
+
+export interface AssetConfig {
+  symbol: string;
+  decimals: number;           // On-chain decimals
+  mint: PublicKey | null;     // SPL token mint, null for native SOL
+}
+
+// Decimals of Lamports amounts and Decimal(20, 9) columns
+const INTERNAL_DECIMALS = 9;
+
+// Mainnet USDC unless USDC_MINT points somewhere else (e.g. a devnet mint)
+const USDC_MINT = process.env.USDC_MINT || 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+export const ASSETS: Record<Asset, AssetConfig> = {
+  sol: { symbol: 'SOL', decimals: 9, mint: null },
+  usdc: { symbol: 'USDC', decimals: 6, mint: new PublicKey(USDC_MINT) }
+};
+
+/**
+ * Assets that run a room of rounds - ROUND_ASSETS, comma separated (default: sol)
+ */
+export const ROUND_ASSETS: Asset[] = (process.env.ROUND_ASSETS || 'sol')
+  .split(',')
+  .map(value => value.trim().toLowerCase())
+  .filter((value, index, all): value is Asset => {
+    if (!(value in ASSETS)) {
+      console.error(`[Assets] Unknown asset in ROUND_ASSETS: ${value}`);
+      return false;
+    }
+    return all.indexOf(value) === index;
+  });
+
+/**
+ * On-chain amount (mint base units) to internal lamport-precision units
+ */
+export function fromChainUnits(asset: Asset, amount: bigint): Lamports {
+  return amount * 10n ** BigInt(INTERNAL_DECIMALS - ASSETS[asset].decimals);
+}
+
+/**
+ * Internal amount to on-chain base units - rounds down
+ */
+export function toChainUnits(asset: Asset, amount: Lamports): bigint {
+  return amount / 10n ** BigInt(INTERNAL_DECIMALS - ASSETS[asset].decimals);
+}
+
+/**
+ * Drop the precision the asset can't carry on chain (e.g. USDC below 0.000001)
+ */
+export function truncateToChainPrecision(asset: Asset, amount: Lamports): Lamports {
+  return fromChainUnits(asset, toChainUnits(asset, amount));
+}
+
+/**
+ * A profile's balance of an asset
+ */
+export function getBalance(profile: Pick<Profile, 'deposited_balance' | 'usdc_balance'>, asset: Asset): Decimal {
+  return asset === 'usdc' ? profile.usdc_balance : profile.deposited_balance;
+}
+
+/**
+ * Profile update that moves the balance of an asset
+ */
+export function balanceChange(
+  asset: Asset,
+  change: { increment: Decimal } | { decrement: Decimal }
+): Pick<Prisma.ProfileUpdateInput, 'deposited_balance' | 'usdc_balance'> {
+  return asset === 'usdc' ? { usdc_balance: change } : { deposited_balance: change };
+}
@@ -0,0 +1,111 @@
+import { Response } from 'express';
+import { ValidationIssue } from './schema';
+
+/**
+ * API Error Envelope
+ *
+ * Every failed REST request returns
+ *   { success: false, error: "human readable", code: "MACHINE_CODE", details?: ... }
+ * and every failed WebSocket message gets the same fields with type: "ERROR".
+ * Clients should branch on code - error text can change.
+ */
+
+// Error codes and the HTTP status each one is sent with
+export const ERROR_STATUS = {
+  // Request
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  INTERNAL_ERROR: 500,
+
+  // Auth
+  UNAUTHORIZED: 401,
+  ADMIN_REQUIRED: 403,
+  WALLET_MISMATCH: 403,
+  INVALID_TOKEN: 401,
+  NO_SOLANA_WALLET: 401,
+  INVALID_WALLET: 400,
+  INVALID_NONCE: 401,
+  INVALID_SIGNATURE: 401,
+  AUTH_SERVICE_ERROR: 500,
+
+  // Idempotency-Key
+  IDEMPOTENCY_IN_PROGRESS: 409,
+  IDEMPOTENCY_KEY_REUSED: 422,
+
+  // Profile
+  PROFILE_NOT_FOUND: 404,
+  USERNAME_TAKEN: 409,
+
+  // Round
+  NO_ACTIVE_ROUND: 409,
+  ROUND_NOT_FOUND: 404,
+  ROUND_NOT_ACTIVE: 409,
+  ROUND_ENDED: 409,
+  TRADING_HALTED: 409,
+  AUTO_EXIT_ACTIVE: 409,
+
+  // Trading
+  TRADE_TOO_SMALL: 400,
+  INSUFFICIENT_BALANCE: 400,
+  NO_POSITION: 409,
+  INSUFFICIENT_LIQUIDITY: 409,
+  SLIPPAGE_EXCEEDED: 409,
+
+  // Orders
+  ORDER_NOT_FOUND: 404,
+  ORDER_ALREADY_TRIGGERED: 409,
+  ORDER_LIMIT_REACHED: 409,
+
+  // Deposits / withdrawals
+  TX_NOT_CONFIRMED: 409,
+  TX_FAILED: 400,
+  TX_SENDER_MISMATCH: 400,
+  TX_NOT_TO_ESCROW: 400,
+  AMOUNT_MISMATCH: 400,
+  TRANSFER_FAILED: 502,
+  WITHDRAWAL_LIMIT_EXCEEDED: 429,
+  WITHDRAWAL_COOLDOWN: 429,
+  WITHDRAWAL_NOT_FOUND: 404,
+  WITHDRAWAL_NOT_IN_REVIEW: 409,
+  FEE_SWEEP_RUNNING: 409,
+
+  // WebSocket
+  UNKNOWN_MESSAGE: 400,
+  NOT_IDENTIFIED: 401,
+  TOO_MANY_CONNECTIONS: 429
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_STATUS;
+
+export const ERROR_CODES = Object.keys(ERROR_STATUS) as ErrorCode[];
+
+// Error response body
+export interface ApiError {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+}
+
+/**
+ * Build the error envelope
+ */
+export function apiError(code: ErrorCode, error: string, details?: unknown): ApiError {
+  return details === undefined
+    ? { success: false, error, code }
+    : { success: false, error, code, details };
+}
+
+/**
+ * Send the error envelope with the code's HTTP status
+ */
+export function sendError(res: Response, code: ErrorCode, error: string, details?: unknown): Response {
+  return res.status(ERROR_STATUS[code]).json(apiError(code, error, details));
+}
+
+/**
+ * Send a VALIDATION_ERROR listing every issue
+ */
+export function sendValidationError(res: Response, issues: ValidationIssue[]): Response {
+  return sendError(res, 'VALIDATION_ERROR', issues[0]?.message || 'Invalid request', { issues });
+}
@@ -0,0 +1,93 @@
+/**
+ * Lamport Money Type
+ *
+ * All balance math runs on integer lamports (bigint) so no rounding drift can
+ * accumulate in balances, pools or fees. Convert to SOL numbers only at the
+ * edges (JSON responses, logs) and to Decimal only when writing to Prisma.
+ *
+ * Rounding policy - whenever a split isn't exact the house/pool keeps the dust:
+ * - Fees round UP (house)
+ * - Payouts out of a pool round DOWN (pool)
+ * - SOL amounts from requests round DOWN to the nearest lamport
+ */
+
+import { Decimal } from '@prisma/client/runtime/library';
+
+export type Lamports = bigint;
+
+export type Rounding = 'up' | 'down';
+
+export const LAMPORTS_PER_SOL_BIG: Lamports = 1_000_000_000n;
+export const ZERO_LAMPORTS: Lamports = 0n;
+
+// Decimal(20, 9) columns hold SOL with exactly lamport precision
+const SOL_DECIMALS = 9;
+
+function decimalRounding(rounding: Rounding): Decimal.Rounding {
+  return rounding === 'up' ? Decimal.ROUND_UP : Decimal.ROUND_DOWN;
+}
+
+/**
+ * Convert a SOL amount (request number, string or Prisma Decimal) to lamports
+ */
+export function toLamports(sol: number | string | Decimal, rounding: Rounding = 'down'): Lamports {
+  const value = new Decimal(sol.toString());
+  if (!value.isFinite()) {
+    throw new Error(`Invalid SOL amount: ${sol}`);
+  }
+  return BigInt(value.mul(LAMPORTS_PER_SOL_BIG.toString()).toFixed(0, decimalRounding(rounding)));
+}
+
+/**
+ * Convert lamports to a SOL number - for responses and logs only, never for math
+ */
+export function toSol(lamports: Lamports): number {
+  return Number(lamports) / Number(LAMPORTS_PER_SOL_BIG);
+}
+
+/**
+ * Convert lamports to an exact Decimal for Prisma writes
+ */
+export function lamportsToDecimal(lamports: Lamports): Decimal {
+  return new Decimal(lamports.toString()).div(LAMPORTS_PER_SOL_BIG.toString()).toDecimalPlaces(SOL_DECIMALS);
+}
+
+/**
+ * Multiply lamports by a ratio (multiplier, fee rate) with explicit rounding
+ */
+export function scaleLamports(amount: Lamports, ratio: number, rounding: Rounding): Lamports {
+  if (!Number.isFinite(ratio) || ratio < 0) {
+    throw new Error(`Invalid ratio: ${ratio}`);
+  }
+  const scaled = new Decimal(amount.toString()).mul(ratio);
+  return BigInt(scaled.toFixed(0, decimalRounding(rounding)));
+}
+
+/**
+ * Fee on an amount - rounds up in favour of the house
+ */
+export function calculateFee(amount: Lamports, feeRate: number): Lamports {
+  const fee = scaleLamports(amount, feeRate, 'up');
+  return fee > amount ? amount : fee;
+}
+
+/**
+ * Smaller of two lamport amounts
+ */
+export function minLamports(a: Lamports, b: Lamports): Lamports {
+  return a < b ? a : b;
+}
+
+/**
+ * Larger of two lamport amounts
+ */
+export function maxLamports(a: Lamports, b: Lamports): Lamports {
+  return a > b ? a : b;
+}
+
+/**
+ * Sum a list of lamport amounts
+ */
+export function sumLamports(amounts: Lamports[]): Lamports {
+  return amounts.reduce((sum, amount) => sum + amount, ZERO_LAMPORTS);
+}
@@ -6,10 +6,15 @@
  * - Starts at 1.00x
  * - 0.5 SOL buy creates 2x move ("God Candle")
  * - No bonding curve graduation - rounds end after 30 seconds
+ * - Curve shape is pluggable (see pricingCurve.ts); linear is the default
+ * - SOL and token amounts are integer lamports (see lamports.ts); multipliers stay floats
  */
 
+import { PricingCurve, createLinearCurve } from './pricingCurve';
+import { Lamports, ZERO_LAMPORTS, scaleLamports, minLamports, sumLamports, toSol } from './lamports';
+
 export interface Pool {
-  sol_balance: number;      // Total SOL deposited into pool this round
+  sol_balance: Lamports;    // Total SOL deposited into pool this round
   token_supply: number;     // User's stake (SOL they put in)
 }
 
@@ -22,32 +27,43 @@ export const INITIAL_TOKEN_SUPPLY = 1_000_000;
 export const INITIAL_SOL = 0;
 export const VIRTUAL_SOL = VIRTUAL_BASE; // Alias for compatibility
 
+// Default curve: the original linear multiplier
+export const DEFAULT_PRICING_CURVE: PricingCurve = createLinearCurve({ virtual_base: VIRTUAL_BASE });
+
 /**
  * Calculate current multiplier
- * Formula: (VIRTUAL_BASE + Total_SOL_Deposited) / VIRTUAL_BASE
+ * Default (linear) formula: (VIRTUAL_BASE + Total_SOL_Deposited) / VIRTUAL_BASE
  * 
  * At start (0 SOL): 0.5 / 0.5 = 1.00x
  * After 0.01 SOL: (0.5 + 0.01) / 0.5 = 1.02x (+2%)
  * After 0.5 SOL: (0.5 + 0.5) / 0.5 = 2.00x
  * After 1.0 SOL: (0.5 + 1.0) / 0.5 = 3.00x
  */
-export function getMultiplier(pool: Pool): number {
-  return (VIRTUAL_BASE + pool.sol_balance) / VIRTUAL_BASE;
+export function getMultiplier(pool: Pool, curve: PricingCurve = DEFAULT_PRICING_CURVE): number {
+  return curve.getMultiplier(toSol(pool.sol_balance));
 }
 
 /**
  * Calculate multiplier after adding more SOL
  */
-export function getMultiplierAfterBuy(pool: Pool, solIn: number): number {
-  return (VIRTUAL_BASE + pool.sol_balance + solIn) / VIRTUAL_BASE;
+export function getMultiplierAfterBuy(
+  pool: Pool, 
+  solIn: Lamports, 
+  curve: PricingCurve = DEFAULT_PRICING_CURVE
+): number {
+  return curve.getMultiplier(toSol(pool.sol_balance + solIn));
 }
 
 /**
  * Calculate multiplier after removing SOL (sell)
  */
-export function getMultiplierAfterSell(pool: Pool, solOut: number): number {
-  const newBalance = Math.max(0, pool.sol_balance - solOut);
-  return (VIRTUAL_BASE + newBalance) / VIRTUAL_BASE;
+export function getMultiplierAfterSell(
+  pool: Pool, 
+  solOut: Lamports, 
+  curve: PricingCurve = DEFAULT_PRICING_CURVE
+): number {
+  const newBalance = pool.sol_balance > solOut ? pool.sol_balance - solOut : ZERO_LAMPORTS;
+  return curve.getMultiplier(toSol(newBalance));
 }
 
 /**
@@ -67,8 +83,8 @@ export function calculateAverageEntry(multiplierBefore: number, multiplierAfter:
  * In this system, tokens represent the user's SOL stake
  * tokens = solIn (1:1 relationship)
  */
-export function calculateBuy(pool: Pool, solIn: number): number {
-  if (solIn <= 0) return 0;
+export function calculateBuy(pool: Pool, solIn: Lamports): Lamports {
+  if (solIn <= ZERO_LAMPORTS) return ZERO_LAMPORTS;
   return solIn;
 }
 
@@ -79,29 +95,77 @@ export function calculateBuy(pool: Pool, solIn: number): number {
  * Formula: solOut = tokens * (currentMultiplier / entryMultiplier)
  * 
  * Safety: Total payouts can never exceed total deposited SOL
+ * Rounds down so the pool keeps any sub-lamport dust
  */
-export function calculateSell(pool: Pool, userTokens: number, userEntryMultiplier: number): number {
-  if (userTokens <= 0 || pool.sol_balance <= 0) return 0;
-  if (userEntryMultiplier <= 0) return 0;
+export function calculateSell(
+  pool: Pool, 
+  userTokens: Lamports, 
+  userEntryMultiplier: number,
+  curve: PricingCurve = DEFAULT_PRICING_CURVE
+): Lamports {
+  if (userTokens <= ZERO_LAMPORTS || pool.sol_balance <= ZERO_LAMPORTS) return ZERO_LAMPORTS;
+  if (userEntryMultiplier <= 0) return ZERO_LAMPORTS;
   
-  const currentMultiplier = getMultiplier(pool);
+  const currentMultiplier = getMultiplier(pool, curve);
   
   // User's profit/loss ratio based on multiplier change
   const pnlRatio = currentMultiplier / userEntryMultiplier;
   
   // SOL out = stake * pnlRatio
-  let solOut = userTokens * pnlRatio;
+  const solOut = scaleLamports(userTokens, pnlRatio, 'down');
   
   // Safety: Can never withdraw more than pool has
-  solOut = Math.min(solOut, pool.sol_balance);
-  
-  return Math.max(0, solOut);
+  return minLamports(solOut, pool.sol_balance);
+}
+
+export interface OpenPosition {
+  tokens: Lamports;
+  entryMultiplier: number;
+}
+
+export interface PoolSolvency {
+  outstandingClaims: Lamports;  // What open positions could take out at the current multiplier
+  shortfall: Lamports;          // Claims the pool can't cover
+  coverageRatio: number;        // Pool / claims, Infinity when nothing is open
+  isSolvent: boolean;
+}
+
+/**
+ * Compare a pool against the summed claims of its open positions
+ * Claim = tokens * (currentMultiplier / entryMultiplier), capped at the pool like calculateSell
+ *
+ * The cap keeps a lone position covered (its claim is what a sell would pay);
+ * several positions whose claims add up past the pool are not.
+ */
+export function calculatePoolSolvency(
+  pool: Pool,
+  positions: OpenPosition[],
+  curve: PricingCurve = DEFAULT_PRICING_CURVE,
+  minCoverage = 1
+): PoolSolvency {
+  const outstandingClaims = sumLamports(positions.map(position =>
+    calculateSell(pool, position.tokens, position.entryMultiplier, curve)
+  ));
+
+  const shortfall = outstandingClaims > pool.sol_balance
+    ? outstandingClaims - pool.sol_balance
+    : ZERO_LAMPORTS;
+  const coverageRatio = outstandingClaims > ZERO_LAMPORTS
+    ? Number(pool.sol_balance) / Number(outstandingClaims)
+    : Infinity;
+
+  return {
+    outstandingClaims,
+    shortfall,
+    coverageRatio,
+    isSolvent: coverageRatio >= minCoverage
+  };
 }
 
 /**
  * Apply a buy to the pool and return new state
  */
-export function applyBuy(pool: Pool, solIn: number): Pool {
+export function applyBuy(pool: Pool, solIn: Lamports): Pool {
   return {
     sol_balance: pool.sol_balance + solIn,
     token_supply: pool.token_supply
@@ -111,9 +175,9 @@ export function applyBuy(pool: Pool, solIn: number): Pool {
 /**
  * Apply a sell to the pool and return new state
  */
-export function applySell(pool: Pool, solOut: number): Pool {
+export function applySell(pool: Pool, solOut: Lamports): Pool {
   return {
-    sol_balance: Math.max(0, pool.sol_balance - solOut),
+    sol_balance: pool.sol_balance > solOut ? pool.sol_balance - solOut : ZERO_LAMPORTS,
     token_supply: pool.token_supply
   };
 }
@@ -121,15 +185,15 @@ export function applySell(pool: Pool, solOut: number): Pool {
 /**
  * Get current "price" (same as multiplier in new system)
  */
-export function getPrice(pool: Pool): number {
-  return getMultiplier(pool);
+export function getPrice(pool: Pool, curve: PricingCurve = DEFAULT_PRICING_CURVE): number {
+  return getMultiplier(pool, curve);
 }
 
 /**
  * Get price multiplier (same as getMultiplier)
  */
-export function getPriceMultiplier(pool: Pool): number {
-  return getMultiplier(pool);
+export function getPriceMultiplier(pool: Pool, curve: PricingCurve = DEFAULT_PRICING_CURVE): number {
+  return getMultiplier(pool, curve);
 }
 
 /**
@@ -137,7 +201,7 @@ export function getPriceMultiplier(pool: Pool): number {
  */
 export function getInitialPool(): Pool {
   return {
-    sol_balance: INITIAL_SOL,
+    sol_balance: BigInt(INITIAL_SOL),
     token_supply: INITIAL_TOKEN_SUPPLY
   };
 }
@@ -145,24 +209,71 @@ export function getInitialPool(): Pool {
 /**
  * Calculate price impact of a buy (percentage)
  */
-export function calculateBuyPriceImpact(pool: Pool, solIn: number): number {
-  const currentMult = getMultiplier(pool);
-  const newMult = getMultiplierAfterBuy(pool, solIn);
+export function calculateBuyPriceImpact(
+  pool: Pool, 
+  solIn: Lamports, 
+  curve: PricingCurve = DEFAULT_PRICING_CURVE
+): number {
+  const currentMult = getMultiplier(pool, curve);
+  const newMult = getMultiplierAfterBuy(pool, solIn, curve);
   return ((newMult - currentMult) / currentMult) * 100;
 }
 
 /**
  * Calculate price impact of a sell (percentage)
  */
-export function calculateSellPriceImpact(pool: Pool, solOut: number): number {
-  const currentMult = getMultiplier(pool);
-  const newMult = getMultiplierAfterSell(pool, solOut);
+export function calculateSellPriceImpact(
+  pool: Pool, 
+  solOut: Lamports, 
+  curve: PricingCurve = DEFAULT_PRICING_CURVE
+): number {
+  const currentMult = getMultiplier(pool, curve);
+  const newMult = getMultiplierAfterSell(pool, solOut, curve);
   return ((currentMult - newMult) / currentMult) * 100;
 }
 
 /**
  * Get total value locked (same as sol_balance in new system)
  */
-export function getMarketCap(pool: Pool): number {
+export function getMarketCap(pool: Pool): Lamports {
   return pool.sol_balance;
 }
+
+/**
+ * Value a position's tokens at a multiplier - rounds down like a sell would
+ */
+export function getPositionValue(tokenBalance: Lamports, multiplier: number): Lamports {
+  if (tokenBalance <= ZERO_LAMPORTS || multiplier <= 0) return ZERO_LAMPORTS;
+  return scaleLamports(tokenBalance, multiplier, 'down');
+}
+
+/**
+ * Total PnL of a position = current value + SOL received from sells - SOL spent on buys
+ */
+export function calculatePositionPnl(
+  tokenBalance: Lamports,
+  totalSolIn: Lamports,
+  totalSolOut: Lamports,
+  multiplier: number
+): { currentValue: Lamports; pnl: Lamports; pnlPercent: number } {
+  const currentValue = getPositionValue(tokenBalance, multiplier);
+  const pnl = currentValue + totalSolOut - totalSolIn;
+  const pnlPercent = totalSolIn > ZERO_LAMPORTS ? (Number(pnl) / Number(totalSolIn)) * 100 : 0;
+  return { currentValue, pnl, pnlPercent };
+}
+
+/**
+ * Unrealized PnL of open tokens relative to the position's entry multiplier
+ */
+export function calculateUnrealizedPnl(
+  tokenBalance: Lamports,
+  entryMultiplier: number | null,
+  multiplier: number
+): { unrealizedPnl: Lamports; unrealizedPnlPercent: number } {
+  if (!entryMultiplier || tokenBalance <= ZERO_LAMPORTS) {
+    return { unrealizedPnl: ZERO_LAMPORTS, unrealizedPnlPercent: 0 };
+  }
+  const unrealizedPnl = getPositionValue(tokenBalance, multiplier) - getPositionValue(tokenBalance, entryMultiplier);
+  const unrealizedPnlPercent = ((multiplier - entryMultiplier) / entryMultiplier) * 100;
+  return { unrealizedPnl, unrealizedPnlPercent };
+}
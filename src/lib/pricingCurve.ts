@@ -0,0 +1,114 @@
+/**
+ * Pricing Curves
+ *
+ * A pricing curve maps the SOL held in a round's pool to the round multiplier.
+ * Every curve starts at 1.00x on an empty pool and only rises as SOL comes in.
+ *
+ * - linear:           (B + s) / B          (original PumpIt curve)
+ * - constant_product: ((B + s) / B)^2      (x*y=k with a virtual SOL reserve B)
+ * - exponential:      e^(rate * s)
+ */
+
+export type PricingCurveType = 'linear' | 'constant_product' | 'exponential';
+
+export const PRICING_CURVE_TYPES: PricingCurveType[] = ['linear', 'constant_product', 'exponential'];
+
+export interface LinearCurveParams {
+  virtual_base: number;     // Virtual SOL liquidity - B SOL in = 2x
+}
+
+export interface ConstantProductCurveParams {
+  virtual_base: number;     // Virtual SOL reserve of the x*y=k pool
+}
+
+export interface ExponentialCurveParams {
+  growth_rate: number;      // Continuous growth per SOL deposited
+}
+
+export type PricingCurveParams =
+  | LinearCurveParams
+  | ConstantProductCurveParams
+  | ExponentialCurveParams;
+
+export interface PricingCurve {
+  type: PricingCurveType;
+  params: PricingCurveParams;
+  getMultiplier(solBalance: number): number;
+}
+
+/**
+ * Linear curve
+ * 0.5 SOL base: 0.5 SOL in = 2x, 1.0 SOL in = 3x
+ */
+export function createLinearCurve(params: LinearCurveParams): PricingCurve {
+  const { virtual_base } = params;
+  return {
+    type: 'linear',
+    params: { virtual_base },
+    getMultiplier: (solBalance: number) => (virtual_base + solBalance) / virtual_base
+  };
+}
+
+/**
+ * Constant-product curve
+ * Price of a virtual x*y=k pool where SOL reserve = B + s, so price grows with the square
+ * 0.5 SOL base: 0.5 SOL in = 4x, 1.0 SOL in = 9x
+ */
+export function createConstantProductCurve(params: ConstantProductCurveParams): PricingCurve {
+  const { virtual_base } = params;
+  return {
+    type: 'constant_product',
+    params: { virtual_base },
+    getMultiplier: (solBalance: number) => Math.pow((virtual_base + solBalance) / virtual_base, 2)
+  };
+}
+
+/**
+ * Exponential curve
+ * ln(2) / 0.5 rate: 0.5 SOL in = 2x, 1.0 SOL in = 4x
+ */
+export function createExponentialCurve(params: ExponentialCurveParams): PricingCurve {
+  const { growth_rate } = params;
+  return {
+    type: 'exponential',
+    params: { growth_rate },
+    getMultiplier: (solBalance: number) => Math.exp(growth_rate * solBalance)
+  };
+}
+
+/**
+ * Check that a curve parameter is a positive finite number
+ */
+function requirePositive(params: unknown, key: string, type: PricingCurveType): number {
+  const value = typeof params === 'object' && params !== null
+    ? (params as Record<string, unknown>)[key]
+    : undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid ${type} pricing curve: ${key} must be a positive number`);
+  }
+  return value;
+}
+
+/**
+ * Build a pricing curve from its stored type and parameters
+ * Used to rebuild the curve a round was created with
+ */
+export function createPricingCurve(type: string, params: unknown): PricingCurve {
+  switch (type) {
+    case 'linear':
+      return createLinearCurve({ virtual_base: requirePositive(params, 'virtual_base', type) });
+    case 'constant_product':
+      return createConstantProductCurve({ virtual_base: requirePositive(params, 'virtual_base', type) });
+    case 'exponential':
+      return createExponentialCurve({ growth_rate: requirePositive(params, 'growth_rate', type) });
+    default:
+      throw new Error(`Unknown pricing curve: ${type}`);
+  }
+}
+
+/**
+ * Check if a string names a supported pricing curve
+ */
+export function isPricingCurveType(type: string): type is PricingCurveType {
+  return (PRICING_CURVE_TYPES as string[]).includes(type);
+}
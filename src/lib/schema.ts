@@ -0,0 +1,397 @@
+/**
+ * Declarative Request Schemas
+ *
+ * Small schema builder for request bodies, queries and WebSocket messages.
+ * Each schema checks a value (collecting every issue, not just the first),
+ * infers its TypeScript type, and carries a JSON Schema description that the
+ * type generator (and API docs) are built from.
+ */
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// JSON Schema subset the builders produce (also valid OpenAPI 3.1 / AsyncAPI schema)
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  $ref?: string;
+  title?: string;
+  description?: string;
+  format?: string;
+  enum?: readonly string[];
+  const?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  discriminator?: { propertyName: string };
+  default?: unknown;
+}
+
+// One problem with the checked value - path is like "body.sol_amount"
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface Schema<T> {
+  readonly json: JsonSchema;
+  readonly optional: boolean;    // May be left out of the parent object
+  check(value: unknown, path: string, issues: ValidationIssue[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K]['optional'] extends true ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+export type InferShape<S extends Shape> =
+  { [K in RequiredKeys<S>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Check a value against a schema
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, path = ''): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const data = schema.check(value, path, issues);
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function label(path: string): string {
+  return path || 'value';
+}
+
+/**
+ * String, optionally limited in length, pattern or allowed values
+ */
+export function string(options: {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  description?: string;
+} = {}): Schema<string> {
+  const { minLength, maxLength, pattern, description } = options;
+  return {
+    json: { type: 'string', minLength, maxLength, pattern: pattern?.source, description },
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `${label(path)} must be a string` });
+        return value as string;
+      }
+      if (minLength !== undefined && value.length < minLength) {
+        issues.push({ path, message: `${label(path)} must be at least ${minLength} characters` });
+      } else if (maxLength !== undefined && value.length > maxLength) {
+        issues.push({ path, message: `${label(path)} must be at most ${maxLength} characters` });
+      } else if (pattern && !pattern.test(value)) {
+        issues.push({ path, message: `${label(path)} has an invalid format` });
+      }
+      return value;
+    }
+  };
+}
+
+/**
+ * One of a fixed set of strings
+ */
+export function enumOf<const V extends readonly string[]>(values: V, description?: string): Schema<V[number]> {
+  return {
+    json: { type: 'string', enum: values, description },
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'string' || !values.includes(value)) {
+        issues.push({ path, message: `${label(path)} must be one of: ${values.join(', ')}` });
+      }
+      return value as V[number];
+    }
+  };
+}
+
+/**
+ * Exactly this string (used for message type tags)
+ */
+export function literal<const V extends string>(constant: V): Schema<V> {
+  return {
+    json: { type: 'string', const: constant },
+    optional: false,
+    check(value, path, issues) {
+      if (value !== constant) {
+        issues.push({ path, message: `${label(path)} must be "${constant}"` });
+      }
+      return value as V;
+    }
+  };
+}
+
+/**
+ * Timestamp - a Date on the server, an ISO 8601 string once serialized
+ * Only used to describe responses and events, never to check input
+ */
+export function dateTime(description?: string): Schema<Date | string> {
+  return {
+    json: { type: 'string', format: 'date-time', description },
+    optional: false,
+    check(value, path, issues) {
+      if (!(value instanceof Date) && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+        issues.push({ path, message: `${label(path)} must be a date-time` });
+      }
+      return value as Date | string;
+    }
+  };
+}
+
+/**
+ * Any JSON value (e.g. free-form pricing params)
+ */
+export function unknownValue(description?: string): Schema<unknown> {
+  return {
+    json: { description },
+    optional: false,
+    check(value) {
+      return value;
+    }
+  };
+}
+
+/**
+ * Finite number with optional bounds
+ * coerce accepts numeric strings - for query parameters, never for JSON bodies
+ */
+export function number(options: {
+  integer?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  coerce?: boolean;
+  description?: string;
+} = {}): Schema<number> {
+  const { integer, minimum, maximum, exclusiveMinimum, coerce, description } = options;
+  return {
+    json: { type: integer ? 'integer' : 'number', minimum, maximum, exclusiveMinimum, description },
+    optional: false,
+    check(value, path, issues) {
+      const n = coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) {
+        issues.push({ path, message: `${label(path)} must be a number` });
+        return n as number;
+      }
+      if (integer && !Number.isInteger(n)) {
+        issues.push({ path, message: `${label(path)} must be an integer` });
+      } else if (exclusiveMinimum !== undefined && n <= exclusiveMinimum) {
+        issues.push({ path, message: `${label(path)} must be greater than ${exclusiveMinimum}` });
+      } else if (minimum !== undefined && n < minimum) {
+        issues.push({ path, message: `${label(path)} must be at least ${minimum}` });
+      } else if (maximum !== undefined && n > maximum) {
+        issues.push({ path, message: `${label(path)} must be at most ${maximum}` });
+      }
+      return n;
+    }
+  };
+}
+
+/**
+ * true or false
+ */
+export function boolean(description?: string): Schema<boolean> {
+  return {
+    json: { type: 'boolean', description },
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `${label(path)} must be a boolean` });
+      }
+      return value as boolean;
+    }
+  };
+}
+
+/**
+ * Array of items
+ */
+export function array<T>(items: Schema<T>, options: { minItems?: number; maxItems?: number; description?: string } = {}): Schema<T[]> {
+  const { minItems, maxItems, description } = options;
+  return {
+    json: { type: 'array', items: items.json, minItems, maxItems, description },
+    optional: false,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `${label(path)} must be an array` });
+        return value as T[];
+      }
+      if (minItems !== undefined && value.length < minItems) {
+        issues.push({ path, message: `${label(path)} must have at least ${minItems} item${minItems === 1 ? '' : 's'}` });
+      }
+      if (maxItems !== undefined && value.length > maxItems) {
+        issues.push({ path, message: `${label(path)} must have at most ${maxItems} items` });
+      }
+      return value.map((item, i) => items.check(item, join(path, i), issues));
+    }
+  };
+}
+
+/**
+ * Object with known fields - unknown fields are dropped
+ */
+export function object<S extends Shape>(shape: S, options: { title?: string; description?: string } = {}): Schema<InferShape<S>> {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, field] of Object.entries(shape)) {
+    properties[key] = field.json;
+    if (!field.optional) required.push(key);
+  }
+
+  return {
+    json: { type: 'object', title: options.title, description: options.description, properties, required },
+    optional: false,
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `${label(path)} must be an object` });
+        return value as InferShape<S>;
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(shape)) {
+        const fieldPath = join(path, key);
+        if (input[key] === undefined || input[key] === null) {
+          if (field.optional) {
+            const fallback = field.json.default;
+            if (fallback !== undefined) output[key] = fallback;
+          } else {
+            issues.push({ path: fieldPath, message: `${fieldPath} is required` });
+          }
+          continue;
+        }
+        output[key] = field.check(input[key], fieldPath, issues);
+      }
+      return output as InferShape<S>;
+    }
+  };
+}
+
+/**
+ * Field that may be left out (or set to a default)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T> & { optional: true };
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T>;
+export function optional<T>(schema: Schema<T>, fallback?: T): Schema<T> {
+  return {
+    json: fallback === undefined ? schema.json : { ...schema.json, default: fallback },
+    // A field with a default is always present after checking
+    optional: true,
+    check: schema.check
+  } as Schema<T>;
+}
+
+/**
+ * Value or null
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  const { json } = schema;
+  const simple = typeof json.type === 'string' && !json.title;
+  return {
+    json: simple
+      ? { ...json, type: [json.type as JsonType, 'null'] }
+      : { oneOf: [json, { type: 'null' }] },
+    optional: schema.optional,
+    check(value, path, issues) {
+      return value === null ? null : schema.check(value, path, issues);
+    }
+  };
+}
+
+/**
+ * First of several schemas the value matches
+ */
+export function union<V extends Schema<unknown>[]>(
+  variants: V,
+  options: { title?: string; description?: string } = {}
+): Schema<Infer<V[number]>> {
+  return {
+    json: { title: options.title, description: options.description, oneOf: variants.map(v => v.json) },
+    optional: false,
+    check(value, path, issues) {
+      let closest: ValidationIssue[] | null = null;
+      for (const variant of variants) {
+        const variantIssues: ValidationIssue[] = [];
+        const checked = variant.check(value, path, variantIssues);
+        if (variantIssues.length === 0) return checked as Infer<V[number]>;
+        if (!closest || variantIssues.length < closest.length) closest = variantIssues;
+      }
+      issues.push(...(closest || []));
+      return value as Infer<V[number]>;
+    }
+  };
+}
+
+/**
+ * Extra rule on top of a schema (e.g. "at most one capital letter")
+ */
+export function refine<T>(schema: Schema<T>, rule: (value: T) => string | null): Schema<T> {
+  return {
+    json: schema.json,
+    optional: schema.optional,
+    check(value, path, issues) {
+      const before = issues.length;
+      const checked = schema.check(value, path, issues);
+      if (issues.length === before) {
+        const message = rule(checked);
+        if (message) issues.push({ path, message });
+      }
+      return checked;
+    }
+  };
+}
+
+/**
+ * One of several object schemas, picked by a tag field (e.g. WebSocket message "type")
+ */
+export function discriminated<K extends string, V extends Schema<Record<K, string>>[]>(
+  key: K,
+  variants: V,
+  options: { title?: string; description?: string } = {}
+): Schema<Infer<V[number]>> {
+  const byTag = new Map<string, Schema<unknown>>();
+  for (const variant of variants) {
+    const tag = variant.json.properties?.[key]?.const;
+    if (tag) byTag.set(tag, variant);
+  }
+
+  return {
+    json: {
+      title: options.title,
+      description: options.description,
+      oneOf: variants.map(v => v.json),
+      discriminator: { propertyName: key }
+    },
+    optional: false,
+    check(value, path, issues) {
+      const tag = typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+      const variant = typeof tag === 'string' ? byTag.get(tag) : undefined;
+      if (!variant) {
+        const tagPath = join(path, key);
+        issues.push({ path: tagPath, message: `${tagPath} must be one of: ${Array.from(byTag.keys()).join(', ')}` });
+        return value as Infer<V[number]>;
+      }
+      return variant.check(value, path, issues) as Infer<V[number]>;
+    }
+  };
+}
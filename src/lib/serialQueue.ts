@@ -0,0 +1,37 @@
+/**
+ * Keyed Serial Queue
+ *
+ * Runs async tasks one at a time per key, in the order they were queued.
+ * Tasks under different keys still run concurrently.
+ * This only serializes within one process - pair it with row locks for multi-instance safety.
+ */
+
+// Tail of each key's queue (never rejects)
+const tails: Map<string, Promise<void>> = new Map();
+
+/**
+ * Queue a task behind every task already queued under the same key
+ */
+export function runSerialized<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = tails.get(key) || Promise.resolve();
+  const result = previous.then(task);
+
+  // A failed task must not block the ones behind it
+  const tail = result.then(() => undefined, () => undefined);
+  tails.set(key, tail);
+
+  tail.then(() => {
+    if (tails.get(key) === tail) {
+      tails.delete(key);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Number of keys with queued or running tasks
+ */
+export function getActiveQueueCount(): number {
+  return tails.size;
+}
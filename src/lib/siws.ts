@@ -0,0 +1,136 @@
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'crypto';
+import bs58 from 'bs58';
+
+/**
+ * Sign-In With Solana
+ *
+ * The server issues a one-time nonce, the wallet signs a message containing it
+ * with its ed25519 key, and the server verifies the signature against the
+ * wallet address (which is the public key). A verified wallet gets an
+ * HMAC-signed session token that requireAuth accepts alongside Privy tokens.
+ */
+
+// Session configuration
+export const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS) || 24 * 60 * 60;
+export const NONCE_TTL_SECONDS = 5 * 60;
+
+const SESSION_TOKEN_PREFIX = 'siws';
+
+// DER header for a raw 32-byte ed25519 public key (SubjectPublicKeyInfo)
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// A random secret signs tokens no other server accepts and none survive a restart - fine locally, not in production
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error('SESSION_SECRET not set in environment');
+}
+const sessionSecret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+if (!process.env.SESSION_SECRET) {
+  console.warn('[SIWS] Warning: SESSION_SECRET not set. Using a random secret - sessions end on restart.');
+}
+
+export interface SessionClaims {
+  walletAddress: string;
+  issuedAt: number;   // unix seconds
+  expiresAt: number;  // unix seconds
+}
+
+/**
+ * Generate a random nonce for a sign-in attempt
+ */
+export function generateNonce(): string {
+  return bs58.encode(randomBytes(16));
+}
+
+/**
+ * Build the exact message the wallet must sign
+ */
+export function buildSignInMessage(walletAddress: string, nonce: string, issuedAt: Date): string {
+  return [
+    'Sign in to PumpIt',
+    '',
+    `Wallet: ${walletAddress}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`
+  ].join('\n');
+}
+
+/**
+ * Verify an ed25519 signature (base58) of a message by a Solana wallet address
+ */
+export function verifyWalletSignature(walletAddress: string, message: string, signature: string): boolean {
+  try {
+    const publicKey = bs58.decode(walletAddress);
+    const signatureBytes = bs58.decode(signature);
+    if (publicKey.length !== 32 || signatureBytes.length !== 64) {
+      return false;
+    }
+
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey)]),
+      format: 'der',
+      type: 'spki'
+    });
+
+    return verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(signatureBytes));
+  } catch {
+    return false;
+  }
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', sessionSecret).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a session token for a verified wallet
+ */
+export function createSessionToken(walletAddress: string): { token: string; claims: SessionClaims } {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const claims: SessionClaims = {
+    walletAddress,
+    issuedAt,
+    expiresAt: issuedAt + SESSION_TTL_SECONDS
+  };
+
+  const payload = Buffer.from(JSON.stringify({
+    sub: claims.walletAddress,
+    iat: claims.issuedAt,
+    exp: claims.expiresAt
+  })).toString('base64url');
+
+  return { token: `${SESSION_TOKEN_PREFIX}.${payload}.${sign(payload)}`, claims };
+}
+
+/**
+ * Check if a bearer token looks like one of our session tokens (vs a Privy token)
+ */
+export function isSessionToken(token: string): boolean {
+  return token.startsWith(`${SESSION_TOKEN_PREFIX}.`);
+}
+
+/**
+ * Verify a session token - returns null if it is forged, malformed or expired
+ */
+export function verifySessionToken(token: string): SessionClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== SESSION_TOKEN_PREFIX) {
+    return null;
+  }
+
+  const [, payload, signature] = parts;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { sub, iat, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof sub !== 'string' || typeof exp !== 'number' || exp <= Date.now() / 1000) {
+      return null;
+    }
+    return { walletAddress: sub, issuedAt: iat, expiresAt: exp };
+  } catch {
+    return null;
+  }
+}
@@ -4,10 +4,11 @@ import {
   PublicKey, 
   LAMPORTS_PER_SOL,
   Transaction,
-  SystemProgram,
-  sendAndConfirmTransaction
+  TransactionInstruction,
+  SystemProgram
 } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { Lamports } from './lamports';
 
 // Initialize Solana connection
 const RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
@@ -41,27 +42,345 @@ export function getHousePublicKey(): PublicKey {
   return new PublicKey(address);
 }
 
+// SPL Token and Associated Token Account programs
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWW25efTNsLJA8knL');
+
+// Token account that holds an owner's balance of a mint
+export function getAssociatedTokenAddress(owner: PublicKey, mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address;
+}
+
+// What a confirmed transaction did to one account
+export interface TransferResult {
+  succeeded: boolean;          // false if the transaction failed on chain
+  sender: string | null;       // Fee payer (first account key)
+  received: Lamports | null;   // Lamports (or token base units) the account gained, null if it isn't in the transaction
+}
+
+// A transaction that touched an address
+export interface SignatureInfo {
+  signature: string;
+  failed: boolean;
+}
+
+// One SystemProgram transfer inside a transaction
+export interface SystemTransfer {
+  source: string;
+  destination: string;
+  lamports: Lamports;
+}
+
+// One SPL Token transfer inside a transaction - source and destination are token accounts
+export interface TokenTransfer {
+  authority: string;           // Wallet that signed for the source account
+  source: string;
+  destination: string;
+  amount: bigint;              // Mint base units
+}
+
+// Where a sent transaction stands
+export type SignatureState = 'pending' | 'confirmed' | 'failed';
+
+// Where and when a confirmed transaction landed
+export interface TransactionInfo {
+  slot: number;
+  blockTime: number | null;    // Unix seconds
+  failed: boolean;
+}
+
+// All chain access goes through this - rpcGateway below talks to SOLANA_RPC_URL,
+// createFakeSolana (test/support/fakeSolana.ts) keeps an in-memory chain for the tests
+export interface SolanaGateway {
+  getBalance(address: string): Promise<Lamports>;
+  // null until the transaction is confirmed
+  getTransaction(signature: string): Promise<TransactionInfo | null>;
+  // null until the transaction is confirmed
+  getTransfer(signature: string, recipient: string): Promise<TransferResult | null>;
+  // Newest first, only transactions after `until` and before `before`
+  getSignatures(address: string, options: { until?: string; before?: string; limit: number }): Promise<SignatureInfo[]>;
+  // Every SystemProgram transfer in a transaction (including inner instructions), null until confirmed
+  getSystemTransfers(signature: string): Promise<SystemTransfer[] | null>;
+  // Base units of a mint held across the owner's token accounts
+  getTokenBalance(owner: string, mint: string): Promise<bigint>;
+  // Like getTransfer, for the token balance the owner gained in a mint (base units)
+  getTokenTransfer(signature: string, owner: string, mint: string): Promise<TransferResult | null>;
+  // Every SPL Token transfer in a transaction (including inner instructions), null until confirmed
+  getTokenTransfers(signature: string): Promise<TokenTransfer[] | null>;
+  getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }>;
+  // Finalized block height - once past a blockhash's lastValidBlockHeight, its transactions can never land
+  getBlockHeight(): Promise<number>;
+  // Broadcast a signed, base64-serialized transaction
+  sendTransaction(serialized: string): Promise<void>;
+  // Searches history, so it also finds transactions from before a restart
+  getSignatureState(signature: string): Promise<SignatureState>;
+}
+
+// SolanaGateway backed by the RPC connection above
+export const rpcGateway: SolanaGateway = {
+  async getBalance(address: string): Promise<Lamports> {
+    return BigInt(await connection.getBalance(new PublicKey(address)));
+  },
+
+  async getTransaction(signature: string): Promise<TransactionInfo | null> {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      return null;
+    }
+    return {
+      slot: transaction.slot,
+      blockTime: transaction.blockTime ?? null,
+      failed: !transaction.meta || transaction.meta.err !== null
+    };
+  },
+
+  async getTransfer(signature: string, recipient: string): Promise<TransferResult | null> {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      return null;
+    }
+
+    const accountKeys = transaction.transaction.message.getAccountKeys();
+    const sender = accountKeys.get(0)?.toBase58() || null;
+    if (!transaction.meta || transaction.meta.err) {
+      return { succeeded: false, sender, received: null };
+    }
+
+    const recipientKey = new PublicKey(recipient);
+    for (let i = 0; i < accountKeys.length; i++) {
+      if (accountKeys.get(i)?.equals(recipientKey)) {
+        const received = BigInt(transaction.meta.postBalances[i] - transaction.meta.preBalances[i]);
+        return { succeeded: true, sender, received };
+      }
+    }
+    return { succeeded: true, sender, received: null };
+  },
+
+  async getSignatures(address: string, options: { until?: string; before?: string; limit: number }): Promise<SignatureInfo[]> {
+    const signatures = await connection.getSignaturesForAddress(new PublicKey(address), options, 'confirmed');
+    return signatures.map(s => ({ signature: s.signature, failed: s.err !== null }));
+  },
+
+  async getSystemTransfers(signature: string): Promise<SystemTransfer[] | null> {
+    const transaction = await connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      return null;
+    }
+
+    const instructions = [
+      ...transaction.transaction.message.instructions,
+      ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+    ];
+
+    const transfers: SystemTransfer[] = [];
+    for (const instruction of instructions) {
+      if (!('parsed' in instruction) || instruction.program !== 'system') continue;
+      const { type, info } = instruction.parsed;
+      if (type !== 'transfer' && type !== 'transferWithSeed') continue;
+      transfers.push({
+        source: info.source,
+        destination: info.destination,
+        lamports: BigInt(info.lamports)
+      });
+    }
+    return transfers;
+  },
+
+  async getTokenBalance(owner: string, mint: string): Promise<bigint> {
+    const { value } = await connection.getParsedTokenAccountsByOwner(new PublicKey(owner), { mint: new PublicKey(mint) });
+    return value.reduce((sum, account) => sum + BigInt(account.account.data.parsed.info.tokenAmount.amount), 0n);
+  },
+
+  async getTokenTransfer(signature: string, owner: string, mint: string): Promise<TransferResult | null> {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      return null;
+    }
+
+    const sender = transaction.transaction.message.getAccountKeys().get(0)?.toBase58() || null;
+    if (!transaction.meta || transaction.meta.err) {
+      return { succeeded: false, sender, received: null };
+    }
+
+    // Token balances are listed per account index, only for accounts the transaction touched
+    const ownedBalances = (balances: typeof transaction.meta.preTokenBalances) => (balances || [])
+      .filter(balance => balance.owner === owner && balance.mint === mint)
+      .reduce((sum, balance) => sum + BigInt(balance.uiTokenAmount.amount), 0n);
+    const touched = [...(transaction.meta.preTokenBalances || []), ...(transaction.meta.postTokenBalances || [])]
+      .some(balance => balance.owner === owner && balance.mint === mint);
+    if (!touched) {
+      return { succeeded: true, sender, received: null };
+    }
+
+    const received = ownedBalances(transaction.meta.postTokenBalances) - ownedBalances(transaction.meta.preTokenBalances);
+    return { succeeded: true, sender, received };
+  },
+
+  async getTokenTransfers(signature: string): Promise<TokenTransfer[] | null> {
+    const transaction = await connection.getParsedTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0
+    });
+    if (!transaction) {
+      return null;
+    }
+
+    const instructions = [
+      ...transaction.transaction.message.instructions,
+      ...(transaction.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+    ];
+
+    const transfers: TokenTransfer[] = [];
+    for (const instruction of instructions) {
+      if (!('parsed' in instruction) || instruction.program !== 'spl-token') continue;
+      const { type, info } = instruction.parsed;
+      if (type !== 'transfer' && type !== 'transferChecked') continue;
+      transfers.push({
+        // Multisig owned accounts sign with multisigAuthority
+        authority: info.authority || info.multisigAuthority,
+        source: info.source,
+        destination: info.destination,
+        amount: BigInt(type === 'transfer' ? info.amount : info.tokenAmount.amount)
+      });
+    }
+    return transfers;
+  },
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    return connection.getLatestBlockhash('confirmed');
+  },
+
+  async getBlockHeight(): Promise<number> {
+    return connection.getBlockHeight('finalized');
+  },
+
+  async sendTransaction(serialized: string): Promise<void> {
+    await connection.sendRawTransaction(Buffer.from(serialized, 'base64'), { maxRetries: 0 });
+  },
+
+  async getSignatureState(signature: string): Promise<SignatureState> {
+    const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+    if (!value) return 'pending';
+    if (value.err) return 'failed';
+    return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized'
+      ? 'confirmed'
+      : 'pending';
+  }
+};
+
+// Sign (but don't send) a transfer from escrow - the signature is known before broadcasting
+export function signEscrowTransfer(
+  destinationAddress: string,
+  lamports: Lamports,
+  blockhash: string
+): { signature: string; serialized: string } {
+  const escrowKeypair = getEscrowKeypair();
+
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: escrowKeypair.publicKey,
+      toPubkey: new PublicKey(destinationAddress),
+      lamports
+    })
+  );
+  transaction.feePayer = escrowKeypair.publicKey;
+  transaction.recentBlockhash = blockhash;
+  transaction.sign(escrowKeypair);
+
+  return {
+    signature: bs58.encode(transaction.signature as Buffer),
+    serialized: transaction.serialize().toString('base64')
+  };
+}
+
+// Sign (but don't send) an SPL token transfer from escrow
+// Creates the destination's token account first if it has none (escrow pays the rent)
+export function signEscrowTokenTransfer(
+  destinationAddress: string,
+  mint: PublicKey,
+  amount: bigint,
+  decimals: number,
+  blockhash: string
+): { signature: string; serialized: string } {
+  const escrowKeypair = getEscrowKeypair();
+  const owner = new PublicKey(destinationAddress);
+  const source = getAssociatedTokenAddress(escrowKeypair.publicKey, mint);
+  const destination = getAssociatedTokenAddress(owner, mint);
+
+  // Associated Token Account program: CreateIdempotent (1)
+  const createAccount = new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: escrowKeypair.publicKey, isSigner: true, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false }
+    ],
+    data: Buffer.from([1])
+  });
+
+  // Token program: TransferChecked (12) - u64 amount, u8 decimals
+  const data = Buffer.alloc(10);
+  data.writeUInt8(12, 0);
+  data.writeBigUInt64LE(amount, 1);
+  data.writeUInt8(decimals, 9);
+  const transfer = new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: escrowKeypair.publicKey, isSigner: true, isWritable: false }
+    ],
+    data
+  });
+
+  const transaction = new Transaction().add(createAccount, transfer);
+  transaction.feePayer = escrowKeypair.publicKey;
+  transaction.recentBlockhash = blockhash;
+  transaction.sign(escrowKeypair);
+
+  return {
+    signature: bs58.encode(transaction.signature as Buffer),
+    serialized: transaction.serialize().toString('base64')
+  };
+}
+
 // Get SOL balance for an address
-export async function getSolBalance(address: string): Promise<number> {
-  const publicKey = new PublicKey(address);
-  const balance = await connection.getBalance(publicKey);
-  return balance / LAMPORTS_PER_SOL;
+export async function getSolBalance(address: string, solana: SolanaGateway = rpcGateway): Promise<number> {
+  const balance = await solana.getBalance(address);
+  return Number(balance) / LAMPORTS_PER_SOL;
 }
 
 // Verify a transaction signature
-export async function verifyTransaction(signature: string): Promise<{
+export async function verifyTransaction(signature: string, solana: SolanaGateway = rpcGateway): Promise<{
   confirmed: boolean;
   slot?: number;
   blockTime?: number;
 }> {
   try {
-    const status = await connection.getSignatureStatus(signature);
+    const state = await solana.getSignatureState(signature);
     
-    if (status.value?.confirmationStatus === 'confirmed' || 
-        status.value?.confirmationStatus === 'finalized') {
-      const transaction = await connection.getTransaction(signature, {
-        maxSupportedTransactionVersion: 0
-      });
+    if (state === 'confirmed') {
+      const transaction = await solana.getTransaction(signature);
       
       return {
         confirmed: true,
@@ -77,31 +396,6 @@ export async function verifyTransaction(signature: string): Promise<{
   }
 }
 
-// Transfer SOL from escrow to a destination
-export async function transferFromEscrow(
-  destinationAddress: string,
-  amountSol: number
-): Promise<string> {
-  const escrowKeypair = getEscrowKeypair();
-  const destinationPubkey = new PublicKey(destinationAddress);
-  
-  const transaction = new Transaction().add(
-    SystemProgram.transfer({
-      fromPubkey: escrowKeypair.publicKey,
-      toPubkey: destinationPubkey,
-      lamports: Math.floor(amountSol * LAMPORTS_PER_SOL)
-    })
-  );
-  
-  const signature = await sendAndConfirmTransaction(
-    connection,
-    transaction,
-    [escrowKeypair]
-  );
-  
-  return signature;
-}
-
 // Lamports to SOL conversion
 export function lamportsToSol(lamports: number): number {
   return lamports / LAMPORTS_PER_SOL;
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
 import privy from '../lib/privy';
 import { User } from '@privy-io/node';
+import { isSessionToken, verifySessionToken } from '../lib/siws';
+import { sendError } from '../lib/errors';
 
 // Infer LinkedAccount type from User
 type LinkedAccount = User['linked_accounts'][number];
@@ -11,67 +14,99 @@ declare global {
     interface Request {
       privyUserId?: string;
       walletAddress?: string;
+      authExpiresAt?: number;
     }
   }
 }
 
+// Verified identity behind a bearer token
+export interface AuthIdentity {
+  method: 'privy' | 'siws';
+  walletAddress: string;
+  privyUserId?: string;
+  expiresAt: number;  // unix seconds
+}
+
 // Type guard for Solana wallet linked account
 function isSolanaWallet(account: LinkedAccount): account is LinkedAccount & { address: string; chain_type: 'solana' } {
   return account.type === 'wallet' && 'chain_type' in account && (account as any).chain_type === 'solana';
 }
 
 /**
- * Middleware to verify Privy authentication token
- * Extracts user ID and wallet address from the verified token
+ * Verify a bearer token - a Privy access token or a wallet sign-in session token
+ * Throws INVALID_TOKEN or NO_SOLANA_WALLET
+ */
+export async function verifyAuthToken(token: string): Promise<AuthIdentity> {
+  if (isSessionToken(token)) {
+    const claims = verifySessionToken(token);
+    if (!claims) {
+      throw new Error('INVALID_TOKEN');
+    }
+    return { method: 'siws', walletAddress: claims.walletAddress, expiresAt: claims.expiresAt };
+  }
+
+  let verifiedClaims;
+  let user: User;
+  try {
+    // Verify the token with Privy using utils().auth()
+    verifiedClaims = await privy.utils().auth().verifyAccessToken(token);
+    
+    // Get user details to extract wallet address
+    user = await privy.users()._get(verifiedClaims.user_id);
+  } catch (verifyError) {
+    console.error('[Auth] Token verification failed:', verifyError);
+    throw new Error('INVALID_TOKEN');
+  }
+
+  // Find Solana wallet from linked accounts
+  const solanaWallet = user.linked_accounts.find(isSolanaWallet);
+  if (!solanaWallet) {
+    throw new Error('NO_SOLANA_WALLET');
+  }
+
+  return {
+    method: 'privy',
+    walletAddress: solanaWallet.address,
+    privyUserId: verifiedClaims.user_id,
+    expiresAt: verifiedClaims.expiration
+  };
+}
+
+/**
+ * Middleware to verify a Privy access token or wallet session token
+ * Attaches the verified wallet address - routes must use it instead of any wallet in the body
  */
 export async function requireAuth(req: Request, res: Response, next: NextFunction) {
   try {
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ 
-        success: false, 
-        error: 'Authentication required. Please connect your wallet.' 
-      });
+      return sendError(res, 'UNAUTHORIZED', 'Authentication required. Please connect your wallet.');
     }
     
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
     
     try {
-      // Verify the token with Privy using utils().auth()
-      const verifiedClaims = await privy.utils().auth().verifyAccessToken(token);
-      
-      // Get user details to extract wallet address
-      const user = await privy.users()._get(verifiedClaims.user_id);
-      
-      // Find Solana wallet from linked accounts
-      const solanaWallet = user.linked_accounts.find(isSolanaWallet);
-      
-      if (!solanaWallet) {
-        return res.status(401).json({ 
-          success: false, 
-          error: 'No Solana wallet linked to this account' 
-        });
-      }
+      const identity = await verifyAuthToken(token);
       
       // Attach auth info to request
-      req.privyUserId = verifiedClaims.user_id;
-      req.walletAddress = solanaWallet.address;
+      req.privyUserId = identity.privyUserId;
+      req.walletAddress = identity.walletAddress;
+      req.authExpiresAt = identity.expiresAt;
       
       next();
-    } catch (verifyError) {
-      console.error('[Auth] Token verification failed:', verifyError);
-      return res.status(401).json({ 
-        success: false, 
-        error: 'Invalid or expired authentication token' 
-      });
+    } catch (verifyError: any) {
+      if (verifyError.message === 'NO_SOLANA_WALLET') {
+        return sendError(res, 'NO_SOLANA_WALLET', 'No Solana wallet linked to this account');
+      }
+      if (verifyError.message === 'INVALID_TOKEN') {
+        return sendError(res, 'INVALID_TOKEN', 'Invalid or expired authentication token');
+      }
+      throw verifyError;
     }
   } catch (error) {
     console.error('[Auth] Middleware error:', error);
-    return res.status(500).json({ 
-      success: false, 
-      error: 'Authentication service error' 
-    });
+    return sendError(res, 'AUTH_SERVICE_ERROR', 'Authentication service error');
   }
 }
 
@@ -90,15 +125,10 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
     const token = authHeader.substring(7);
     
     try {
-      const verifiedClaims = await privy.utils().auth().verifyAccessToken(token);
-      const user = await privy.users()._get(verifiedClaims.user_id);
-      
-      const solanaWallet = user.linked_accounts.find(isSolanaWallet);
-      
-      if (solanaWallet) {
-        req.privyUserId = verifiedClaims.user_id;
-        req.walletAddress = solanaWallet.address;
-      }
+      const identity = await verifyAuthToken(token);
+      req.privyUserId = identity.privyUserId;
+      req.walletAddress = identity.walletAddress;
+      req.authExpiresAt = identity.expiresAt;
     } catch {
       // Token invalid, continue without user info
     }
@@ -110,4 +140,24 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
   }
 }
 
-export default { requireAuth, optionalAuth };
+// Header carrying ADMIN_API_KEY on admin endpoints
+export const ADMIN_KEY_HEADER = 'X-Admin-Key';
+
+/**
+ * Middleware for admin endpoints - the X-Admin-Key header must match ADMIN_API_KEY
+ * With ADMIN_API_KEY unset every admin request is refused
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_API_KEY;
+  const provided = req.get(ADMIN_KEY_HEADER);
+
+  // Compare digests so the check takes the same time whatever the key's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!expected || !provided || !timingSafeEqual(digest(provided), digest(expected))) {
+    return sendError(res, 'ADMIN_REQUIRED', 'Admin key required');
+  }
+
+  next();
+}
+
+export default { requireAuth, optionalAuth, requireAdmin };
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from '../lib/errors';
+
+/**
+ * 404 for unknown API routes, in the standard error envelope
+ */
+export function notFoundHandler(req: Request, res: Response) {
+  return sendError(res, 'NOT_FOUND', `No route for ${req.method} ${req.path}`);
+}
+
+/**
+ * Last-resort error handler - malformed JSON bodies and anything a route didn't catch
+ */
+export function errorHandler(err: any, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  // Thrown by express.json() for bodies that aren't valid JSON
+  if (err?.type === 'entity.parse.failed') {
+    return sendError(res, 'VALIDATION_ERROR', 'Request body is not valid JSON');
+  }
+
+  console.error(`[API] Unhandled error in ${req.method} ${req.path}:`, err);
+  return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+}
+
+export default { notFoundHandler, errorHandler };
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  releaseIdempotentRequest,
+  hashRequest,
+  MAX_KEY_LENGTH
+} from '../services/idempotencyService';
+import { sendError } from '../lib/errors';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Middleware to make a POST endpoint safe to retry
+ * With an Idempotency-Key header, the first request runs and its response is stored;
+ * retries with the same key get that response back (or 409 while it is still running).
+ * 5xx responses aren't stored - the key is released so a retry runs again.
+ * Requests without the header run as before.
+ */
+export function idempotent(scope: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header(IDEMPOTENCY_HEADER);
+    if (key === undefined) {
+      return next();
+    }
+
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+      return sendError(res, 'VALIDATION_ERROR', `${IDEMPOTENCY_HEADER} must be 1-${MAX_KEY_LENGTH} characters`);
+    }
+
+    // Keys are per wallet so two players can't collide on the same key
+    const walletAddress = req.walletAddress || req.body?.wallet_address;
+    if (!walletAddress) {
+      return next();
+    }
+
+    try {
+      const requestHash = hashRequest(req.method, req.baseUrl + req.path, req.body);
+      const existing = await beginIdempotentRequest(walletAddress, scope, key, requestHash);
+
+      if (existing.state === 'replay') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.status).json(existing.body);
+      }
+
+      if (existing.state === 'in_progress') {
+        return sendError(res, 'IDEMPOTENCY_IN_PROGRESS', 'A request with this Idempotency-Key is still in progress');
+      }
+
+      if (existing.state === 'mismatch') {
+        return sendError(res, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key was already used for a different request');
+      }
+
+      // Store the handler's response before sending it, so a retry made after
+      // the client sees the response always replays it
+      const recordId = existing.id;
+      const originalJson = res.json.bind(res);
+      res.json = (body: unknown) => {
+        const settle = res.statusCode >= 500
+          ? releaseIdempotentRequest(recordId)
+          : completeIdempotentRequest(recordId, res.statusCode, body);
+        settle
+          .catch(error => {
+            console.error('[Idempotency] Failed to store response:', error);
+          })
+          .finally(() => {
+            originalJson(body);
+          });
+        return res;
+      };
+
+      next();
+    } catch (error) {
+      console.error('[Idempotency] Middleware error:', error);
+      return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  };
+}
+
+export default { idempotent };
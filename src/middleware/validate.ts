@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { Schema, ValidationIssue } from '../lib/schema';
+import { sendValidationError } from '../lib/errors';
+
+// Schemas for the parts of a request
+export interface RequestSchemas {
+  body?: Schema<unknown>;
+  query?: Schema<unknown>;
+  params?: Schema<unknown>;
+}
+
+/**
+ * Middleware to check a request against its schemas
+ * On success the parsed values (unknown fields dropped, defaults filled in)
+ * replace req.body / req.query / req.params; otherwise responds with
+ * VALIDATION_ERROR listing every issue
+ */
+export function validateRequest(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: (ValidationIssue & { in: string })[] = [];
+    const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const partIssues: ValidationIssue[] = [];
+      parsed[part] = schema.check(req[part] ?? {}, '', partIssues);
+      issues.push(...partIssues.map(issue => ({ in: part, ...issue })));
+    }
+
+    if (issues.length > 0) {
+      return sendValidationError(res, issues);
+    }
+
+    if (schemas.params) req.params = parsed.params as Request['params'];
+    if (schemas.query) req.query = parsed.query as Request['query'];
+    if (schemas.body) req.body = parsed.body;
+
+    next();
+  };
+}
+
+export default { validateRequest };
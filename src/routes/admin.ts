@@ -0,0 +1,200 @@
+import { Router, Request, Response } from 'express';
+import { FeeSweep, Withdrawal } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { defineRoute } from './define';
+import { sendError } from '../lib/errors';
+import {
+  listWithdrawals,
+  approveWithdrawal,
+  rejectWithdrawal
+} from '../services/withdrawalService';
+import { runFeeSweeps, listFeeSweeps } from '../services/feeSweepService';
+import {
+  withdrawalParams,
+  adminWithdrawalsQuery,
+  reviewWithdrawalRequest,
+  adminWithdrawalsResponse,
+  adminWithdrawalResponse,
+  adminFeeSweepsResponse,
+  adminFeeSweepRunResponse,
+  AdminWithdrawalsQuery,
+  ReviewWithdrawalRequest
+} from '../schemas';
+
+const router = Router();
+
+type WithdrawalWithProfile = Withdrawal & { profile: { wallet_address: string; username: string | null } };
+
+function formatWithdrawal(withdrawal: WithdrawalWithProfile) {
+  return {
+    id: withdrawal.id,
+    wallet_address: withdrawal.profile.wallet_address,
+    username: withdrawal.profile.username,
+    asset: withdrawal.asset,
+    amount: Number(withdrawal.amount),
+    status: withdrawal.status,
+    tx_signature: withdrawal.tx_signature,
+    attempts: withdrawal.attempts,
+    error: withdrawal.error,
+    review_note: withdrawal.review_note,
+    reviewed_at: withdrawal.reviewed_at,
+    created_at: withdrawal.created_at
+  };
+}
+
+function formatFeeSweep(sweep: FeeSweep & { rounds: { id: string }[] }) {
+  return {
+    id: sweep.id,
+    asset: sweep.asset,
+    amount: Number(sweep.amount),
+    destination: sweep.destination,
+    status: sweep.status,
+    tx_signature: sweep.tx_signature,
+    attempts: sweep.attempts,
+    error: sweep.error,
+    round_count: sweep.round_count,
+    round_ids: sweep.rounds.map(round => round.id),
+    created_at: sweep.created_at
+  };
+}
+
+async function withProfile(withdrawal: Withdrawal): Promise<WithdrawalWithProfile> {
+  const profile = await prisma.profile.findUniqueOrThrow({
+    where: { id: withdrawal.profile_id },
+    select: { wallet_address: true, username: true }
+  });
+  return { ...withdrawal, profile };
+}
+
+function sendReviewError(res: Response, error: unknown, route: string): Response {
+  const code = error instanceof Error ? error.message : undefined;
+  if (code === 'WITHDRAWAL_NOT_FOUND') {
+    return sendError(res, 'WITHDRAWAL_NOT_FOUND', 'Withdrawal not found');
+  }
+  if (code === 'WITHDRAWAL_NOT_IN_REVIEW') {
+    return sendError(res, 'WITHDRAWAL_NOT_IN_REVIEW', 'Withdrawal is not pending review');
+  }
+  console.error(`Error in ${route}:`, error);
+  return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+}
+
+// GET /api/admin/withdrawals - List withdrawals by status (pending review by default)
+defineRoute(router, {
+  method: 'get',
+  path: '/withdrawals',
+  operationId: 'adminListWithdrawals',
+  summary: 'Withdrawals in a state, newest first (default: pending_review)',
+  admin: true,
+  query: adminWithdrawalsQuery,
+  response: adminWithdrawalsResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { status } = req.query as unknown as AdminWithdrawalsQuery;
+
+    const withdrawals = await listWithdrawals(status);
+
+    return res.json({ withdrawals: withdrawals.map(formatWithdrawal) });
+
+  } catch (error) {
+    console.error('Error in /admin/withdrawals:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// POST /api/admin/withdrawals/:withdrawal_id/approve - Send a held withdrawal
+defineRoute(router, {
+  method: 'post',
+  path: '/withdrawals/:withdrawal_id/approve',
+  operationId: 'adminApproveWithdrawal',
+  summary: 'Approve a withdrawal held for review - it is sent in the background',
+  admin: true,
+  params: withdrawalParams,
+  body: reviewWithdrawalRequest,
+  response: adminWithdrawalResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { withdrawal_id } = req.params;
+    const { note } = req.body as ReviewWithdrawalRequest;
+
+    const withdrawal = await approveWithdrawal(withdrawal_id, note);
+
+    return res.json({ success: true, withdrawal: formatWithdrawal(await withProfile(withdrawal)) });
+
+  } catch (error) {
+    return sendReviewError(res, error, '/admin/withdrawals/:withdrawal_id/approve');
+  }
+});
+
+// POST /api/admin/withdrawals/:withdrawal_id/reject - Refuse a held withdrawal and refund it
+defineRoute(router, {
+  method: 'post',
+  path: '/withdrawals/:withdrawal_id/reject',
+  operationId: 'adminRejectWithdrawal',
+  summary: 'Reject a withdrawal held for review and refund the player',
+  admin: true,
+  params: withdrawalParams,
+  body: reviewWithdrawalRequest,
+  response: adminWithdrawalResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { withdrawal_id } = req.params;
+    const { note } = req.body as ReviewWithdrawalRequest;
+
+    const withdrawal = await rejectWithdrawal(withdrawal_id, note);
+
+    return res.json({ success: true, withdrawal: formatWithdrawal(await withProfile(withdrawal)) });
+
+  } catch (error) {
+    return sendReviewError(res, error, '/admin/withdrawals/:withdrawal_id/reject');
+  }
+});
+
+// GET /api/admin/fee-sweeps - Recent fee sweeps
+defineRoute(router, {
+  method: 'get',
+  path: '/fee-sweeps',
+  operationId: 'adminListFeeSweeps',
+  summary: 'Recent fee sweeps from escrow to the house wallet, newest first',
+  admin: true,
+  response: adminFeeSweepsResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const sweeps = await listFeeSweeps();
+
+    return res.json({ sweeps: sweeps.map(formatFeeSweep) });
+
+  } catch (error) {
+    console.error('Error in /admin/fee-sweeps:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// POST /api/admin/fee-sweeps/run - Sweep now instead of waiting for the schedule
+defineRoute(router, {
+  method: 'post',
+  path: '/fee-sweeps/run',
+  operationId: 'adminRunFeeSweeps',
+  summary: 'Finish unfinished fee sweeps and start new ones now',
+  admin: true,
+  response: adminFeeSweepRunResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const touched = await runFeeSweeps();
+    const sweeps = await prisma.feeSweep.findMany({
+      where: { id: { in: touched.map(sweep => sweep.id) } },
+      include: { rounds: { select: { id: true } } },
+      orderBy: { created_at: 'asc' }
+    });
+
+    return res.json({ success: true, sweeps: sweeps.map(formatFeeSweep) });
+
+  } catch (error: any) {
+    if (error.message === 'FEE_SWEEP_RUNNING') {
+      return sendError(res, 'FEE_SWEEP_RUNNING', 'A fee sweep is already running');
+    }
+    console.error('Error in /admin/fee-sweeps/run:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+export default router;
@@ -1,37 +1,45 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
+import { setAutoExit } from '../services/autoExitService';
+import { createSignInChallenge, completeSignIn } from '../services/authService';
+import { defineRoute } from './define';
+import { AUTO_EXIT_SECONDS } from '../services/roundConfigService';
+import { sendError } from '../lib/errors';
+import { validate } from '../lib/schema';
+import {
+  profileRequest,
+  nonceRequest,
+  verifyRequest,
+  usernameRequest,
+  usernameParams,
+  autoExitRequest,
+  username as usernameSchema,
+  profileResponse,
+  nonceResponse,
+  verifyResponse,
+  successResponse,
+  autoExitResponse,
+  usernameAvailability,
+  ProfileRequest,
+  NonceRequest,
+  VerifyRequest,
+  UsernameRequest,
+  AutoExitRequest
+} from '../schemas';
 
 const router = Router();
 
-// Username validation: 1-20 chars, alphanumeric only, max 1 capital letter
-function validateUsername(username: string): { valid: boolean; error?: string } {
-  if (!username || username.length < 1 || username.length > 20) {
-    return { valid: false, error: 'Username must be 1-20 characters' };
-  }
-  
-  if (!/^[a-zA-Z0-9]+$/.test(username)) {
-    return { valid: false, error: 'Username must be alphanumeric only' };
-  }
-  
-  const capitalCount = (username.match(/[A-Z]/g) || []).length;
-  if (capitalCount > 1) {
-    return { valid: false, error: 'Username can have at most 1 capital letter' };
-  }
-  
-  return { valid: true };
-}
-
 // POST /api/auth/profile - Get or create profile (no auth required)
-router.post('/profile', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'post',
+  path: '/profile',
+  operationId: 'getProfile',
+  summary: 'Get or create the profile for a wallet',
+  body: profileRequest,
+  response: profileResponse
+}, async (req: Request, res: Response) => {
   try {
-    const { wallet_address } = req.body;
-    
-    if (!wallet_address) {
-      return res.status(400).json({
-        success: false,
-        error: 'wallet_address is required'
-      });
-    }
+    const { wallet_address } = req.body as ProfileRequest;
 
     // Use upsert to avoid race conditions
     const profile = await prisma.profile.upsert({
@@ -52,37 +60,97 @@ router.post('/profile', async (req: Request, res: Response) => {
       wallet_address: profile.wallet_address,
       username: profile.username,
       deposited_balance: profile.deposited_balance.toString(),
+      usdc_balance: profile.usdc_balance.toString(),
+      auto_exit_enabled: profile.auto_exit_enabled,
       needsUsername: !profile.username
     });
     
   } catch (error) {
     console.error('Error in /auth/profile:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
-// POST /api/auth/username - Set username (no auth required)
-router.post('/username', async (req: Request, res: Response) => {
+// POST /api/auth/nonce - Start wallet sign-in: get a nonce and the message to sign
+defineRoute(router, {
+  method: 'post',
+  path: '/nonce',
+  operationId: 'createNonce',
+  summary: 'Start wallet sign-in: get a nonce and the message to sign',
+  body: nonceRequest,
+  response: nonceResponse
+}, async (req: Request, res: Response) => {
   try {
-    const { wallet_address, username } = req.body;
+    const { wallet_address } = req.body as NonceRequest;
     
-    if (!wallet_address || !username) {
-      return res.status(400).json({ success: false, error: 'wallet_address and username are required' });
+    const challenge = await createSignInChallenge(wallet_address);
+    
+    return res.json({
+      success: true,
+      nonce: challenge.nonce,
+      message: challenge.message,
+      expires_at: challenge.expiresAt
+    });
+  } catch (error: any) {
+    if (error.message === 'INVALID_WALLET') {
+      return sendError(res, 'INVALID_WALLET', 'Invalid wallet address');
     }
+    console.error('Error in /auth/nonce:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// POST /api/auth/verify - Finish wallet sign-in: verify the signed message and get a session token
+defineRoute(router, {
+  method: 'post',
+  path: '/verify',
+  operationId: 'verifySignIn',
+  summary: 'Finish wallet sign-in and get a session token',
+  body: verifyRequest,
+  response: verifyResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { wallet_address, nonce, signature } = req.body as VerifyRequest;
     
-    // Validate username format
-    const validation = validateUsername(username);
-    if (!validation.valid) {
-      return res.json({ success: false, error: validation.error });
+    const result = await completeSignIn(wallet_address, nonce, signature);
+    
+    if (!result.success || !result.token || !result.claims) {
+      return sendError(res, result.code || 'INVALID_SIGNATURE', result.error || 'Sign-in failed');
     }
     
+    return res.json({
+      success: true,
+      token: result.token,
+      wallet_address: result.claims.walletAddress,
+      expires_at: new Date(result.claims.expiresAt * 1000)
+    });
+  } catch (error) {
+    console.error('Error in /auth/verify:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// POST /api/auth/username - Set username (auth required)
+defineRoute(router, {
+  method: 'post',
+  path: '/username',
+  operationId: 'setUsername',
+  summary: 'Set username',
+  auth: true,
+  body: usernameRequest,
+  response: successResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const wallet_address = req.walletAddress!;
+    const { username } = req.body as UsernameRequest;
+    
     // Check if username is already taken
     const existingUser = await prisma.profile.findUnique({
       where: { username }
     });
     
     if (existingUser && existingUser.wallet_address !== wallet_address) {
-      return res.json({ success: false, error: 'Username is already taken' });
+      return sendError(res, 'USERNAME_TAKEN', 'Username is already taken');
     }
     
     // Find profile by wallet
@@ -91,7 +159,7 @@ router.post('/username', async (req: Request, res: Response) => {
     });
     
     if (!profile) {
-      return res.json({ success: false, error: 'Profile not found' });
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
     }
     
     // Update username
@@ -103,19 +171,61 @@ router.post('/username', async (req: Request, res: Response) => {
     return res.json({ success: true });
   } catch (error) {
     console.error('Error in /auth/username:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// POST /api/auth/auto-exit - Opt in/out of selling remaining tokens before round end (auth required)
+defineRoute(router, {
+  method: 'post',
+  path: '/auto-exit',
+  operationId: 'setAutoExit',
+  summary: 'Opt in or out of selling remaining tokens before round end',
+  auth: true,
+  body: autoExitRequest,
+  response: autoExitResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const wallet_address = req.walletAddress!;
+    const { enabled } = req.body as AutoExitRequest;
+    
+    const profile = await prisma.profile.findUnique({
+      where: { wallet_address }
+    });
+    
+    if (!profile) {
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
+    }
+    
+    const updated = await setAutoExit(profile.id, enabled);
+    
+    return res.json({
+      success: true,
+      auto_exit_enabled: updated.auto_exit_enabled,
+      auto_exit_seconds: AUTO_EXIT_SECONDS
+    });
+  } catch (error) {
+    console.error('Error in /auth/auto-exit:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // GET /api/auth/check-username/:username - Check if username is available
-router.get('/check-username/:username', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/check-username/:username',
+  operationId: 'checkUsername',
+  summary: 'Check if a username is available',
+  params: usernameParams,
+  response: usernameAvailability
+}, async (req: Request, res: Response) => {
   try {
     const { username } = req.params;
     
-    // First validate the format
-    const validation = validateUsername(username);
-    if (!validation.valid) {
-      return res.json({ available: false, error: validation.error });
+    // A badly formatted name isn't an error here, just not available
+    const validation = validate(usernameSchema, username, 'username');
+    if (!validation.success) {
+      return res.json({ available: false, error: validation.issues[0].message });
     }
     
     // Check if exists
@@ -126,7 +236,7 @@ router.get('/check-username/:username', async (req: Request, res: Response) => {
     return res.json({ available: !existingUser });
   } catch (error) {
     console.error('Error in /auth/check-username:', error);
-    return res.status(500).json({ available: false, error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
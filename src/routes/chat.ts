@@ -1,15 +1,27 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
 import { broadcastChat } from '../websocket/broadcast';
-import { requireAuth } from '../middleware/auth';
+import { defineRoute } from './define';
+import { sendError } from '../lib/errors';
+import {
+  chatRoomParams,
+  chatRequest,
+  chatMessages,
+  chatBroadcast,
+  ChatRequest
+} from '../schemas';
 
 const router = Router();
 
-// Max message length
-const MAX_MESSAGE_LENGTH = 500;
-
 // GET /api/chat/:room - Get last 50 messages for room
-router.get('/:room', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/:room',
+  operationId: 'getChatMessages',
+  summary: 'Last 50 messages in a room, oldest first',
+  params: chatRoomParams,
+  response: chatMessages
+}, async (req: Request, res: Response) => {
   try {
     const { room } = req.params;
     
@@ -36,26 +48,23 @@ router.get('/:room', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Error in GET /chat/:room:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // POST /api/chat - Send a message (requires auth)
-router.post('/', requireAuth, async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'post',
+  path: '/',
+  operationId: 'sendChatMessage',
+  summary: 'Send a chat message',
+  auth: true,
+  body: chatRequest,
+  response: chatBroadcast
+}, async (req: Request, res: Response) => {
   try {
     const wallet_address = req.walletAddress!;
-    const { message, room = 'pumpit' } = req.body;
-    
-    if (!message) {
-      return res.status(400).json({ error: 'message is required' });
-    }
-    
-    // Validate message length
-    if (message.length > MAX_MESSAGE_LENGTH) {
-      return res.status(400).json({ 
-        error: `Message too long. Max ${MAX_MESSAGE_LENGTH} characters` 
-      });
-    }
+    const { message, room } = req.body as ChatRequest;
     
     // Sanitize message (basic XSS prevention)
     const sanitizedMessage = message
@@ -64,7 +73,7 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
       .trim();
     
     if (!sanitizedMessage) {
-      return res.status(400).json({ error: 'Message cannot be empty' });
+      return sendError(res, 'VALIDATION_ERROR', 'Message cannot be empty');
     }
     
     // Get profile to get username
@@ -73,7 +82,7 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
     });
     
     if (!profile) {
-      return res.status(400).json({ error: 'Profile not found' });
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
     }
     
     // Use username or truncated wallet address
@@ -107,7 +116,7 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Error in POST /chat:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
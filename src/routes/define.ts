@@ -0,0 +1,59 @@
+import { Router, RequestHandler } from 'express';
+import { Schema } from '../lib/schema';
+import { requireAuth, requireAdmin } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate';
+import { idempotent } from '../middleware/idempotency';
+
+/**
+ * Route Definitions
+ *
+ * Each endpoint is declared once with its schemas; defineRoute wires the
+ * auth / validation / idempotency middleware and records the definition so
+ * the OpenAPI document (schemas/openapi.ts) is built from the same source.
+ */
+
+export type HttpMethod = 'get' | 'post';
+
+export interface RouteSpec {
+  method: HttpMethod;
+  path: string;                 // Express path relative to the router, e.g. '/position/:wallet_address'
+  operationId: string;          // Method name in the generated client
+  summary: string;
+  auth?: boolean;               // Requires a session token (requireAuth)
+  admin?: boolean;              // Requires the admin key (requireAdmin)
+  idempotent?: string;          // Idempotency scope - accepts an Idempotency-Key header
+  body?: Schema<unknown>;
+  query?: Schema<unknown>;
+  params?: Schema<unknown>;
+  response: Schema<unknown>;
+  mountPath?: string;           // Only document under this mount (for routers mounted twice)
+}
+
+const routeSpecs = new WeakMap<Router, RouteSpec[]>();
+
+/**
+ * Register an endpoint on a router
+ * Middleware order: requireAdmin, requireAuth, validateRequest, idempotent, handler
+ */
+export function defineRoute(router: Router, spec: RouteSpec, handler: RequestHandler): void {
+  const chain: RequestHandler[] = [];
+  if (spec.admin) chain.push(requireAdmin);
+  if (spec.auth) chain.push(requireAuth);
+  if (spec.body || spec.query || spec.params) {
+    chain.push(validateRequest({ body: spec.body, query: spec.query, params: spec.params }));
+  }
+  if (spec.idempotent) chain.push(idempotent(spec.idempotent));
+
+  router[spec.method](spec.path, ...chain, handler);
+
+  const specs = routeSpecs.get(router) || [];
+  specs.push(spec);
+  routeSpecs.set(router, specs);
+}
+
+/**
+ * Endpoints defined on a router
+ */
+export function getRouteSpecs(router: Router): RouteSpec[] {
+  return routeSpecs.get(router) || [];
+}
@@ -1,355 +1,148 @@
 import { Router, Request, Response } from 'express';
-import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
-import prisma from '../lib/prisma';
-import { 
-  connection, 
-  getEscrowPublicKey, 
-  transferFromEscrow,
-  lamportsToSol 
-} from '../lib/solana';
-import { Decimal } from '@prisma/client/runtime/library';
+import { toLamports } from '../lib/lamports';
+import { SolanaGateway, rpcGateway } from '../lib/solana';
+import { ASSETS } from '../lib/assets';
+import { defineRoute } from './define';
+import { sendError } from '../lib/errors';
+import { submitDeposit } from '../services/depositService';
+import { requestWithdrawal, processWithdrawal } from '../services/withdrawalService';
+import {
+  depositConfirmRequest,
+  withdrawRequest,
+  depositConfirmResponse,
+  withdrawResponse,
+  DepositConfirmRequest,
+  WithdrawRequest
+} from '../schemas';
 
-const router = Router();
+/**
+ * Deposit and withdraw endpoints, reading the chain through `solana`
+ * (mounted at both /api/deposit and /api/withdraw)
+ */
+export function createDepositRouter(solana: SolanaGateway = rpcGateway): Router {
+  const router = Router();
 
-// POST /api/deposit/confirm - Confirm a deposit transaction (no auth - tx proves ownership)
-router.post('/confirm', async (req: Request, res: Response) => {
-  try {
-    const { wallet_address, tx_signature, amount } = req.body;
-    
-    if (!wallet_address || !tx_signature || amount === undefined) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'wallet_address, tx_signature and amount are required' 
+  // POST /api/deposit/confirm - Confirm a deposit transaction (no auth - tx proves ownership)
+  defineRoute(router, {
+    method: 'post',
+    path: '/confirm',
+    operationId: 'confirmDeposit',
+    summary: 'Submit a deposit transaction - verified and credited in the background',
+    body: depositConfirmRequest,
+    response: depositConfirmResponse,
+    mountPath: '/api/deposit'
+  }, async (req: Request, res: Response) => {
+    try {
+      const { wallet_address, tx_signature, amount, asset } = req.body as DepositConfirmRequest;
+
+      // The deposit worker verifies and credits it - the result arrives as BALANCE_UPDATE
+      const { deposit, balance, duplicate } = await submitDeposit(wallet_address, tx_signature, amount, asset, solana);
+
+      return res.json({
+        success: true,
+        status: deposit.status,
+        deposit_id: deposit.id,
+        asset: deposit.asset,
+        new_balance: balance,
+        message: duplicate
+          ? (deposit.status === 'confirmed' ? 'Transaction already processed' : 'Deposit is being processed')
+          : 'Deposit received - your balance updates once the transaction is verified'
       });
+
+    } catch (error: any) {
+      if (error.message === 'TX_NOT_TO_ESCROW') {
+        return sendError(res, 'TX_NOT_TO_ESCROW', 'Transaction is not a deposit to the escrow wallet');
+      }
+
+      console.error('Error in /deposit/confirm:', error);
+      return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
     }
-    
-    // Use upsert to avoid race conditions
-    const profile = await prisma.profile.upsert({
-      where: { wallet_address },
-      update: {},
-      create: {
-        wallet_address,
-        deposited_balance: 0,
-        total_wagered: 0,
-        total_won: 0,
-        games_played: 0
+  });
+
+  // POST /api/withdraw - Withdraw SOL or USDC to user's wallet (auth required)
+  defineRoute(router, {
+    method: 'post',
+    path: '/',
+    operationId: 'withdraw',
+    summary: 'Withdraw SOL or USDC to the player\'s wallet',
+    auth: true,
+    idempotent: 'withdraw',
+    body: withdrawRequest,
+    response: withdrawResponse,
+    mountPath: '/api/withdraw'
+  }, async (req: Request, res: Response) => {
+    let symbol = ASSETS.sol.symbol;
+    try {
+      // Wallet comes from the verified token, never the body
+      const wallet_address = req.walletAddress!;
+      const { amount: withdrawAmount, asset } = req.body as WithdrawRequest;
+      symbol = ASSETS[asset].symbol;
+
+      const withdrawLamports = toLamports(withdrawAmount);
+
+      // Minimum withdrawal to cover transaction fees
+      const MIN_WITHDRAWAL = 0.001;
+      if (withdrawLamports < toLamports(MIN_WITHDRAWAL)) {
+        return sendError(res, 'VALIDATION_ERROR', `Minimum withdrawal is ${MIN_WITHDRAWAL} ${symbol}`);
       }
-    });
-    
-    // Check if this transaction was already processed
-    const existingDeposit = await prisma.depositHistory.findFirst({
-      where: { tx_signature }
-    });
-    
-    if (existingDeposit) {
-      // If pending, refetch balance
-      if (existingDeposit.status === 'pending') {
-        const currentProfile = await prisma.profile.findUnique({
-          where: { wallet_address }
-        });
-        return res.json({ 
+
+      // Balance is deducted and the withdrawal saved before anything is signed
+      const { withdrawal, balance } = await requestWithdrawal(wallet_address, withdrawLamports, asset);
+
+      if (withdrawal.status === 'pending_review') {
+        return res.json({
           success: true,
-          message: 'Deposit is being processed',
-          new_balance: currentProfile?.deposited_balance.toString() || '0'
-        });
-      }
-      return res.json({ 
-        success: true, 
-        message: 'Transaction already processed',
-        new_balance: profile.deposited_balance.toString()
-      });
-    }
-    
-    // Retry fetching transaction with backoff (wait for confirmation)
-    let transaction = null;
-    const maxRetries = 10;
-    const baseDelay = 1000;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      transaction = await connection.getTransaction(tx_signature, {
-        maxSupportedTransactionVersion: 0
-      });
-      
-      if (transaction) break;
-      
-      // Wait before retry (1s, 1.5s, 2s, 2.5s, etc.)
-      const delay = baseDelay + (attempt * 500);
-      await new Promise(resolve => setTimeout(resolve, delay));
-    }
-    
-    if (!transaction) {
-      // Save as pending (check if not already exists)
-      const existingPending = await prisma.depositHistory.findFirst({
-        where: { tx_signature }
-      });
-      
-      if (!existingPending) {
-        await prisma.depositHistory.create({
-          data: {
-            profile_id: profile.id,
-            tx_type: 'deposit',
-            amount: amount,
-            tx_signature,
-            status: 'pending'
-          }
+          withdrawal_id: withdrawal.id,
+          asset,
+          status: 'pending_review',
+          tx_signature: null,
+          new_balance: balance.toString()
         });
       }
-      
-      return res.json({ 
-        success: false, 
-        error: 'Transaction not confirmed yet. Please wait a moment and refresh.' 
-      });
-    }
-    
-    // Verify transaction is confirmed
-    if (!transaction.meta || transaction.meta.err) {
-      await prisma.depositHistory.create({
-        data: {
-          profile_id: profile.id,
-          tx_type: 'deposit',
-          amount: amount,
-          tx_signature,
-          status: 'failed'
-        }
-      });
-      
-      return res.json({ success: false, error: 'Transaction failed on chain' });
-    }
-    
-    // Get escrow wallet address
-    const escrowPubkey = getEscrowPublicKey();
-    
-    // Parse the transaction to verify it's a transfer to escrow
-    const accountKeys = transaction.transaction.message.getAccountKeys();
-    const preBalances = transaction.meta.preBalances;
-    const postBalances = transaction.meta.postBalances;
-    
-    // Verify sender (accountKeys[0] is the fee payer/sender) matches wallet_address
-    const senderPubkey = accountKeys.get(0);
-    if (!senderPubkey || senderPubkey.toBase58() !== wallet_address) {
-      return res.json({ 
-        success: false, 
-        error: 'Transaction sender does not match wallet_address' 
-      });
-    }
-    
-    // Find escrow account index
-    let escrowIndex = -1;
-    for (let i = 0; i < accountKeys.length; i++) {
-      if (accountKeys.get(i)?.equals(escrowPubkey)) {
-        escrowIndex = i;
-        break;
+
+      // Wait a while for it to land - the withdrawal worker finishes it otherwise
+      const result = await processWithdrawal(withdrawal.id, solana);
+
+      if (result.status === 'failed') {
+        return sendError(res, 'TRANSFER_FAILED', 'Transaction failed. Your balance has been refunded.');
       }
-    }
-    
-    if (escrowIndex === -1) {
-      return res.json({ 
-        success: false, 
-        error: 'Transaction is not a transfer to the escrow wallet' 
-      });
-    }
-    
-    // Calculate the amount received by escrow
-    const escrowReceived = lamportsToSol(postBalances[escrowIndex] - preBalances[escrowIndex]);
-    
-    // Allow small tolerance for rounding (0.001 SOL)
-    const tolerance = 0.001;
-    if (Math.abs(escrowReceived - amount) > tolerance) {
+
       return res.json({ 
-        success: false, 
-        error: `Amount mismatch. Expected ${amount} SOL, received ${escrowReceived} SOL` 
+        success: true, 
+        withdrawal_id: result.id,
+        asset,
+        status: result.status === 'confirmed' ? 'confirmed' : 'processing',
+        tx_signature: result.tx_signature,
+        new_balance: balance.toString()
       });
-    }
-    
-    // Credit the user's balance
-    const updatedProfile = await prisma.profile.update({
-      where: { id: profile.id },
-      data: {
-        deposited_balance: {
-          increment: amount
-        }
-      }
-    });
-    
-    // Save to deposit history
-    await prisma.depositHistory.create({
-      data: {
-        profile_id: profile.id,
-        tx_type: 'deposit',
-        amount: amount,
-        tx_signature,
-        status: 'confirmed'
+
+    } catch (error: any) {
+      // Handle known errors from the transaction
+      if (error.message === 'PROFILE_NOT_FOUND') {
+        return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
       }
-    });
-    
-    return res.json({ 
-      success: true, 
-      new_balance: updatedProfile.deposited_balance.toString() 
-    });
-    
-  } catch (error) {
-    console.error('Error in /deposit/confirm:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
-  }
-});
 
-// POST /api/withdraw - Withdraw SOL to user's wallet (no auth - funds go TO the wallet)
-router.post('/', async (req: Request, res: Response) => {
-  try {
-    const { wallet_address, amount } = req.body;
-    
-    if (!wallet_address || amount === undefined) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'wallet_address and amount are required' 
-      });
-    }
-    
-    const withdrawAmount = Number(amount);
-    
-    if (isNaN(withdrawAmount) || withdrawAmount <= 0) {
-      return res.json({ success: false, error: 'Amount must be greater than 0' });
-    }
-    
-    // Minimum withdrawal to cover transaction fees
-    const MIN_WITHDRAWAL = 0.001;
-    if (withdrawAmount < MIN_WITHDRAWAL) {
-      return res.json({ 
-        success: false, 
-        error: `Minimum withdrawal is ${MIN_WITHDRAWAL} SOL` 
-      });
-    }
-    
-    // Use a transaction with row locking to prevent race conditions
-    const result = await prisma.$transaction(async (tx) => {
-      // Lock the profile row for update (prevents concurrent withdrawals)
-      const profiles = await tx.$queryRaw<Array<{
-        id: string;
-        deposited_balance: Decimal;
-      }>>`
-        SELECT id, deposited_balance 
-        FROM profile 
-        WHERE wallet_address = ${wallet_address} 
-        FOR UPDATE
-      `;
-      
-      if (profiles.length === 0) {
-        throw new Error('PROFILE_NOT_FOUND');
+      if (error.message?.startsWith('INSUFFICIENT_BALANCE:')) {
+        const balance = error.message.split(':')[1];
+        return sendError(res, 'INSUFFICIENT_BALANCE', `Insufficient balance. You have ${balance} ${symbol}`);
       }
-      
-      const profile = profiles[0];
-      const currentBalance = Number(profile.deposited_balance);
-      
-      // Check if user has sufficient balance
-      if (currentBalance < withdrawAmount) {
-        throw new Error(`INSUFFICIENT_BALANCE:${currentBalance}`);
+
+      if (error.message?.startsWith('WITHDRAWAL_COOLDOWN:')) {
+        const seconds = Number(error.message.split(':')[1]);
+        return sendError(res, 'WITHDRAWAL_COOLDOWN', `Withdrawals open ${seconds} seconds after your last deposit`, { retry_after_seconds: seconds });
       }
-      
-      // Deduct balance BEFORE sending SOL (safer - can refund on failure)
-      const updatedProfile = await tx.profile.update({
-        where: { id: profile.id },
-        data: {
-          deposited_balance: {
-            decrement: withdrawAmount
-          }
-        }
-      });
-      
-      // Create withdrawal record as pending
-      const withdrawal = await tx.depositHistory.create({
-        data: {
-          profile_id: profile.id,
-          tx_type: 'withdrawal',
-          amount: withdrawAmount,
-          tx_signature: 'pending',
-          status: 'pending'
-        }
-      });
-      
-      return { 
-        profile: updatedProfile, 
-        withdrawal,
-        previousBalance: currentBalance 
-      };
-    });
-    
-    // Now send the SOL outside of the transaction
-    // If this fails, we need to refund the balance
-    let tx_signature: string;
-    try {
-      tx_signature = await transferFromEscrow(wallet_address, withdrawAmount);
-      
-      // Update withdrawal record with successful transaction
-      await prisma.depositHistory.update({
-        where: { id: result.withdrawal.id },
-        data: {
-          tx_signature,
-          status: 'confirmed'
-        }
-      });
-      
-      console.log(`[Withdraw] Sent ${withdrawAmount} SOL to ${wallet_address}, tx: ${tx_signature}`);
-      
-      return res.json({ 
-        success: true, 
-        tx_signature,
-        new_balance: result.profile.deposited_balance.toString()
-      });
-      
-    } catch (txError) {
-      // SOL transfer failed - refund the deducted balance
-      console.error('[Withdraw] Transfer failed, refunding balance:', txError);
-      
-      try {
-        await prisma.profile.update({
-          where: { id: result.profile.id },
-          data: {
-            deposited_balance: {
-              increment: withdrawAmount
-            }
-          }
-        });
-        
-        // Mark withdrawal as failed
-        await prisma.depositHistory.update({
-          where: { id: result.withdrawal.id },
-          data: { status: 'failed' }
-        });
-        
-        console.log(`[Withdraw] Refunded ${withdrawAmount} SOL to ${wallet_address} database balance`);
-        
-      } catch (refundError) {
-        // Critical: Failed to refund - log for manual intervention
-        console.error('[Withdraw] CRITICAL: Failed to refund balance after failed transfer!', {
-          wallet_address,
-          amount: withdrawAmount,
-          error: refundError
-        });
+
+      if (error.message?.startsWith('WITHDRAWAL_LIMIT:')) {
+        const [, window, remaining] = error.message.split(':');
+        return sendError(res, 'WITHDRAWAL_LIMIT_EXCEEDED', `Over the ${window} withdrawal limit. You can withdraw ${remaining} more ${symbol}`, { window, remaining: Number(remaining) });
       }
-      
-      return res.json({ 
-        success: false, 
-        error: 'Transaction failed. Your balance has been refunded.' 
-      });
-    }
-    
-  } catch (error: any) {
-    // Handle known errors from the transaction
-    if (error.message === 'PROFILE_NOT_FOUND') {
-      return res.json({ success: false, error: 'Profile not found' });
-    }
-    
-    if (error.message?.startsWith('INSUFFICIENT_BALANCE:')) {
-      const balance = error.message.split(':')[1];
-      return res.json({ 
-        success: false, 
-        error: `Insufficient balance. You have ${balance} SOL` 
-      });
+
+      console.error('Error in /withdraw:', error);
+      return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
     }
-    
-    console.error('Error in /withdraw:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
-  }
-});
+  });
+
+  return router;
+}
 
-export default router;
+export default createDepositRouter();
@@ -1,6 +1,16 @@
 import { Router, Request, Response } from 'express';
 import prisma from '../lib/prisma';
-import { Pool, getPrice, getPriceMultiplier, INITIAL_TOKEN_SUPPLY, VIRTUAL_SOL } from '../lib/poolEngine';
+import { 
+  Pool, 
+  getPrice, 
+  getPriceMultiplier, 
+  calculatePositionPnl,
+  calculateUnrealizedPnl,
+  INITIAL_TOKEN_SUPPLY, 
+  VIRTUAL_SOL 
+} from '../lib/poolEngine';
+import { toLamports, toSol } from '../lib/lamports';
+import { ASSETS, getBalance } from '../lib/assets';
 import { 
   getActiveRound, 
   createRound, 
@@ -9,13 +19,15 @@ import {
   getRoundTimeRemaining,
   isRoundExpired
 } from '../services/roundService';
+import { getRoundConfig } from '../services/roundConfigService';
+import { checkRoundSolvency, formatSolvencyReport } from '../services/solvencyService';
 import { 
   executeBuy, 
   executeSell, 
   executeSellAll,
   previewBuy,
   previewSell,
-  MIN_TRADE 
+  TradeResult
 } from '../services/tradeService';
 import { 
   broadcastPriceUpdate, 
@@ -24,14 +36,60 @@ import {
   getCurrentRound
 } from '../services/roundManager';
 import { sendPositionUpdate, sendBalanceUpdate } from '../websocket/broadcast';
+import { defineRoute } from './define';
+import { sendError } from '../lib/errors';
+import {
+  tradeRequest,
+  sellAllRequest,
+  previewQuery,
+  walletParams,
+  roundParams,
+  tradesQuery,
+  roomQuery,
+  roundResponse,
+  positionResponse,
+  pnlResponse,
+  tradeResponse,
+  sellAllResponse,
+  previewResponse,
+  leaderboardResponse,
+  solvencyResponse,
+  tradesResponse,
+  TradeRequest,
+  SellAllRequest,
+  PreviewQuery,
+  TradesQuery,
+  RoomQuery
+} from '../schemas';
 
 const router = Router();
 
+/**
+ * Send a rejected trade in the error envelope (slippage details included)
+ */
+function sendTradeError(res: Response, result: TradeResult) {
+  return sendError(
+    res,
+    result.code || 'INTERNAL_ERROR',
+    result.error || 'Trade failed',
+    result.slippage ? { slippage: result.slippage } : undefined
+  );
+}
+
 // GET /api/game/round - Get active round or create new one
-router.get('/round', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/round',
+  operationId: 'getRound',
+  summary: 'Active round of a room (created if needed) or the countdown to the next one',
+  query: roomQuery,
+  response: roundResponse
+}, async (req: Request, res: Response) => {
   try {
+    const { asset } = req.query as unknown as RoomQuery;
+
     // Check if we're in countdown
-    const countdown = getCountdownStatus();
+    const countdown = getCountdownStatus(asset);
     if (countdown.inCountdown) {
       return res.json({
         status: 'countdown',
@@ -41,24 +99,33 @@ router.get('/round', async (req: Request, res: Response) => {
     }
 
     // Get or create active round
-    let activeRound = await getActiveRound();
+    let activeRound = await getActiveRound(asset);
     
     if (!activeRound) {
-      activeRound = await createRound();
+      activeRound = await createRound(undefined, asset);
     }
     
     return res.json(formatRoundResponse(activeRound));
     
   } catch (error) {
     console.error('Error in /game/round:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // GET /api/game/position/:wallet_address - Get player position in current round
-router.get('/position/:wallet_address', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/position/:wallet_address',
+  operationId: 'getPosition',
+  summary: 'Player position in the current round of a room',
+  params: walletParams,
+  query: roomQuery,
+  response: positionResponse
+}, async (req: Request, res: Response) => {
   try {
     const { wallet_address } = req.params;
+    const { asset } = req.query as unknown as RoomQuery;
     
     // Get profile
     const profile = await prisma.profile.findUnique({
@@ -70,7 +137,7 @@ router.get('/position/:wallet_address', async (req: Request, res: Response) => {
     }
     
     // Get active round
-    const activeRound = await getActiveRound();
+    const activeRound = await getActiveRound(asset);
     if (!activeRound) {
       return res.json({ position: null });
     }
@@ -81,50 +148,52 @@ router.get('/position/:wallet_address', async (req: Request, res: Response) => {
       return res.json({ position: null });
     }
     
-    // Calculate current value
+    // Calculate current value (lamport math, SOL in the response)
     const currentPrice = Number(activeRound.current_price);
-    const tokenBalance = Number(position.token_balance);
-    const currentValue = tokenBalance * currentPrice;
-    const totalIn = Number(position.total_sol_in);
-    const totalOut = Number(position.total_sol_out);
-    const pnl = currentValue + totalOut - totalIn;
-    const pnlPercent = totalIn > 0 ? (pnl / totalIn) * 100 : 0;
+    const tokenBalance = toLamports(position.token_balance);
+    const totalIn = toLamports(position.total_sol_in);
+    const totalOut = toLamports(position.total_sol_out);
+    const { currentValue, pnl, pnlPercent } = calculatePositionPnl(tokenBalance, totalIn, totalOut, currentPrice);
     
     // Calculate unrealized PnL based on entry price
     const entryPrice = position.entry_price ? Number(position.entry_price) : null;
-    let unrealizedPnl = 0;
-    let unrealizedPnlPercent = 0;
-    if (entryPrice && tokenBalance > 0) {
-      unrealizedPnl = (currentPrice - entryPrice) * tokenBalance;
-      unrealizedPnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
-    }
+    const { unrealizedPnl, unrealizedPnlPercent } = calculateUnrealizedPnl(tokenBalance, entryPrice, currentPrice);
     
     return res.json({
       position: {
         round_id: position.round_id,
-        token_balance: tokenBalance,
-        total_sol_in: totalIn,
-        total_sol_out: totalOut,
-        current_value: currentValue,
+        token_balance: toSol(tokenBalance),
+        total_sol_in: toSol(totalIn),
+        total_sol_out: toSol(totalOut),
+        current_value: toSol(currentValue),
         entry_price: entryPrice,
         current_price: currentPrice,
-        pnl: pnl,
+        pnl: toSol(pnl),
         pnl_percent: pnlPercent,
-        unrealized_pnl: unrealizedPnl,
+        unrealized_pnl: toSol(unrealizedPnl),
         unrealized_pnl_percent: unrealizedPnlPercent
       }
     });
     
   } catch (error) {
     console.error('Error in /game/position:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // GET /api/game/pnl/:wallet_address - Get current PnL snapshot for a player
-router.get('/pnl/:wallet_address', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/pnl/:wallet_address',
+  operationId: 'getPnl',
+  summary: 'Current PnL snapshot for a player in a room',
+  params: walletParams,
+  query: roomQuery,
+  response: pnlResponse
+}, async (req: Request, res: Response) => {
   try {
     const { wallet_address } = req.params;
+    const { asset } = req.query as unknown as RoomQuery;
     
     // Get profile
     const profile = await prisma.profile.findUnique({
@@ -132,15 +201,11 @@ router.get('/pnl/:wallet_address', async (req: Request, res: Response) => {
     });
     
     if (!profile) {
-      return res.json({ 
-        success: false, 
-        error: 'Profile not found',
-        pnl: null 
-      });
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
     }
     
     // Get active round
-    const activeRound = await getActiveRound();
+    const activeRound = await getActiveRound(asset);
     if (!activeRound) {
       return res.json({ 
         success: true,
@@ -160,25 +225,20 @@ router.get('/pnl/:wallet_address', async (req: Request, res: Response) => {
     }
     
     const currentPrice = Number(activeRound.current_price);
-    const tokenBalance = Number(position.token_balance);
-    const totalIn = Number(position.total_sol_in);
-    const totalOut = Number(position.total_sol_out);
+    const tokenBalance = toLamports(position.token_balance);
+    const totalIn = toLamports(position.total_sol_in);
+    const totalOut = toLamports(position.total_sol_out);
     const entryPrice = position.entry_price ? Number(position.entry_price) : null;
     
-    // Current value of tokens held
-    const currentValue = tokenBalance * currentPrice;
-    
     // Total PnL = current value + SOL received from sells - SOL spent on buys
-    const totalPnl = currentValue + totalOut - totalIn;
-    const totalPnlPercent = totalIn > 0 ? (totalPnl / totalIn) * 100 : 0;
+    const { 
+      currentValue, 
+      pnl: totalPnl, 
+      pnlPercent: totalPnlPercent 
+    } = calculatePositionPnl(tokenBalance, totalIn, totalOut, currentPrice);
     
     // Unrealized PnL based on entry price (for open position only)
-    let unrealizedPnl = 0;
-    let unrealizedPnlPercent = 0;
-    if (entryPrice && tokenBalance > 0) {
-      unrealizedPnl = (currentPrice - entryPrice) * tokenBalance;
-      unrealizedPnlPercent = ((currentPrice - entryPrice) / entryPrice) * 100;
-    }
+    const { unrealizedPnl, unrealizedPnlPercent } = calculateUnrealizedPnl(tokenBalance, entryPrice, currentPrice);
     
     return res.json({
       success: true,
@@ -187,19 +247,19 @@ router.get('/pnl/:wallet_address', async (req: Request, res: Response) => {
         wallet_address: wallet_address,
         
         // Position info
-        token_balance: tokenBalance,
+        token_balance: toSol(tokenBalance),
         entry_price: entryPrice,
         current_price: currentPrice,
         
         // Value tracking
-        total_sol_in: totalIn,
-        total_sol_out: totalOut,
-        current_value: currentValue,
+        total_sol_in: toSol(totalIn),
+        total_sol_out: toSol(totalOut),
+        current_value: toSol(currentValue),
         
         // PnL calculations
-        total_pnl: totalPnl,
+        total_pnl: toSol(totalPnl),
         total_pnl_percent: totalPnlPercent,
-        unrealized_pnl: unrealizedPnl,
+        unrealized_pnl: toSol(unrealizedPnl),
         unrealized_pnl_percent: unrealizedPnlPercent,
         
         // Timestamps
@@ -209,29 +269,28 @@ router.get('/pnl/:wallet_address', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Error in /game/pnl:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
-// POST /api/game/trade - Execute a trade (no auth - uses wallet_address)
-router.post('/trade', async (req: Request, res: Response) => {
+// POST /api/game/trade - Execute a trade (auth required)
+defineRoute(router, {
+  method: 'post',
+  path: '/trade',
+  operationId: 'trade',
+  summary: 'Buy or sell in the current round',
+  auth: true,
+  idempotent: 'trade',
+  body: tradeRequest,
+  response: tradeResponse
+}, async (req: Request, res: Response) => {
   try {
-    const { wallet_address, trade_type, sol_amount } = req.body;
-    
-    if (!wallet_address || !trade_type || sol_amount === undefined) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'wallet_address, trade_type and sol_amount are required' 
-      });
-    }
+    // Wallet comes from the verified token, never the body
+    const wallet_address = req.walletAddress!;
+    const { trade_type, sol_amount, max_entry_multiplier, min_sol_out, asset } = req.body as TradeRequest;
     
-    if (trade_type !== 'buy' && trade_type !== 'sell') {
-      return res.json({ success: false, error: 'trade_type must be "buy" or "sell"' });
-    }
-    
-    if (sol_amount < MIN_TRADE) {
-      return res.json({ success: false, error: `Minimum trade is ${MIN_TRADE} SOL` });
-    }
+    // Optional slippage limits
+    const limits = { maxEntryMultiplier: max_entry_multiplier, minSolOut: min_sol_out };
     
     // Use upsert to avoid race conditions
     const profile = await prisma.profile.upsert({
@@ -246,77 +305,79 @@ router.post('/trade', async (req: Request, res: Response) => {
       }
     });
     
-    // Check balance for buys (must have deposited SOL)
-    if (trade_type === 'buy' && Number(profile.deposited_balance) < sol_amount) {
-      return res.json({ 
-        success: false, 
-        error: `Insufficient balance. You have ${profile.deposited_balance} SOL. Please deposit first.` 
-      });
+    // Check balance for buys (must have deposited the room's asset)
+    const balance = getBalance(profile, asset);
+    if (trade_type === 'buy' && toLamports(balance) < toLamports(sol_amount)) {
+      return sendError(
+        res,
+        'INSUFFICIENT_BALANCE',
+        `Insufficient balance. You have ${balance} ${ASSETS[asset].symbol}. Please deposit first.`
+      );
     }
     
     // Get active round
-    const activeRound = await getActiveRound();
+    const activeRound = await getActiveRound(asset);
     if (!activeRound) {
-      return res.json({ success: false, error: 'No active round' });
+      return sendError(res, 'NO_ACTIVE_ROUND', 'No active round');
     }
     
     // Check if round is expired
     if (isRoundExpired(activeRound)) {
-      return res.json({ success: false, error: 'Round has ended' });
+      return sendError(res, 'ROUND_ENDED', 'Round has ended');
     }
     
     // Execute trade
     let result;
     if (trade_type === 'buy') {
-      result = await executeBuy(profile.id, activeRound.id, sol_amount);
+      result = await executeBuy(profile.id, activeRound.id, sol_amount, limits);
     } else {
-      result = await executeSell(profile.id, activeRound.id, sol_amount);
+      result = await executeSell(profile.id, activeRound.id, sol_amount, limits);
     }
     
     if (!result.success) {
-      return res.json(result);
+      return sendTradeError(res, result);
     }
     
     // Broadcast updates
     if (result.newPrice !== undefined && result.priceMultiplier !== undefined) {
-      // Get updated round for accurate pool values
-      const updatedRound = await prisma.gameRound.findUnique({
-        where: { id: activeRound.id }
-      });
+      // Pool values as this trade left them (later trades may already have moved the pool)
+      broadcastPriceUpdate(
+        asset,
+        activeRound.id,
+        result.newPrice,
+        result.priceMultiplier,
+        result.poolSolBalance || 0,
+        result.poolTokenSupply || 0
+      );
       
-      if (updatedRound) {
-        broadcastPriceUpdate(
-          activeRound.id,
-          result.newPrice,
-          result.priceMultiplier,
-          Number(updatedRound.pool_sol_balance),
-          Number(updatedRound.pool_token_supply)
-        );
-        
-        broadcastTrade(
-          activeRound.id,
-          trade_type,
-          profile.username,
-          wallet_address,
-          sol_amount,
-          result.tokensTraded || 0,
-          result.newPrice
-        );
-      }
+      broadcastTrade(
+        asset,
+        activeRound.id,
+        trade_type,
+        profile.username,
+        wallet_address,
+        sol_amount,
+        result.tokensTraded || 0,
+        result.newPrice,
+        result.sequence
+      );
       
       // Send targeted updates to the user
       if (result.position) {
-        const currentValue = result.position.token_balance * (result.newPrice || 0);
-        const pnl = currentValue + result.position.total_sol_out - result.position.total_sol_in;
-        const pnlPercent = result.position.total_sol_in > 0 ? (pnl / result.position.total_sol_in) * 100 : 0;
+        const { currentValue, pnl, pnlPercent } = calculatePositionPnl(
+          toLamports(result.position.token_balance),
+          toLamports(result.position.total_sol_in),
+          toLamports(result.position.total_sol_out),
+          result.newPrice || 0
+        );
         
         sendPositionUpdate(wallet_address, {
           round_id: activeRound.id,
           token_balance: result.position.token_balance,
           total_sol_in: result.position.total_sol_in,
           total_sol_out: result.position.total_sol_out,
-          current_value: currentValue,
-          pnl: pnl,
+          current_value: toSol(currentValue),
+          pnl: toSol(pnl),
           pnl_percent: pnlPercent
         });
       }
@@ -324,6 +385,7 @@ router.post('/trade', async (req: Request, res: Response) => {
       if (result.newBalance !== undefined) {
         const change = trade_type === 'buy' ? -sol_amount : (result.solAmount || 0);
         sendBalanceUpdate(wallet_address, {
+          asset,
           deposited_balance: result.newBalance,
           change: change,
           reason: trade_type === 'buy' ? 'Token purchase' : 'Token sale'
@@ -340,23 +402,30 @@ router.post('/trade', async (req: Request, res: Response) => {
       price_multiplier: result.priceMultiplier,
       fee_amount: result.feeAmount,
       new_balance: result.newBalance,
+      sequence: result.sequence,
       position: result.position
     });
     
   } catch (error) {
     console.error('Error in /game/trade:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
-// POST /api/game/sell-all - Sell all tokens (no auth - uses wallet_address)
-router.post('/sell-all', async (req: Request, res: Response) => {
+// POST /api/game/sell-all - Sell all tokens (auth required)
+defineRoute(router, {
+  method: 'post',
+  path: '/sell-all',
+  operationId: 'sellAll',
+  summary: 'Sell all tokens in the current round',
+  auth: true,
+  idempotent: 'sell_all',
+  body: sellAllRequest,
+  response: sellAllResponse
+}, async (req: Request, res: Response) => {
   try {
-    const { wallet_address } = req.body;
-    
-    if (!wallet_address) {
-      return res.status(400).json({ success: false, error: 'wallet_address is required' });
-    }
+    const wallet_address = req.walletAddress!;
+    const { min_sol_out, asset } = req.body as SellAllRequest;
     
     // Get profile
     const profile = await prisma.profile.findUnique({
@@ -364,56 +433,54 @@ router.post('/sell-all', async (req: Request, res: Response) => {
     });
     
     if (!profile) {
-      return res.json({ success: false, error: 'Profile not found' });
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
     }
     
     // Get active round
-    const activeRound = await getActiveRound();
+    const activeRound = await getActiveRound(asset);
     if (!activeRound) {
-      return res.json({ success: false, error: 'No active round' });
+      return sendError(res, 'NO_ACTIVE_ROUND', 'No active round');
     }
     
     // Check if round is expired
     if (isRoundExpired(activeRound)) {
-      return res.json({ success: false, error: 'Round has ended' });
+      return sendError(res, 'ROUND_ENDED', 'Round has ended');
     }
     
     // Execute sell all
-    const result = await executeSellAll(profile.id, activeRound.id);
+    const result = await executeSellAll(profile.id, activeRound.id, { minSolOut: min_sol_out });
     
     if (!result.success) {
-      return res.json(result);
+      return sendTradeError(res, result);
     }
     
     // Broadcast updates
     if (result.newPrice !== undefined && result.priceMultiplier !== undefined) {
-      const updatedRound = await prisma.gameRound.findUnique({
-        where: { id: activeRound.id }
-      });
+      broadcastPriceUpdate(
+        asset,
+        activeRound.id,
+        result.newPrice,
+        result.priceMultiplier,
+        result.poolSolBalance || 0,
+        result.poolTokenSupply || 0
+      );
       
-      if (updatedRound) {
-        broadcastPriceUpdate(
-          activeRound.id,
-          result.newPrice,
-          result.priceMultiplier,
-          Number(updatedRound.pool_sol_balance),
-          Number(updatedRound.pool_token_supply)
-        );
-        
-        broadcastTrade(
-          activeRound.id,
-          'sell',
-          profile.username,
-          wallet_address,
-          result.solAmount || 0,
-          result.tokensTraded || 0,
-          result.newPrice
-        );
-      }
+      broadcastTrade(
+        asset,
+        activeRound.id,
+        'sell',
+        profile.username,
+        wallet_address,
+        result.solAmount || 0,
+        result.tokensTraded || 0,
+        result.newPrice,
+        result.sequence
+      );
       
       // Send targeted balance update
       if (result.newBalance !== undefined) {
         sendBalanceUpdate(wallet_address, {
+          asset,
           deposited_balance: result.newBalance,
           change: result.solAmount || 0,
           reason: 'Sold all tokens'
@@ -428,42 +495,43 @@ router.post('/sell-all', async (req: Request, res: Response) => {
       new_price: result.newPrice,
       price_multiplier: result.priceMultiplier,
       fee_amount: result.feeAmount,
-      new_balance: result.newBalance
+      new_balance: result.newBalance,
+      sequence: result.sequence
     });
     
   } catch (error) {
     console.error('Error in /game/sell-all:', error);
-    return res.status(500).json({ success: false, error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // GET /api/game/preview - Preview a trade
-router.get('/preview', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/preview',
+  operationId: 'previewTrade',
+  summary: 'Preview a trade without executing it',
+  query: previewQuery,
+  response: previewResponse
+}, async (req: Request, res: Response) => {
   try {
-    const { trade_type, sol_amount } = req.query;
-    
-    if (!trade_type || !sol_amount) {
-      return res.status(400).json({ error: 'trade_type and sol_amount are required' });
-    }
-    
-    const amount = parseFloat(sol_amount as string);
-    if (isNaN(amount) || amount <= 0) {
-      return res.json({ error: 'Invalid sol_amount' });
-    }
+    const { trade_type, sol_amount: amount, wallet_address, asset } = req.query as unknown as PreviewQuery;
     
     // Get active round
-    const activeRound = await getActiveRound();
+    const activeRound = await getActiveRound(asset);
     if (!activeRound) {
-      return res.json({ error: 'No active round' });
+      return sendError(res, 'NO_ACTIVE_ROUND', 'No active round');
     }
     
     const pool: Pool = {
-      sol_balance: Number(activeRound.pool_sol_balance),
+      sol_balance: toLamports(activeRound.pool_sol_balance),
       token_supply: Number(activeRound.pool_token_supply)
     };
+    const config = getRoundConfig(activeRound);
+    const curve = config.pricing_curve;
     
     if (trade_type === 'buy') {
-      const preview = previewBuy(pool, amount);
+      const preview = previewBuy(pool, amount, config);
       return res.json({
         trade_type: 'buy',
         sol_in: amount,
@@ -471,14 +539,28 @@ router.get('/preview', async (req: Request, res: Response) => {
         new_price: preview.newPrice,
         price_multiplier: preview.priceMultiplier,
         price_impact: preview.priceImpact,
-        fee_amount: preview.feeAmount
+        fee_amount: preview.feeAmount,
+        entry_multiplier: preview.entryMultiplier,
+        max_entry_multiplier: preview.maxEntryMultiplier,
+        pricing_curve: curve.type
       });
-    } else if (trade_type === 'sell') {
+    } else {
       // For sell preview, sol_amount represents tokens to sell
-      // Use current multiplier as entry (break-even assumption for preview)
+      // Use the player's entry if wallet_address is given, else current multiplier (break-even)
       const tokensToSell = amount;
-      const currentMultiplier = getPrice(pool);
-      const preview = previewSell(pool, tokensToSell, currentMultiplier);
+      let entryMultiplier = getPrice(pool, curve);
+      let usesPlayerEntry = false;
+      if (wallet_address) {
+        const profile = await prisma.profile.findUnique({
+          where: { wallet_address }
+        });
+        const position = profile ? await getPosition(activeRound.id, profile.id) : null;
+        if (position?.entry_price) {
+          entryMultiplier = Number(position.entry_price);
+          usesPlayerEntry = true;
+        }
+      }
+      const preview = previewSell(pool, tokensToSell, entryMultiplier, config);
       return res.json({
         trade_type: 'sell',
         tokens_in: tokensToSell,
@@ -487,22 +569,31 @@ router.get('/preview', async (req: Request, res: Response) => {
         price_multiplier: preview.priceMultiplier,
         price_impact: preview.priceImpact,
         fee_amount: preview.feeAmount,
-        note: 'Actual payout depends on your entry price'
+        min_sol_out: preview.minSolOut,
+        entry_multiplier: entryMultiplier,
+        pricing_curve: curve.type,
+        note: usesPlayerEntry ? undefined : 'Actual payout depends on your entry price'
       });
-    } else {
-      return res.json({ error: 'trade_type must be "buy" or "sell"' });
     }
     
   } catch (error) {
     console.error('Error in /game/preview:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // GET /api/game/leaderboard - Get leaderboard for current round
-router.get('/leaderboard', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/leaderboard',
+  operationId: 'getLeaderboard',
+  summary: 'Leaderboard for the current round of a room',
+  query: roomQuery,
+  response: leaderboardResponse
+}, async (req: Request, res: Response) => {
   try {
-    const activeRound = await getActiveRound();
+    const { asset } = req.query as unknown as RoomQuery;
+    const activeRound = await getActiveRound(asset);
     if (!activeRound) {
       return res.json({ leaderboard: [] });
     }
@@ -512,21 +603,19 @@ router.get('/leaderboard', async (req: Request, res: Response) => {
     // Calculate PnL for each position
     const leaderboard = activeRound.positions
       .map(p => {
-        const tokenBalance = Number(p.token_balance);
-        const totalIn = Number(p.total_sol_in);
-        const totalOut = Number(p.total_sol_out);
-        const currentValue = tokenBalance * currentPrice;
-        const pnl = currentValue + totalOut - totalIn;
-        const pnlPercent = totalIn > 0 ? (pnl / totalIn) * 100 : 0;
+        const tokenBalance = toLamports(p.token_balance);
+        const totalIn = toLamports(p.total_sol_in);
+        const totalOut = toLamports(p.total_sol_out);
+        const { currentValue, pnl, pnlPercent } = calculatePositionPnl(tokenBalance, totalIn, totalOut, currentPrice);
         
         return {
           username: p.profile.username || `${p.profile.wallet_address.slice(0, 4)}...${p.profile.wallet_address.slice(-4)}`,
           wallet_address: p.profile.wallet_address,
-          token_balance: tokenBalance,
-          total_sol_in: totalIn,
-          total_sol_out: totalOut,
-          current_value: currentValue,
-          pnl: pnl,
+          token_balance: toSol(tokenBalance),
+          total_sol_in: toSol(totalIn),
+          total_sol_out: toSol(totalOut),
+          current_value: toSol(currentValue),
+          pnl: toSol(pnl),
           pnl_percent: pnlPercent
         };
       })
@@ -537,19 +626,57 @@ router.get('/leaderboard', async (req: Request, res: Response) => {
     
   } catch (error) {
     console.error('Error in /game/leaderboard:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// GET /api/game/solvency - Check the active round's pool covers all open claims
+defineRoute(router, {
+  method: 'get',
+  path: '/solvency',
+  operationId: 'getSolvency',
+  summary: 'Check the active round\'s pool covers all open claims',
+  query: roomQuery,
+  response: solvencyResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { asset } = req.query as unknown as RoomQuery;
+    const activeRound = await getActiveRound(asset);
+    if (!activeRound) {
+      return res.json({ solvency: null, message: 'No active round' });
+    }
+    
+    const report = await checkRoundSolvency(activeRound.id);
+    
+    return res.json({
+      solvency: formatSolvencyReport(report),
+      trading_halted: activeRound.trading_halted,
+      halt_reason: activeRound.halt_reason
+    });
+    
+  } catch (error) {
+    console.error('Error in /game/solvency:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
 // GET /api/game/trades/:round_id - Get recent trades for a round
-router.get('/trades/:round_id', async (req: Request, res: Response) => {
+defineRoute(router, {
+  method: 'get',
+  path: '/trades/:round_id',
+  operationId: 'getRoundTrades',
+  summary: 'Recent trades for a round',
+  params: roundParams,
+  query: tradesQuery,
+  response: tradesResponse
+}, async (req: Request, res: Response) => {
   try {
     const { round_id } = req.params;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const { limit } = req.query as unknown as TradesQuery;
     
     const trades = await prisma.trade.findMany({
       where: { round_id },
-      orderBy: { created_at: 'desc' },
+      orderBy: [{ sequence: 'desc' }, { created_at: 'desc' }],
       take: limit,
       include: {
         profile: {
@@ -568,13 +695,14 @@ router.get('/trades/:round_id', async (req: Request, res: Response) => {
         token_amount: Number(t.token_amount),
         price_at_trade: Number(t.price_at_trade),
         fee_amount: Number(t.fee_amount),
+        sequence: t.sequence,
         created_at: t.created_at
       }))
     });
     
   } catch (error) {
     console.error('Error in /game/trades:', error);
-    return res.status(500).json({ error: 'Internal server error' });
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
   }
 });
 
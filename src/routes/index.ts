@@ -1,5 +1,47 @@
+import { Router } from 'express';
+import authRoutes from './auth';
+import depositRoutes from './deposit';
+import gameRoutes from './game';
+import chatRoutes from './chat';
+import orderRoutes from './orders';
+import ledgerRoutes from './ledger';
+import adminRoutes from './admin';
+import { getRouteSpecs, RouteSpec } from './define';
+
 // Route exports
 export { default as authRoutes } from './auth';
-export { default as depositRoutes } from './deposit';
+export { default as depositRoutes, createDepositRouter } from './deposit';
 export { default as gameRoutes } from './game';
 export { default as chatRoutes } from './chat';
+export { default as orderRoutes } from './orders';
+export { default as ledgerRoutes } from './ledger';
+export { default as adminRoutes } from './admin';
+
+export interface ApiMount {
+  path: string;
+  router: Router;
+  tag: string;     // OpenAPI tag / key in the /api index
+}
+
+// Where each router is mounted (the deposit router also serves /api/withdraw)
+export const API_ROUTES: ApiMount[] = [
+  { path: '/api/auth', router: authRoutes, tag: 'auth' },
+  { path: '/api/deposit', router: depositRoutes, tag: 'deposit' },
+  { path: '/api/withdraw', router: depositRoutes, tag: 'withdraw' },
+  { path: '/api/game', router: gameRoutes, tag: 'game' },
+  { path: '/api/orders', router: orderRoutes, tag: 'orders' },
+  { path: '/api/chat', router: chatRoutes, tag: 'chat' },
+  { path: '/api/ledger', router: ledgerRoutes, tag: 'ledger' },
+  { path: '/api/admin', router: adminRoutes, tag: 'admin' }
+];
+
+/**
+ * Endpoints served under each mount
+ */
+export function getApiRoutes(): { path: string; tag: string; routes: RouteSpec[] }[] {
+  return API_ROUTES.map(({ path, tag, router }) => ({
+    path,
+    tag,
+    routes: getRouteSpecs(router).filter(spec => !spec.mountPath || spec.mountPath === path)
+  }));
+}
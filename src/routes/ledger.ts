@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import { defineRoute } from './define';
+import { sendError } from '../lib/errors';
+import { toLamports, toSol } from '../lib/lamports';
+import { getBalance } from '../lib/assets';
+import { rebuildUserBalance } from '../services/ledgerService';
+import { walletParams, ledgerQuery, ledgerBalanceResponse, LedgerQuery } from '../schemas';
+
+const router = Router();
+
+// GET /api/ledger/:wallet_address/balance - Rebuild a user's balance from the ledger
+defineRoute(router, {
+  method: 'get',
+  path: '/:wallet_address/balance',
+  operationId: 'getLedgerBalance',
+  summary: 'Rebuild a player\'s balance from ledger entries and compare it with the stored balance',
+  params: walletParams,
+  query: ledgerQuery,
+  response: ledgerBalanceResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { wallet_address } = req.params;
+    const { asset } = req.query as unknown as LedgerQuery;
+
+    const profile = await prisma.profile.findUnique({
+      where: { wallet_address }
+    });
+
+    if (!profile) {
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
+    }
+
+    const rebuilt = await rebuildUserBalance(profile.id, asset);
+    const storedBalance = toLamports(getBalance(profile, asset));
+    // Wager / win totals on the profile are kept in SOL only
+    const solStats = asset === 'sol';
+
+    return res.json({
+      wallet_address,
+      asset,
+      balance: toSol(rebuilt.balance),
+      stored_balance: toSol(storedBalance),
+      drift: toSol(storedBalance - rebuilt.balance),
+      in_sync: storedBalance === rebuilt.balance,
+      total_wagered: toSol(rebuilt.totalWagered),
+      stored_total_wagered: solStats ? toSol(toLamports(profile.total_wagered)) : null,
+      total_won: toSol(rebuilt.totalWon),
+      stored_total_won: solStats ? toSol(toLamports(profile.total_won)) : null,
+      entry_count: rebuilt.entryCount,
+      by_kind: Object.fromEntries(
+        Object.entries(rebuilt.byKind).map(([kind, amount]) => [kind, toSol(amount)])
+      )
+    });
+
+  } catch (error) {
+    console.error('Error in /ledger/:wallet_address/balance:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+export default router;
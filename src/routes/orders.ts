@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../lib/prisma';
+import {
+  placeOrder,
+  listOrders,
+  cancelOrder,
+  formatOrder
+} from '../services/orderService';
+import { sendOrderUpdate } from '../websocket/broadcast';
+import { defineRoute } from './define';
+import { sendError } from '../lib/errors';
+import {
+  placeOrderRequest,
+  ordersQuery,
+  walletParams,
+  orderParams,
+  orderResponse,
+  ordersResponse,
+  PlaceOrderRequest,
+  OrdersQuery
+} from '../schemas';
+
+const router = Router();
+
+// POST /api/orders - Place a take-profit or stop-loss order on the current position (auth required)
+defineRoute(router, {
+  method: 'post',
+  path: '/',
+  operationId: 'placeOrder',
+  summary: 'Place a take-profit or stop-loss order on the current position',
+  auth: true,
+  body: placeOrderRequest,
+  response: orderResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const wallet_address = req.walletAddress!;
+    const { order_type, trigger_multiplier, sell_percent, asset } = req.body as PlaceOrderRequest;
+
+    const profile = await prisma.profile.findUnique({
+      where: { wallet_address }
+    });
+
+    if (!profile) {
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
+    }
+
+    const result = await placeOrder(profile.id, { order_type, trigger_multiplier, sell_percent, asset });
+
+    if (!result.success || !result.order) {
+      return sendError(res, result.code || 'INTERNAL_ERROR', result.error || 'Order failed');
+    }
+
+    const order = formatOrder(result.order);
+    sendOrderUpdate(wallet_address, order);
+
+    return res.json({ success: true, order });
+
+  } catch (error) {
+    console.error('Error in POST /orders:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// GET /api/orders/:wallet_address - List a player's orders (?round_id=&status=, auth required - own orders only)
+defineRoute(router, {
+  method: 'get',
+  path: '/:wallet_address',
+  operationId: 'listOrders',
+  summary: 'List a player\'s orders',
+  auth: true,
+  params: walletParams,
+  query: ordersQuery,
+  response: ordersResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { wallet_address } = req.params;
+    const { round_id, status } = req.query as unknown as OrdersQuery;
+
+    if (wallet_address !== req.walletAddress) {
+      return sendError(res, 'WALLET_MISMATCH', 'You can only list your own orders');
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { wallet_address }
+    });
+
+    if (!profile) {
+      return res.json({ orders: [] });
+    }
+
+    const orders = await listOrders(profile.id, {
+      roundId: round_id,
+      status
+    });
+
+    return res.json({ orders: orders.map(formatOrder) });
+
+  } catch (error) {
+    console.error('Error in GET /orders:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+// POST /api/orders/:order_id/cancel - Cancel an open order (auth required)
+defineRoute(router, {
+  method: 'post',
+  path: '/:order_id/cancel',
+  operationId: 'cancelOrder',
+  summary: 'Cancel an open order',
+  auth: true,
+  params: orderParams,
+  response: orderResponse
+}, async (req: Request, res: Response) => {
+  try {
+    const { order_id } = req.params;
+    const wallet_address = req.walletAddress!;
+
+    const profile = await prisma.profile.findUnique({
+      where: { wallet_address }
+    });
+
+    if (!profile) {
+      return sendError(res, 'PROFILE_NOT_FOUND', 'Profile not found');
+    }
+
+    const result = await cancelOrder(profile.id, order_id);
+
+    if (!result.success || !result.order) {
+      return sendError(res, result.code || 'INTERNAL_ERROR', result.error || 'Order failed');
+    }
+
+    const order = formatOrder(result.order);
+    sendOrderUpdate(wallet_address, order);
+
+    return res.json({ success: true, order });
+
+  } catch (error) {
+    console.error('Error in POST /orders/:order_id/cancel:', error);
+    return sendError(res, 'INTERNAL_ERROR', 'Internal server error');
+  }
+});
+
+export default router;
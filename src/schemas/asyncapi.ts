@@ -0,0 +1,93 @@
+import { JsonSchema } from '../lib/schema';
+import { CHANNELS, parseChannel } from '../websocket/server';
+import { clientMessage } from './ws';
+import { SERVER_EVENTS, CONTROL_MESSAGES, EventDoc } from './events';
+import { API_VERSION, extractComponents } from './openapi';
+
+/**
+ * AsyncAPI Document
+ *
+ * Describes the WebSocket protocol: what each channel broadcasts, what a
+ * wallet receives after identify, and the messages a client may send.
+ * Built from the same schemas the handlers validate against and the
+ * *Broadcast types are inferred from. Served at /api/asyncapi.json.
+ */
+
+const CHANNEL_DESCRIPTIONS: Record<string, string> = {
+  [CHANNELS.ROUND]: 'Round lifecycle - snapshot on subscribe, then deltas',
+  [CHANNELS.TRADES]: 'Every executed trade',
+  [CHANNELS.PRICES]: 'Price after every trade',
+  [CHANNELS.CHAT]: 'Chat messages'
+};
+
+/**
+ * AsyncAPI 2.6 document for the WebSocket server at the given URL
+ */
+export function buildAsyncApiDocument(url: string): Record<string, unknown> {
+  const schemas: Record<string, JsonSchema> = {};
+  const messages: Record<string, unknown> = {};
+
+  const addMessage = (name: string, doc: EventDoc): { $ref: string } => {
+    const payload = extractComponents(doc.schema.json, schemas, '#/components/schemas/');
+    const title = doc.schema.json.title as string;
+    messages[title] = {
+      name,
+      title,
+      summary: doc.schema.json.description,
+      payload
+    };
+    return { $ref: `#/components/messages/${title}` };
+  };
+
+  // Broadcast channels - subscribe to receive
+  const channels: Record<string, unknown> = {};
+  // Room copies (round:usdc, ...) carry the same messages as the SOL channel
+  for (const channel of Object.values(CHANNELS)) {
+    const { base, asset } = parseChannel(channel);
+    const refs = Object.entries(SERVER_EVENTS)
+      .filter(([, doc]) => doc.target === base)
+      .map(([name, doc]) => addMessage(name, doc));
+    const room = channel === base ? '' : ` - ${asset.toUpperCase()} room`;
+    channels[channel] = {
+      description: `${CHANNEL_DESCRIPTIONS[base]}${room}. Join with {"type":"subscribe","channels":["${channel}"]}.`,
+      subscribe: { message: { oneOf: refs } }
+    };
+  }
+
+  // The connection itself - client messages, replies and per-wallet events
+  const direct = [
+    ...Object.entries(SERVER_EVENTS).filter(([, doc]) => doc.target === 'wallet'),
+    ...Object.entries(CONTROL_MESSAGES)
+  ].map(([name, doc]) => addMessage(name, doc));
+
+  const clientRefs = (clientMessage.json.oneOf || []).map(variant => {
+    const title = variant.title as string;
+    messages[title] = {
+      name: variant.properties?.type?.const,
+      title,
+      payload: extractComponents(variant, schemas, '#/components/schemas/')
+    };
+    return { $ref: `#/components/messages/${title}` };
+  });
+
+  channels['/'] = {
+    description: 'The socket itself. Wallet events (POSITION_UPDATE, BALANCE_UPDATE, ...) arrive on every connection identified with that wallet.',
+    publish: { message: { oneOf: clientRefs } },
+    subscribe: { message: { oneOf: direct } }
+  };
+
+  return {
+    asyncapi: '2.6.0',
+    info: {
+      title: 'PumpIt WebSocket API',
+      version: API_VERSION,
+      description: 'Channel broadcasts carry channel and seq; send resume with the last seq after a reconnect.'
+    },
+    servers: {
+      default: { url, protocol: 'ws' }
+    },
+    defaultContentType: 'application/json',
+    channels,
+    components: { messages, schemas }
+  };
+}
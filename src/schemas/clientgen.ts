@@ -0,0 +1,203 @@
+import { JsonSchema } from '../lib/schema';
+import { renderType, renderDeclaration } from './typegen';
+
+/**
+ * API Client Generator
+ *
+ * Renders the OpenAPI document (plus the AsyncAPI message schemas) as a
+ * dependency-free TypeScript client: one method per operationId, request and
+ * response types, and the WebSocket message unions.
+ * Run `npm run generate:client` after changing a route or schema.
+ */
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  security?: Record<string, string[]>[];
+  parameters?: Parameter[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+  responses: { '200': { content: { 'application/json': { schema: JsonSchema } } } };
+}
+
+export interface OpenApiDocument {
+  info: { version: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+export interface AsyncApiDocument {
+  channels: Record<string, { publish?: MessageRefs; subscribe?: MessageRefs }>;
+  components: {
+    messages: Record<string, { payload: JsonSchema }>;
+    schemas: Record<string, JsonSchema>;
+  };
+}
+
+interface MessageRefs {
+  message: { oneOf: { $ref: string }[] };
+}
+
+// Inline object type for path or query parameters
+function renderParams(params: Parameter[]): string {
+  const fields = params.map(p => `${p.name}${p.required ? '' : '?'}: ${renderType(p.schema, true)}`);
+  return `{ ${fields.join('; ')} }`;
+}
+
+function renderMethod(method: string, path: string, op: Operation): string {
+  const pathParams = (op.parameters || []).filter(p => p.in === 'path');
+  const queryParams = (op.parameters || []).filter(p => p.in === 'query');
+  const body = op.requestBody?.content['application/json'].schema;
+  const response = renderType(op.responses['200'].content['application/json'].schema, true);
+
+  const args: string[] = [];
+  if (pathParams.length > 0) args.push(`params: ${renderParams(pathParams)}`);
+  if (queryParams.length > 0) {
+    const optionalQuery = queryParams.every(p => !p.required);
+    args.push(`query${optionalQuery ? '?' : ''}: ${renderParams(queryParams)}`);
+  }
+  if (body) args.push(`body: ${renderType(body, true)}`);
+  args.push('options?: RequestOptions');
+
+  const url = path.replace(/\{([A-Za-z0-9_]+)\}/g, (_, name: string) => `\${encodeURIComponent(params.${name})}`);
+  const init = [
+    `method: '${method.toUpperCase()}'`,
+    queryParams.length > 0 ? 'query' : '',
+    body ? 'body' : '',
+    op.security?.some(s => 'bearerAuth' in s) ? 'auth: true' : '',
+    op.security?.some(s => 'adminKey' in s) ? 'admin: true' : ''
+  ].filter(Boolean);
+
+  return [
+    `/** ${op.summary} */`,
+    `${op.operationId}: (${args.join(', ')}) =>`,
+    `  request<${response}>(\`${url}\`, { ${init.join(', ')} }, options)`
+  ].join('\n');
+}
+
+function messageUnion(doc: AsyncApiDocument, direction: 'publish' | 'subscribe'): string {
+  const titles = new Set<string>();
+  for (const channel of Object.values(doc.channels)) {
+    for (const ref of channel[direction]?.message.oneOf || []) {
+      const message = doc.components.messages[ref.$ref.split('/').pop() as string];
+      titles.add(renderType(message.payload, true));
+    }
+  }
+  return Array.from(titles).map(title => `  | ${title}`).join('\n');
+}
+
+const RUNTIME = `export interface ClientOptions {
+  /** e.g. https://api.example.com (no trailing slash) */
+  baseUrl: string;
+  /** Session token from verifySignIn, sent on endpoints that need auth */
+  getToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  /** ADMIN_API_KEY, sent on admin endpoints */
+  adminKey?: string;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  /** Sent as Idempotency-Key on endpoints that support it */
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+}
+
+interface RequestSpec {
+  method: 'GET' | 'POST';
+  query?: object;
+  body?: unknown;
+  auth?: boolean;
+  admin?: boolean;
+}
+
+/** Thrown for every non-2xx response */
+export class PumpItApiError extends Error {
+  readonly status: number;
+  readonly code: ErrorCode;
+  readonly details?: unknown;
+
+  constructor(status: number, body: ApiError) {
+    super(body.error);
+    this.name = 'PumpItApiError';
+    this.status = status;
+    this.code = body.code;
+    this.details = body.details;
+  }
+}
+
+export function createClient(clientOptions: ClientOptions) {
+  const doFetch = clientOptions.fetch || fetch;
+
+  async function request<T>(path: string, init: RequestSpec, options: RequestOptions = {}): Promise<T> {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(init.query || {})) {
+      if (value !== undefined && value !== null) search.set(key, String(value));
+    }
+    const query = search.toString();
+
+    const headers: Record<string, string> = {};
+    if (init.body !== undefined) headers['Content-Type'] = 'application/json';
+    if (options.idempotencyKey) headers['Idempotency-Key'] = options.idempotencyKey;
+    if (init.auth && clientOptions.getToken) {
+      const token = await clientOptions.getToken();
+      if (token) headers['Authorization'] = \`Bearer \${token}\`;
+    }
+    if (init.admin && clientOptions.adminKey) headers['X-Admin-Key'] = clientOptions.adminKey;
+
+    const res = await doFetch(\`\${clientOptions.baseUrl}\${path}\${query ? \`?\${query}\` : ''}\`, {
+      method: init.method,
+      headers,
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      signal: options.signal
+    });
+
+    const data = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new PumpItApiError(res.status, data || { success: false, error: res.statusText, code: 'INTERNAL_ERROR' });
+    }
+    return data as T;
+  }
+`;
+
+/**
+ * Whole generated client module
+ */
+export function renderClientFile(openApi: OpenApiDocument, asyncApi: AsyncApiDocument): string {
+  const schemas = { ...asyncApi.components.schemas, ...openApi.components.schemas };
+  const declarations = Object.entries(schemas).map(([name, schema]) => renderDeclaration(name, schema));
+
+  const methods: string[] = [];
+  for (const [path, operations] of Object.entries(openApi.paths)) {
+    for (const [method, op] of Object.entries(operations)) {
+      methods.push(renderMethod(method, path, op));
+    }
+  }
+
+  return [
+    `// Generated by \`npm run generate:client\` from the OpenAPI and AsyncAPI documents (API ${openApi.info.version}) - do not edit by hand`,
+    '',
+    declarations.join('\n\n'),
+    '',
+    '/** Any message the client may send over the WebSocket */',
+    `export type ClientMessage =\n${messageUnion(asyncApi, 'publish')};`,
+    '',
+    '/** Any message the server sends over the WebSocket */',
+    `export type ServerMessage =\n${messageUnion(asyncApi, 'subscribe')};`,
+    '',
+    RUNTIME,
+    '  return {',
+    methods.map(m => m.split('\n').map(line => `    ${line}`).join('\n')).join(',\n\n'),
+    '  };',
+    '}',
+    '',
+    'export type PumpItClient = ReturnType<typeof createClient>;',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,357 @@
+import {
+  object,
+  optional,
+  nullable,
+  literal,
+  string,
+  number,
+  boolean,
+  array,
+  enumOf,
+  dateTime,
+  unknownValue,
+  Schema,
+  JsonSchema,
+  Infer
+} from '../lib/schema';
+import { Asset } from '@prisma/client';
+import { ERROR_CODES } from '../lib/errors';
+import type { WS_EVENTS } from '../websocket/broadcast';
+import { CHANNELS, parseChannel } from '../websocket/server';
+
+// WebSocket payload schemas - the *Broadcast types in websocket/broadcast.ts are inferred from these
+
+// ---- Broadcast payloads ----
+
+const roundFields = {
+  id: string(),
+  status: string(),
+  quote_asset: enumOf(Object.values(Asset), 'Asset the round is traded in - its room'),
+  pool_sol_balance: number(),
+  pool_token_supply: number(),
+  current_price: number(),
+  price_multiplier: number(),
+  time_remaining: number({ description: 'Seconds' }),
+  positions_count: optional(number({ integer: true }))
+};
+
+export const roundBroadcast = object(roundFields, { title: 'RoundBroadcast' });
+
+export const roundPositionBroadcast = object({
+  profile_id: string(),
+  username: nullable(string()),
+  wallet_address: string()
+}, { title: 'RoundPositionBroadcast', description: 'Player holding tokens in the round' });
+
+export const roundState = object({
+  ...roundFields,
+  positions: array(roundPositionBroadcast)
+}, { title: 'RoundState' });
+
+export const tradeBroadcast = object({
+  id: optional(string()),
+  round_id: string(),
+  sequence: optional(number({ integer: true })),
+  trade_type: enumOf(['buy', 'sell'] as const),
+  username: string(),
+  wallet_address: string(),
+  sol_amount: number(),
+  token_amount: number(),
+  price: number(),
+  timestamp: number(),
+  order_id: optional(string({ description: 'Set when a conditional order triggered this trade' })),
+  order_type: optional(enumOf(['take_profit', 'stop_loss'] as const))
+}, { title: 'TradeBroadcast' });
+
+export const chatBroadcast = object({
+  id: string(),
+  username: string(),
+  wallet_address: optional(nullable(string())),
+  message: string(),
+  room: string(),
+  created_at: dateTime()
+}, { title: 'ChatBroadcast' });
+
+export const positionBroadcast = object({
+  round_id: string(),
+  token_balance: number(),
+  total_sol_in: number(),
+  total_sol_out: number(),
+  current_value: number(),
+  pnl: number(),
+  pnl_percent: number(),
+  entry_price: optional(nullable(number())),
+  current_price: optional(number()),
+  unrealized_pnl: optional(number()),
+  unrealized_pnl_percent: optional(number()),
+  is_final: optional(boolean('Set on the last update when the round ends'))
+}, { title: 'PositionBroadcast' });
+
+export const balanceBroadcast = object({
+  asset: enumOf(Object.values(Asset)),
+  deposited_balance: number({ description: 'New balance of asset' }),
+  change: number(),
+  reason: string()
+}, { title: 'BalanceBroadcast' });
+
+export const orderBroadcast = object({
+  id: string(),
+  round_id: string(),
+  order_type: enumOf(['take_profit', 'stop_loss'] as const),
+  trigger_multiplier: number(),
+  sell_percent: number(),
+  status: string(),
+  trade_sequence: nullable(number({ integer: true })),
+  sol_received: nullable(number()),
+  error: nullable(string())
+}, { title: 'OrderBroadcast' });
+
+const autoExitFields = {
+  round_id: string(),
+  status: enumOf(['sold', 'failed'] as const),
+  tokens_sold: number(),
+  sol_received: number(),
+  error: optional(string())
+};
+
+export const autoExitBroadcast = object(autoExitFields, { title: 'AutoExitBroadcast' });
+
+export const solvencyAlertBroadcast = object({
+  round_id: string(),
+  pool_sol_balance: number(),
+  outstanding_claims: number(),
+  shortfall: number(),
+  coverage_ratio: number(),
+  trading_halted: boolean()
+}, { title: 'SolvencyAlertBroadcast' });
+
+export type RoundBroadcast = Infer<typeof roundBroadcast>;
+export type RoundPositionBroadcast = Infer<typeof roundPositionBroadcast>;
+export type RoundState = Infer<typeof roundState>;
+export type TradeBroadcast = Infer<typeof tradeBroadcast>;
+export type ChatBroadcast = Infer<typeof chatBroadcast>;
+export type PositionBroadcast = Infer<typeof positionBroadcast>;
+export type BalanceBroadcast = Infer<typeof balanceBroadcast>;
+export type OrderBroadcast = Infer<typeof orderBroadcast>;
+export type AutoExitBroadcast = Infer<typeof autoExitBroadcast>;
+export type SolvencyAlertBroadcast = Infer<typeof solvencyAlertBroadcast>;
+
+// ---- Server messages ----
+
+// Where a server message is sent
+export type EventTarget = typeof CHANNELS[keyof typeof CHANNELS] | 'wallet' | 'client';
+
+export interface EventDoc {
+  target: EventTarget;   // channel subscribers, every connection of a wallet, or just the requesting client
+  schema: Schema<unknown>;
+}
+
+function title(type: string): string {
+  return type.toLowerCase().replace(/(^|_)([a-z])/g, (_, __, c: string) => c.toUpperCase()) + 'Event';
+}
+
+/**
+ * Message broadcast on a channel - stamped with channel and seq (see websocket/replay.ts)
+ * Room channels are sent on every room's copy (round, round:usdc, ...)
+ */
+function channelEvent(type: string, channel: string, fields: Record<string, Schema<unknown>>, description: string): Schema<unknown> {
+  const copies = Object.values(CHANNELS).filter(c => parseChannel(c).base === channel);
+  return object({
+    type: literal(type),
+    channel: copies.length > 1 ? enumOf(copies) : literal(channel),
+    seq: number({ integer: true, description: 'Per-channel sequence number for resume' }),
+    ...fields,
+    timestamp: number()
+  }, { title: title(type), description });
+}
+
+/**
+ * Message sent to one wallet or one connection
+ */
+function directEvent(type: string, fields: Record<string, Schema<unknown>>, description: string, withTimestamp = true): Schema<unknown> {
+  return object({
+    type: literal(type),
+    ...fields,
+    ...(withTimestamp ? { timestamp: number() } : {})
+  }, { title: title(type), description });
+}
+
+const roundPatch = object({
+  status: optional(string()),
+  pool_sol_balance: optional(number()),
+  pool_token_supply: optional(number()),
+  current_price: optional(number()),
+  price_multiplier: optional(number()),
+  time_remaining: optional(number()),
+  positions_count: optional(number({ integer: true }))
+});
+
+// Every WS_EVENTS entry with where it goes and what it carries
+export const SERVER_EVENTS: Record<keyof typeof WS_EVENTS, EventDoc> = {
+  ROUND_SNAPSHOT: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('ROUND_SNAPSHOT', CHANNELS.ROUND, {
+      version: number({ integer: true }),
+      round: nullable(roundState)
+    }, 'Full round state - on subscribe, resync and when a new round starts')
+  },
+  ROUND_DELTA: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('ROUND_DELTA', CHANNELS.ROUND, {
+      round_id: string(),
+      version: number({ integer: true }),
+      base_version: number({ integer: true, description: 'Apply only on top of this version, otherwise resync' }),
+      changes: roundPatch,
+      positions_joined: optional(array(roundPositionBroadcast)),
+      positions_left: optional(array(string(), { description: 'Profile ids' }))
+    }, 'Round fields that changed since base_version')
+  },
+  ROUND_STARTED: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('ROUND_STARTED', CHANNELS.ROUND, { round: roundBroadcast }, 'New round begins')
+  },
+  ROUND_ENDING: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('ROUND_ENDING', CHANNELS.ROUND, {
+      round_id: string(),
+      seconds_remaining: number()
+    }, 'Last few seconds of the round')
+  },
+  ROUND_ENDED: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('ROUND_ENDED', CHANNELS.ROUND, {
+      round_id: string(),
+      final_price: number(),
+      pool_sol_balance: number(),
+      forfeitures: array(object({
+        profile_id: string(),
+        tokens_forfeited: number(),
+        sol_value_lost: number()
+      }))
+    }, 'Round completed')
+  },
+  COUNTDOWN: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('COUNTDOWN', CHANNELS.ROUND, {
+      seconds_remaining: number(),
+      message: string()
+    }, 'Countdown between rounds')
+  },
+  TRADE: {
+    target: CHANNELS.TRADES,
+    schema: channelEvent('TRADE', CHANNELS.TRADES, { trade: tradeBroadcast }, 'Trade executed')
+  },
+  PRICE_UPDATE: {
+    target: CHANNELS.PRICES,
+    schema: channelEvent('PRICE_UPDATE', CHANNELS.PRICES, {
+      round_id: string(),
+      price: number(),
+      price_multiplier: number(),
+      pool_sol_balance: number(),
+      pool_token_supply: number()
+    }, 'Price changed')
+  },
+  POSITION_UPDATE: {
+    target: 'wallet',
+    schema: directEvent('POSITION_UPDATE', { position: positionBroadcast }, 'Your position changed')
+  },
+  BALANCE_UPDATE: {
+    target: 'wallet',
+    schema: directEvent('BALANCE_UPDATE', { balance: balanceBroadcast }, 'Your balance changed')
+  },
+  ORDER_UPDATE: {
+    target: 'wallet',
+    schema: directEvent('ORDER_UPDATE', { order: orderBroadcast }, 'One of your orders was placed, filled, cancelled or failed')
+  },
+  AUTO_EXIT: {
+    target: 'wallet',
+    schema: directEvent('AUTO_EXIT', autoExitFields, 'Auto-exit sold your tokens (or could not)')
+  },
+  CHAT: {
+    target: CHANNELS.CHAT,
+    schema: channelEvent('CHAT', CHANNELS.CHAT, { message: chatBroadcast }, 'New chat message')
+  },
+  FORFEITURE: {
+    target: 'wallet',
+    schema: directEvent('FORFEITURE', {
+      tokens_forfeited: number(),
+      sol_value_lost: number(),
+      message: string()
+    }, 'Tokens you still held when the round ended')
+  },
+  SOLVENCY_ALERT: {
+    target: CHANNELS.ROUND,
+    schema: channelEvent('SOLVENCY_ALERT', CHANNELS.ROUND, { alert: solvencyAlertBroadcast }, 'Round pool cannot cover open positions')
+  }
+};
+
+// Replies to client messages and connection lifecycle messages
+export const CONTROL_MESSAGES: Record<string, EventDoc> = {
+  CONNECTED: {
+    target: 'client',
+    schema: directEvent('CONNECTED', { message: string() }, 'Sent once after connecting')
+  },
+  SUBSCRIBED: {
+    target: 'client',
+    schema: directEvent('SUBSCRIBED', { channels: array(string()) }, 'Reply to subscribe', false)
+  },
+  UNSUBSCRIBED: {
+    target: 'client',
+    schema: directEvent('UNSUBSCRIBED', { channels: array(string()) }, 'Reply to unsubscribe', false)
+  },
+  IDENTIFIED: {
+    target: 'client',
+    schema: directEvent('IDENTIFIED', {
+      wallet_address: string(),
+      username: nullable(string()),
+      deposited_balance: number(),
+      usdc_balance: number(),
+      expires_at: number({ description: 'Unix ms when the identity expires' })
+    }, 'Reply to identify', false)
+  },
+  AUTH_EXPIRED: {
+    target: 'client',
+    schema: directEvent('AUTH_EXPIRED', { message: string() }, 'Identify token expired - send identify again')
+  },
+  PONG: {
+    target: 'client',
+    schema: directEvent('PONG', {}, 'Reply to ping')
+  },
+  ORDERS: {
+    target: 'client',
+    schema: directEvent('ORDERS', { orders: array(orderBroadcast) }, 'Reply to list_orders', false)
+  },
+  RESUMED: {
+    target: 'client',
+    schema: directEvent('RESUMED', {
+      channel: string(),
+      from_seq: number({ integer: true }),
+      seq: number({ integer: true }),
+      replayed: number({ integer: true })
+    }, 'Missed messages were replayed', false)
+  },
+  SNAPSHOT: {
+    target: 'client',
+    schema: directEvent('SNAPSHOT', {
+      channel: string(),
+      seq: number({ integer: true }),
+      snapshot: unknownValue('Channel state - same shape as the matching REST endpoint')
+    }, 'Reply to resume when the gap is no longer buffered')
+  },
+  ERROR: {
+    target: 'client',
+    schema: directEvent('ERROR', {
+      success: boolean('Always false'),
+      code: enumOf(ERROR_CODES),
+      error: string(),
+      details: optional(unknownValue())
+    }, 'A client message was rejected', false)
+  }
+};
+
+// Anything the server sends over the socket, tagged by type
+export const serverMessage: JsonSchema = {
+  title: 'ServerMessage',
+  oneOf: [...Object.values(SERVER_EVENTS), ...Object.values(CONTROL_MESSAGES)].map(e => e.schema.json),
+  discriminator: { propertyName: 'type' }
+};
@@ -0,0 +1,36 @@
+import { Asset } from '@prisma/client';
+import { string, enumOf, refine } from '../lib/schema';
+
+// Fields shared by REST and WebSocket schemas
+
+// Base58 Solana public key
+export const walletAddress = string({
+  pattern: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+  description: 'Solana wallet address (base58)'
+});
+
+// Base58 transaction signature
+export const txSignature = string({
+  pattern: /^[1-9A-HJ-NP-Za-km-z]{64,88}$/,
+  description: 'Solana transaction signature (base58)'
+});
+
+// Balance / round room asset
+export const asset = enumOf(Object.values(Asset), 'sol or usdc');
+
+// Record ids (rounds, orders)
+export const recordId = string({ minLength: 1, maxLength: 64 });
+
+// Chat room name
+export const chatRoom = string({ minLength: 1, maxLength: 50, pattern: /^[a-zA-Z0-9_-]+$/ });
+
+// Max chat message length
+export const MAX_MESSAGE_LENGTH = 500;
+
+export const chatText = string({ minLength: 1, maxLength: MAX_MESSAGE_LENGTH });
+
+// Username: 1-20 chars, alphanumeric only, max 1 capital letter
+export const username = refine(
+  string({ minLength: 1, maxLength: 20, pattern: /^[a-zA-Z0-9]+$/, description: '1-20 alphanumeric characters, at most 1 capital letter' }),
+  value => (value.match(/[A-Z]/g) || []).length > 1 ? 'Username can have at most 1 capital letter' : null
+);
@@ -0,0 +1,75 @@
+import { JsonSchema } from '../lib/schema';
+import * as rest from './rest';
+import * as ws from './ws';
+import * as responses from './responses';
+import { serverMessage } from './events';
+
+// Schema exports
+export * from './fields';
+export * from './rest';
+export * from './ws';
+export * from './responses';
+export * from './events';
+
+// Named schemas the frontend types are generated from (titled schemas nested in these are added too)
+export const TYPE_SCHEMAS: Record<string, JsonSchema> = {
+  // REST
+  ProfileRequest: rest.profileRequest.json,
+  NonceRequest: rest.nonceRequest.json,
+  VerifyRequest: rest.verifyRequest.json,
+  UsernameRequest: rest.usernameRequest.json,
+  AutoExitRequest: rest.autoExitRequest.json,
+  TradeRequest: rest.tradeRequest.json,
+  SellAllRequest: rest.sellAllRequest.json,
+  PreviewQuery: rest.previewQuery.json,
+  TradesQuery: rest.tradesQuery.json,
+  RoomQuery: rest.roomQuery.json,
+  PlaceOrderRequest: rest.placeOrderRequest.json,
+  OrdersQuery: rest.ordersQuery.json,
+  ChatRequest: rest.chatRequest.json,
+  DepositConfirmRequest: rest.depositConfirmRequest.json,
+  WithdrawRequest: rest.withdrawRequest.json,
+  LedgerQuery: rest.ledgerQuery.json,
+  AdminWithdrawalsQuery: rest.adminWithdrawalsQuery.json,
+  ReviewWithdrawalRequest: rest.reviewWithdrawalRequest.json,
+
+  // REST responses
+  ProfileResponse: responses.profileResponse.json,
+  NonceResponse: responses.nonceResponse.json,
+  VerifyResponse: responses.verifyResponse.json,
+  SuccessResponse: responses.successResponse.json,
+  AutoExitResponse: responses.autoExitResponse.json,
+  UsernameAvailability: responses.usernameAvailability.json,
+  RoundResponse: responses.roundResponse.json,
+  PositionResponse: responses.positionResponse.json,
+  PnlResponse: responses.pnlResponse.json,
+  TradeResponse: responses.tradeResponse.json,
+  SellAllResponse: responses.sellAllResponse.json,
+  PreviewResponse: responses.previewResponse.json,
+  LeaderboardResponse: responses.leaderboardResponse.json,
+  SolvencyResponse: responses.solvencyResponse.json,
+  TradesResponse: responses.tradesResponse.json,
+  OrderResponse: responses.orderResponse.json,
+  OrdersResponse: responses.ordersResponse.json,
+  DepositConfirmResponse: responses.depositConfirmResponse.json,
+  WithdrawResponse: responses.withdrawResponse.json,
+  LedgerBalanceResponse: responses.ledgerBalanceResponse.json,
+  AdminWithdrawalsResponse: responses.adminWithdrawalsResponse.json,
+  AdminWithdrawalResponse: responses.adminWithdrawalResponse.json,
+  AdminFeeSweepsResponse: responses.adminFeeSweepsResponse.json,
+  AdminFeeSweepRunResponse: responses.adminFeeSweepRunResponse.json,
+
+  // WebSocket
+  SubscribeMessage: ws.subscribeMessage.json,
+  UnsubscribeMessage: ws.unsubscribeMessage.json,
+  IdentifyMessage: ws.identifyMessage.json,
+  ChatMessage: ws.chatMessage.json,
+  PingMessage: ws.pingMessage.json,
+  ResumeMessage: ws.resumeMessage.json,
+  ResyncMessage: ws.resyncMessage.json,
+  PlaceOrderMessage: ws.placeOrderMessage.json,
+  ListOrdersMessage: ws.listOrdersMessage.json,
+  CancelOrderMessage: ws.cancelOrderMessage.json,
+  ClientMessage: ws.clientMessage.json,
+  ServerMessage: serverMessage
+};
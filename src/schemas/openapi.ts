@@ -0,0 +1,156 @@
+import { JsonSchema, object, optional, boolean, string, enumOf, unknownValue } from '../lib/schema';
+import { ERROR_CODES } from '../lib/errors';
+import { IDEMPOTENCY_HEADER } from '../middleware/idempotency';
+import { ADMIN_KEY_HEADER } from '../middleware/auth';
+import type { RouteSpec } from '../routes/define';
+
+/**
+ * OpenAPI Document
+ *
+ * Built from the route definitions (routes/define.ts), so the document can't
+ * drift from what the routes actually validate. Served at /api/openapi.json
+ * and used by `npm run generate:client`.
+ */
+
+export const API_VERSION = '1.0.0';
+
+const errorCode = enumOf(ERROR_CODES);
+
+export const apiErrorSchema = object({
+  success: boolean('Always false'),
+  error: string({ description: 'Human readable message' }),
+  code: { ...errorCode, json: { ...errorCode.json, title: 'ErrorCode' } },
+  details: optional(unknownValue('Extra context, e.g. validation issues or slippage'))
+}, { title: 'ApiError', description: 'Body of every failed response' });
+
+export interface RouteGroup {
+  path: string;
+  tag: string;
+  routes: RouteSpec[];
+}
+
+/**
+ * Move titled schemas into a components map and point at them with $ref
+ */
+export function extractComponents(schema: JsonSchema, components: Record<string, JsonSchema>, prefix: string): JsonSchema {
+  const convert = (s: JsonSchema): JsonSchema => {
+    const copy: JsonSchema = { ...s };
+    if (s.properties) {
+      copy.properties = Object.fromEntries(Object.entries(s.properties).map(([key, prop]) => [key, ref(prop)]));
+    }
+    if (s.items) copy.items = ref(s.items);
+    if (s.oneOf) copy.oneOf = s.oneOf.map(ref);
+    return copy;
+  };
+
+  const ref = (s: JsonSchema): JsonSchema => {
+    if (!s.title) return convert(s);
+    if (!components[s.title]) components[s.title] = convert(s);
+    return { $ref: `${prefix}${s.title}` };
+  };
+
+  return ref(schema);
+}
+
+// Express ':param' -> OpenAPI '{param}'
+function toOpenApiPath(mountPath: string, routePath: string): string {
+  const full = routePath === '/' ? mountPath : `${mountPath}${routePath}`;
+  return full.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+}
+
+function parameters(
+  schema: JsonSchema | undefined,
+  location: 'path' | 'query',
+  toRef: (s: JsonSchema) => JsonSchema
+): Record<string, unknown>[] {
+  const required = new Set(schema?.required || []);
+  return Object.entries(schema?.properties || {}).map(([name, prop]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.has(name),
+    description: prop.description,
+    schema: toRef(prop)
+  }));
+}
+
+/**
+ * OpenAPI 3.1 document for the given mounted routes
+ */
+export function buildOpenApiDocument(groups: RouteGroup[]): Record<string, unknown> {
+  const schemas: Record<string, JsonSchema> = {};
+  const toRef = (s: JsonSchema) => extractComponents(s, schemas, '#/components/schemas/');
+  const errorResponse = {
+    description: 'Error - see ApiError.code',
+    content: { 'application/json': { schema: toRef(apiErrorSchema.json) } }
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const group of groups) {
+    for (const spec of group.routes) {
+      const path = toOpenApiPath(group.path, spec.path);
+      const params = [
+        ...parameters(spec.params?.json, 'path', toRef),
+        ...parameters(spec.query?.json, 'query', toRef)
+      ];
+      if (spec.idempotent) {
+        params.push({
+          name: IDEMPOTENCY_HEADER,
+          in: 'header',
+          required: false,
+          description: 'Retries with the same key replay the first response',
+          schema: { type: 'string' }
+        });
+      }
+
+      paths[path] = paths[path] || {};
+      paths[path][spec.method] = {
+        operationId: spec.operationId,
+        summary: spec.summary,
+        tags: [group.tag],
+        ...(spec.auth ? { security: [{ bearerAuth: [] }] } : {}),
+        ...(spec.admin ? { security: [{ adminKey: [] }] } : {}),
+        ...(params.length > 0 ? { parameters: params } : {}),
+        ...(spec.body ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: toRef(spec.body.json) } }
+          }
+        } : {}),
+        responses: {
+          '200': {
+            description: 'Success',
+            content: { 'application/json': { schema: toRef(spec.response.json) } }
+          },
+          default: errorResponse
+        }
+      };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'PumpIt API',
+      version: API_VERSION,
+      description: 'REST API. Real-time events are described by the AsyncAPI document at /api/asyncapi.json.'
+    },
+    tags: groups.map(group => ({ name: group.tag })),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'Session token from POST /api/auth/verify'
+        },
+        adminKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: ADMIN_KEY_HEADER,
+          description: 'ADMIN_API_KEY from the server environment'
+        }
+      }
+    }
+  };
+}
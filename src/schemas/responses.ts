@@ -0,0 +1,361 @@
+import {
+  object,
+  optional,
+  nullable,
+  literal,
+  string,
+  number,
+  boolean,
+  array,
+  enumOf,
+  dateTime,
+  unknownValue,
+  union
+} from '../lib/schema';
+import { Asset, FeeSweepStatus, LedgerEntryKind, WithdrawalStatus } from '@prisma/client';
+import { orderBroadcast, chatBroadcast } from './events';
+
+// Response schemas - describe what each route sends back (used for API docs and the client, not checked at runtime)
+
+const ok = boolean('Always true');
+
+// ---- Auth ----
+
+export const profileResponse = object({
+  success: ok,
+  id: string(),
+  wallet_address: string(),
+  username: nullable(string()),
+  deposited_balance: string({ description: 'SOL, as a decimal string' }),
+  usdc_balance: string({ description: 'USDC, as a decimal string' }),
+  auto_exit_enabled: boolean(),
+  needsUsername: boolean()
+}, { title: 'ProfileResponse' });
+
+export const nonceResponse = object({
+  success: ok,
+  nonce: string(),
+  message: string({ description: 'Sign this message with the wallet' }),
+  expires_at: dateTime()
+}, { title: 'NonceResponse' });
+
+export const verifyResponse = object({
+  success: ok,
+  token: string({ description: 'Send as "Authorization: Bearer <token>"' }),
+  wallet_address: string(),
+  expires_at: dateTime()
+}, { title: 'VerifyResponse' });
+
+export const successResponse = object({
+  success: ok
+}, { title: 'SuccessResponse' });
+
+export const autoExitResponse = object({
+  success: ok,
+  auto_exit_enabled: boolean(),
+  auto_exit_seconds: number()
+}, { title: 'AutoExitResponse' });
+
+export const usernameAvailability = object({
+  available: boolean(),
+  error: optional(string({ description: 'Why the name is not allowed' }))
+}, { title: 'UsernameAvailability' });
+
+// ---- Game ----
+
+export const roundPosition = object({
+  profile_id: string(),
+  username: nullable(string()),
+  wallet_address: string(),
+  token_balance: number(),
+  total_sol_in: number(),
+  total_sol_out: number()
+}, { title: 'RoundPosition' });
+
+export const round = object({
+  id: string(),
+  status: string(),
+  quote_asset: enumOf(Object.values(Asset), 'Asset the round is traded in - balances, pool and trade amounts are in it'),
+  started_at: dateTime(),
+  ended_at: nullable(dateTime()),
+  duration_seconds: number({ integer: true }),
+  time_remaining: number({ description: 'Seconds' }),
+  pool_sol_balance: number(),
+  pool_token_supply: number(),
+  current_price: number(),
+  price_multiplier: number(),
+  template_name: string(),
+  pricing_curve: string(),
+  pricing_params: unknownValue('Curve parameters'),
+  buy_fee: number(),
+  sell_fee: number(),
+  trading_halted: boolean(),
+  positions: array(roundPosition)
+}, { title: 'Round' });
+
+export const roundCountdown = object({
+  status: literal('countdown'),
+  countdown_seconds: number(),
+  message: string()
+}, { title: 'RoundCountdown' });
+
+export const roundResponse = union([round, roundCountdown], { title: 'RoundResponse' });
+
+export const position = object({
+  round_id: string(),
+  token_balance: number(),
+  total_sol_in: number(),
+  total_sol_out: number(),
+  current_value: number(),
+  entry_price: nullable(number()),
+  current_price: number(),
+  pnl: number(),
+  pnl_percent: number(),
+  unrealized_pnl: number(),
+  unrealized_pnl_percent: number()
+}, { title: 'Position' });
+
+export const positionResponse = object({
+  position: nullable(position)
+}, { title: 'PositionResponse' });
+
+export const pnlSnapshot = object({
+  round_id: string(),
+  wallet_address: string(),
+  token_balance: number(),
+  entry_price: nullable(number()),
+  current_price: number(),
+  total_sol_in: number(),
+  total_sol_out: number(),
+  current_value: number(),
+  total_pnl: number(),
+  total_pnl_percent: number(),
+  unrealized_pnl: number(),
+  unrealized_pnl_percent: number(),
+  timestamp: number()
+}, { title: 'PnlSnapshot' });
+
+export const pnlResponse = object({
+  success: ok,
+  pnl: nullable(pnlSnapshot),
+  message: optional(string({ description: 'Why pnl is null' }))
+}, { title: 'PnlResponse' });
+
+export const tradeResponse = object({
+  success: ok,
+  trade_type: enumOf(['buy', 'sell'] as const),
+  tokens_traded: number(),
+  sol_amount: number(),
+  new_price: number(),
+  price_multiplier: number(),
+  fee_amount: number(),
+  new_balance: number(),
+  sequence: number({ integer: true }),
+  position: object({
+    token_balance: number(),
+    total_sol_in: number(),
+    total_sol_out: number(),
+    entry_price: nullable(number())
+  })
+}, { title: 'TradeResponse' });
+
+export const sellAllResponse = object({
+  success: ok,
+  tokens_sold: number(),
+  sol_received: number(),
+  new_price: number(),
+  price_multiplier: number(),
+  fee_amount: number(),
+  new_balance: number(),
+  sequence: number({ integer: true })
+}, { title: 'SellAllResponse' });
+
+export const buyPreview = object({
+  trade_type: literal('buy'),
+  sol_in: number(),
+  tokens_out: number(),
+  new_price: number(),
+  price_multiplier: number(),
+  price_impact: number(),
+  fee_amount: number(),
+  entry_multiplier: number(),
+  max_entry_multiplier: number(),
+  pricing_curve: string()
+}, { title: 'BuyPreview' });
+
+export const sellPreview = object({
+  trade_type: literal('sell'),
+  tokens_in: number(),
+  sol_out: number(),
+  new_price: number(),
+  price_multiplier: number(),
+  price_impact: number(),
+  fee_amount: number(),
+  min_sol_out: number(),
+  entry_multiplier: number(),
+  pricing_curve: string(),
+  note: optional(string())
+}, { title: 'SellPreview' });
+
+export const previewResponse = union([buyPreview, sellPreview], { title: 'PreviewResponse' });
+
+export const leaderboardEntry = object({
+  username: string(),
+  wallet_address: string(),
+  token_balance: number(),
+  total_sol_in: number(),
+  total_sol_out: number(),
+  current_value: number(),
+  pnl: number(),
+  pnl_percent: number()
+}, { title: 'LeaderboardEntry' });
+
+export const leaderboardResponse = object({
+  leaderboard: array(leaderboardEntry)
+}, { title: 'LeaderboardResponse' });
+
+export const solvencyReport = object({
+  round_id: string(),
+  quote_asset: enumOf(Object.values(Asset)),
+  pool_sol_balance: number(),
+  outstanding_claims: number({ description: 'Sum of what each open position could sell for now, each capped at the pool' }),
+  shortfall: number(),
+  coverage_ratio: nullable(number({ description: 'null when there are no claims' })),
+  multiplier: number(),
+  open_positions: number({ integer: true }),
+  is_solvent: boolean(),
+  checked_at: dateTime()
+}, { title: 'SolvencyReport' });
+
+export const solvencyResponse = object({
+  solvency: nullable(solvencyReport),
+  trading_halted: optional(boolean()),
+  halt_reason: optional(nullable(string())),
+  message: optional(string())
+}, { title: 'SolvencyResponse' });
+
+export const roundTrade = object({
+  id: string(),
+  trade_type: enumOf(['buy', 'sell'] as const),
+  username: string(),
+  wallet_address: string(),
+  sol_amount: number(),
+  token_amount: number(),
+  price_at_trade: number(),
+  fee_amount: number(),
+  sequence: number({ integer: true }),
+  created_at: dateTime()
+}, { title: 'RoundTrade' });
+
+export const tradesResponse = object({
+  trades: array(roundTrade)
+}, { title: 'TradesResponse' });
+
+// ---- Orders ----
+
+export const orderResponse = object({
+  success: ok,
+  order: orderBroadcast
+}, { title: 'OrderResponse' });
+
+export const ordersResponse = object({
+  orders: array(orderBroadcast)
+}, { title: 'OrdersResponse' });
+
+// ---- Chat ----
+
+export const chatMessages = array(chatBroadcast);
+
+// ---- Deposit / withdraw ----
+
+export const depositConfirmResponse = object({
+  success: ok,
+  status: enumOf(['pending', 'confirmed'] as const),
+  deposit_id: string(),
+  asset: enumOf(Object.values(Asset)),
+  new_balance: string({ description: 'Balance of asset, as a decimal string - does not include a pending deposit' }),
+  message: string()
+}, { title: 'DepositConfirmResponse' });
+
+export const withdrawResponse = object({
+  success: ok,
+  withdrawal_id: string(),
+  status: enumOf(
+    ['confirmed', 'processing', 'pending_review'] as const,
+    'processing: still landing - refunded if it fails; pending_review: held for an admin, refunded if rejected'
+  ),
+  tx_signature: nullable(string({ description: 'null if the transfer has not been signed yet' })),
+  asset: enumOf(Object.values(Asset)),
+  new_balance: string({ description: 'Balance of asset, as a decimal string' })
+}, { title: 'WithdrawResponse' });
+
+// ---- Admin ----
+
+export const adminWithdrawal = object({
+  id: string(),
+  wallet_address: string(),
+  username: nullable(string()),
+  asset: enumOf(Object.values(Asset)),
+  amount: number(),
+  status: enumOf(Object.values(WithdrawalStatus)),
+  tx_signature: nullable(string()),
+  attempts: number({ integer: true }),
+  error: nullable(string()),
+  review_note: nullable(string()),
+  reviewed_at: nullable(dateTime()),
+  created_at: dateTime()
+}, { title: 'AdminWithdrawal' });
+
+export const adminWithdrawalsResponse = object({
+  withdrawals: array(adminWithdrawal)
+}, { title: 'AdminWithdrawalsResponse' });
+
+export const adminWithdrawalResponse = object({
+  success: ok,
+  withdrawal: adminWithdrawal
+}, { title: 'AdminWithdrawalResponse' });
+
+export const adminFeeSweep = object({
+  id: string(),
+  asset: enumOf(Object.values(Asset)),
+  amount: number({ description: 'Fees moved to the house wallet (in asset)' }),
+  destination: string({ description: 'House wallet' }),
+  status: enumOf(Object.values(FeeSweepStatus)),
+  tx_signature: nullable(string()),
+  attempts: number({ integer: true }),
+  error: nullable(string()),
+  round_count: number({ integer: true, description: 'Rounds the sweep was created for' }),
+  round_ids: array(string(), { description: 'Rounds it covers - empty once a failed sweep released them' }),
+  created_at: dateTime()
+}, { title: 'AdminFeeSweep' });
+
+export const adminFeeSweepsResponse = object({
+  sweeps: array(adminFeeSweep)
+}, { title: 'AdminFeeSweepsResponse' });
+
+export const adminFeeSweepRunResponse = object({
+  success: ok,
+  sweeps: array(adminFeeSweep, { description: 'Sweeps the run created or moved forward' })
+}, { title: 'AdminFeeSweepRunResponse' });
+
+// ---- Ledger ----
+
+const amount = (description: string) => number({ description: `${description} (in asset)` });
+
+export const ledgerBalanceResponse = object({
+  wallet_address: string(),
+  asset: enumOf(Object.values(Asset)),
+  balance: amount('Balance rebuilt from ledger entries'),
+  stored_balance: amount('Balance column on the profile (deposited_balance for SOL, usdc_balance for USDC)'),
+  drift: amount('stored_balance - balance'),
+  in_sync: boolean(),
+  total_wagered: amount('Buys including fees, from the ledger'),
+  stored_total_wagered: nullable(number({ description: 'total_wagered on the profile - null for assets other than SOL' })),
+  total_won: amount('Sell proceeds after fees, from the ledger'),
+  stored_total_won: nullable(number({ description: 'total_won on the profile - null for assets other than SOL' })),
+  entry_count: number({ integer: true }),
+  by_kind: object(
+    Object.fromEntries(Object.values(LedgerEntryKind).map(kind => [kind, optional(number())])),
+    { description: 'Net effect of each entry kind on the balance (in asset)' }
+  )
+}, { title: 'LedgerBalanceResponse' });
@@ -0,0 +1,155 @@
+import { OrderStatus, WithdrawalStatus } from '@prisma/client';
+import { object, optional, string, number, boolean, enumOf, Infer } from '../lib/schema';
+import { MIN_TRADE } from '../services/tradeService';
+import { walletAddress, txSignature, recordId, chatRoom, chatText, username, asset } from './fields';
+
+// Room (quote asset) a game request is for - SOL unless given
+const roomAsset = optional(asset, 'sol');
+
+// REST request schemas - bodies, queries and route params
+
+// ---- Auth ----
+
+export const profileRequest = object({
+  wallet_address: walletAddress
+}, { title: 'ProfileRequest' });
+
+export const nonceRequest = object({
+  wallet_address: walletAddress
+}, { title: 'NonceRequest' });
+
+export const verifyRequest = object({
+  wallet_address: walletAddress,
+  nonce: string({ minLength: 1, maxLength: 128 }),
+  signature: string({ minLength: 1, maxLength: 256, description: 'base58 or base64 ed25519 signature of the sign-in message' })
+}, { title: 'VerifyRequest' });
+
+export const usernameRequest = object({
+  username
+}, { title: 'UsernameRequest' });
+
+export const usernameParams = object({
+  username: string({ maxLength: 100 })
+});
+
+export const autoExitRequest = object({
+  enabled: boolean()
+}, { title: 'AutoExitRequest' });
+
+// ---- Game ----
+
+export const tradeRequest = object({
+  trade_type: enumOf(['buy', 'sell'] as const),
+  sol_amount: number({ minimum: MIN_TRADE, description: 'Amount of the round\'s quote asset to spend (buy) or tokens to sell (sell)' }),
+  max_entry_multiplier: optional(number({ exclusiveMinimum: 0, description: 'Buys: reject if the entry multiplier would be higher' })),
+  min_sol_out: optional(number({ minimum: 0, description: 'Sells: reject if less of the quote asset (after fee) would come out' })),
+  asset: roomAsset
+}, { title: 'TradeRequest' });
+
+export const sellAllRequest = object({
+  min_sol_out: optional(number({ minimum: 0 })),
+  asset: roomAsset
+}, { title: 'SellAllRequest' });
+
+export const previewQuery = object({
+  trade_type: enumOf(['buy', 'sell'] as const),
+  sol_amount: number({ exclusiveMinimum: 0, coerce: true }),
+  wallet_address: optional(walletAddress),
+  asset: roomAsset
+}, { title: 'PreviewQuery' });
+
+export const roomQuery = object({
+  asset: roomAsset
+}, { title: 'RoomQuery' });
+
+export const walletParams = object({
+  wallet_address: walletAddress
+});
+
+export const roundParams = object({
+  round_id: recordId
+});
+
+export const tradesQuery = object({
+  limit: optional(number({ integer: true, minimum: 1, maximum: 200, coerce: true }), 50)
+}, { title: 'TradesQuery' });
+
+// ---- Orders ----
+
+export const placeOrderRequest = object({
+  order_type: enumOf(['take_profit', 'stop_loss'] as const),
+  trigger_multiplier: number({ exclusiveMinimum: 0 }),
+  sell_percent: optional(number({ exclusiveMinimum: 0, maximum: 100 }), 100),
+  asset: roomAsset
+}, { title: 'PlaceOrderRequest' });
+
+export const ordersQuery = object({
+  round_id: optional(recordId),
+  status: optional(enumOf(Object.values(OrderStatus)))
+}, { title: 'OrdersQuery' });
+
+export const orderParams = object({
+  order_id: recordId
+});
+
+// ---- Chat ----
+
+export const chatRoomParams = object({
+  room: chatRoom
+});
+
+export const chatRequest = object({
+  message: chatText,
+  room: optional(chatRoom, 'pumpit')
+}, { title: 'ChatRequest' });
+
+// ---- Deposits / withdrawals ----
+
+export const depositConfirmRequest = object({
+  wallet_address: walletAddress,
+  tx_signature: txSignature,
+  amount: number({ exclusiveMinimum: 0, description: 'Amount of asset sent to the escrow wallet' }),
+  asset: optional(asset, 'sol')
+}, { title: 'DepositConfirmRequest' });
+
+export const withdrawRequest = object({
+  amount: number({ exclusiveMinimum: 0, description: 'Amount of asset to withdraw' }),
+  asset: optional(asset, 'sol')
+}, { title: 'WithdrawRequest' });
+
+export const ledgerQuery = object({
+  asset: optional(asset, 'sol')
+}, { title: 'LedgerQuery' });
+
+// ---- Admin ----
+
+export const withdrawalParams = object({
+  withdrawal_id: recordId
+});
+
+export const adminWithdrawalsQuery = object({
+  status: optional(enumOf(Object.values(WithdrawalStatus)), 'pending_review')
+}, { title: 'AdminWithdrawalsQuery' });
+
+export const reviewWithdrawalRequest = object({
+  note: optional(string({ maxLength: 500, description: 'Kept on the withdrawal for the audit trail' }))
+}, { title: 'ReviewWithdrawalRequest' });
+
+export type ProfileRequest = Infer<typeof profileRequest>;
+export type NonceRequest = Infer<typeof nonceRequest>;
+export type VerifyRequest = Infer<typeof verifyRequest>;
+export type UsernameRequest = Infer<typeof usernameRequest>;
+export type AutoExitRequest = Infer<typeof autoExitRequest>;
+export type TradeRequest = Infer<typeof tradeRequest>;
+export type SellAllRequest = Infer<typeof sellAllRequest>;
+export type PreviewQuery = Infer<typeof previewQuery>;
+export type TradesQuery = Infer<typeof tradesQuery>;
+export type RoomQuery = Infer<typeof roomQuery>;
+export type PlaceOrderRequest = Infer<typeof placeOrderRequest>;
+export type OrdersQuery = Infer<typeof ordersQuery>;
+export type ChatRequest = Infer<typeof chatRequest>;
+export type DepositConfirmRequest = Infer<typeof depositConfirmRequest>;
+export type WithdrawRequest = Infer<typeof withdrawRequest>;
+export type LedgerQuery = Infer<typeof ledgerQuery>;
+export type AdminWithdrawalsQuery = Infer<typeof adminWithdrawalsQuery>;
+export type ReviewWithdrawalRequest = Infer<typeof reviewWithdrawalRequest>;
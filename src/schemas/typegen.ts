@@ -0,0 +1,134 @@
+import { JsonSchema } from '../lib/schema';
+import { ERROR_CODES } from '../lib/errors';
+
+/**
+ * TypeScript Type Generator
+ *
+ * Renders request, response and WebSocket schemas as TypeScript declarations
+ * for the frontend, so client types come from the same schemas the server
+ * validates against.
+ * Run `npm run generate:types` after changing a schema.
+ */
+
+function quoteKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function indent(text: string): string {
+  return text.split('\n').map(line => `  ${line}`).join('\n');
+}
+
+function renderDoc(schema: JsonSchema): string {
+  const notes: string[] = [];
+  if (schema.description) notes.push(schema.description);
+  if (schema.default !== undefined) notes.push(`Default: ${JSON.stringify(schema.default)}`);
+  return notes.length > 0 ? `/** ${notes.join(' - ')} */\n` : '';
+}
+
+/**
+ * Type expression for a schema (nested titled schemas are referenced by name)
+ */
+export function renderType(schema: JsonSchema, nested: boolean): string {
+  if (nested && schema.title) return schema.title;
+  if (schema.$ref) return schema.$ref.split('/').pop() as string;
+
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => type === 'null' ? 'null' : renderType({ ...schema, type }, nested)).join(' | ');
+  }
+
+  if (schema.oneOf) {
+    return schema.oneOf.map(s => renderType(s, true)).join(' | ');
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map(v => JSON.stringify(v)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? renderType(schema.items, true) : 'unknown';
+      return /[| ]/.test(item) && !item.startsWith('{') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object': {
+      const required = new Set(schema.required || []);
+      const fields = Object.entries(schema.properties || {}).map(([key, prop]) =>
+        `${renderDoc(prop)}${quoteKey(key)}${required.has(key) ? '' : '?'}: ${renderType(prop, true)};`
+      );
+      return fields.length > 0 ? `{\n${indent(fields.join('\n'))}\n}` : 'Record<string, unknown>';
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Declaration for one named schema
+ */
+export function renderDeclaration(name: string, schema: JsonSchema): string {
+  const doc = renderDoc(schema);
+  if (schema.type === 'object') {
+    return `${doc}export interface ${name} ${renderType(schema, false)}`;
+  }
+  return `${doc}export type ${name} = ${renderType(schema, false)};`;
+}
+
+/**
+ * The given named schemas plus every titled schema nested inside them
+ * (nested titled schemas are rendered as references, so each needs its own declaration)
+ */
+export function collectNamedSchemas(schemas: Record<string, JsonSchema>): Record<string, JsonSchema> {
+  const named: Record<string, JsonSchema> = { ...schemas };
+
+  const visit = (schema: JsonSchema, nested: boolean) => {
+    if (nested && schema.title) {
+      if (named[schema.title]) return;
+      named[schema.title] = schema;
+    }
+    Object.values(schema.properties || {}).forEach(prop => visit(prop, true));
+    if (schema.items) visit(schema.items, true);
+    (schema.oneOf || []).forEach(variant => visit(variant, true));
+  };
+
+  Object.values(schemas).forEach(schema => visit(schema, false));
+  return named;
+}
+
+/**
+ * Whole generated file for the given named schemas
+ */
+export function renderTypesFile(schemas: Record<string, JsonSchema>): string {
+  const declarations = Object.entries(collectNamedSchemas(schemas)).map(([name, schema]) => renderDeclaration(name, schema));
+
+  const errorCodes = `export type ErrorCode =\n${ERROR_CODES.map(code => `  | ${JSON.stringify(code)}`).join('\n')};`;
+  const apiError = [
+    '/** Body of every failed REST response (WebSocket errors add type: "ERROR") */',
+    'export interface ApiError {',
+    '  success: false;',
+    '  error: string;',
+    '  code: ErrorCode;',
+    '  details?: unknown;',
+    '}'
+  ].join('\n');
+
+  return [
+    '// Generated by `npm run generate:types` from src/schemas - do not edit by hand',
+    '',
+    errorCodes,
+    '',
+    apiError,
+    '',
+    declarations.join('\n\n'),
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,86 @@
+import { object, optional, literal, string, number, array, enumOf, discriminated, Infer } from '../lib/schema';
+import { CHANNELS } from '../websocket/server';
+import { recordId, chatRoom, chatText, asset } from './fields';
+
+// WebSocket client message schemas
+
+const channel = enumOf(Object.values(CHANNELS));
+
+export const subscribeMessage = object({
+  type: literal('subscribe'),
+  channels: array(channel, { minItems: 1, maxItems: 10 })
+}, { title: 'SubscribeMessage' });
+
+export const unsubscribeMessage = object({
+  type: literal('unsubscribe'),
+  channels: array(channel, { minItems: 1, maxItems: 10 })
+}, { title: 'UnsubscribeMessage' });
+
+export const identifyMessage = object({
+  type: literal('identify'),
+  token: string({ minLength: 1, description: 'Privy access token or wallet session token' })
+}, { title: 'IdentifyMessage' });
+
+export const chatMessage = object({
+  type: literal('chat'),
+  message: chatText,
+  room: optional(chatRoom, 'pumpit')
+}, { title: 'ChatMessage' });
+
+export const pingMessage = object({
+  type: literal('ping')
+}, { title: 'PingMessage' });
+
+export const resumeMessage = object({
+  type: literal('resume'),
+  channel,
+  last_seq: number({ integer: true, minimum: 0, description: 'Last sequence number the client saw on this channel' })
+}, { title: 'ResumeMessage' });
+
+export const resyncMessage = object({
+  type: literal('resync'),
+  channel: enumOf([CHANNELS.ROUND, CHANNELS.ROUND_USDC] as const, 'Only the round channels keep client-side state to resync')
+}, { title: 'ResyncMessage' });
+
+export const placeOrderMessage = object({
+  type: literal('place_order'),
+  order_type: enumOf(['take_profit', 'stop_loss'] as const),
+  trigger_multiplier: number({ exclusiveMinimum: 0 }),
+  sell_percent: optional(number({ exclusiveMinimum: 0, maximum: 100 }), 100),
+  asset: optional(asset, 'sol')
+}, { title: 'PlaceOrderMessage' });
+
+export const listOrdersMessage = object({
+  type: literal('list_orders'),
+  round_id: optional(recordId)
+}, { title: 'ListOrdersMessage' });
+
+export const cancelOrderMessage = object({
+  type: literal('cancel_order'),
+  order_id: recordId
+}, { title: 'CancelOrderMessage' });
+
+export const clientMessage = discriminated('type', [
+  subscribeMessage,
+  unsubscribeMessage,
+  identifyMessage,
+  chatMessage,
+  pingMessage,
+  resumeMessage,
+  resyncMessage,
+  placeOrderMessage,
+  listOrdersMessage,
+  cancelOrderMessage
+], { title: 'ClientMessage' });
+
+export type SubscribeMessage = Infer<typeof subscribeMessage>;
+export type UnsubscribeMessage = Infer<typeof unsubscribeMessage>;
+export type IdentifyMessage = Infer<typeof identifyMessage>;
+export type ChatMessage = Infer<typeof chatMessage>;
+export type PingMessage = Infer<typeof pingMessage>;
+export type ResumeMessage = Infer<typeof resumeMessage>;
+export type ResyncMessage = Infer<typeof resyncMessage>;
+export type PlaceOrderMessage = Infer<typeof placeOrderMessage>;
+export type ListOrdersMessage = Infer<typeof listOrdersMessage>;
+export type CancelOrderMessage = Infer<typeof cancelOrderMessage>;
+export type ClientMessage = Infer<typeof clientMessage>;
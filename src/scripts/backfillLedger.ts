@@ -0,0 +1,54 @@
+import prisma from '../lib/prisma';
+import { ZERO_LAMPORTS, toLamports, toSol } from '../lib/lamports';
+import { recordTransfers, getAccountBalance, LedgerAccounts } from '../services/ledgerService';
+
+// Writes an opening_balance entry for every profile whose SOL balance predates the ledger (npm run ledger:backfill)
+// The entry covers whatever the stored balance has that the ledger doesn't, so trades made
+// since deploying are kept. Profiles that already have one are skipped - safe to run more than once
+async function main() {
+  const profiles = await prisma.profile.findMany({
+    where: { deposited_balance: { gt: 0 } },
+    select: { id: true, wallet_address: true, deposited_balance: true }
+  });
+
+  let written = 0;
+  for (const profile of profiles) {
+    const opened = await prisma.$transaction(async (tx) => {
+      // Lock the profile so a trade can't move the balance between the read and the entry
+      await tx.$queryRaw`SELECT id FROM profiles WHERE id = ${profile.id}::uuid FOR UPDATE`;
+
+      const existing = await tx.ledgerEntry.count({
+        where: { kind: 'opening_balance', credit_type: 'user', credit_id: profile.id }
+      });
+      if (existing > 0) return ZERO_LAMPORTS;
+
+      const current = await tx.profile.findUniqueOrThrow({ where: { id: profile.id } });
+      const missing = toLamports(current.deposited_balance)
+        - await getAccountBalance(LedgerAccounts.user(profile.id), 'sol', tx);
+      if (missing <= ZERO_LAMPORTS) return ZERO_LAMPORTS;
+
+      await recordTransfers(tx, [{
+        kind: 'opening_balance',
+        debit: LedgerAccounts.escrow,
+        credit: LedgerAccounts.user(profile.id),
+        amount: missing,
+        reference: profile.id
+      }]);
+      return missing;
+    });
+
+    if (opened > ZERO_LAMPORTS) {
+      written++;
+      console.log(`[Ledger] Opening balance ${toSol(opened)} SOL for ${profile.wallet_address}`);
+    }
+  }
+
+  console.log(`[Ledger] Backfilled ${written} of ${profiles.length} funded profiles`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[Ledger] Backfill failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
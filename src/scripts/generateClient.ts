@@ -0,0 +1,17 @@
+import fs from 'fs';
+import path from 'path';
+import { getApiRoutes } from '../routes';
+import { buildOpenApiDocument } from '../schemas/openapi';
+import { buildAsyncApiDocument } from '../schemas/asyncapi';
+import { renderClientFile, OpenApiDocument, AsyncApiDocument } from '../schemas/clientgen';
+
+// Writes client/src/index.ts - the typed API client package (npm run generate:client)
+const OUTPUT = path.resolve(__dirname, '../../client/src/index.ts');
+
+const openApi = buildOpenApiDocument(getApiRoutes()) as unknown as OpenApiDocument;
+const asyncApi = buildAsyncApiDocument('ws://localhost:3001') as unknown as AsyncApiDocument;
+
+fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+fs.writeFileSync(OUTPUT, renderClientFile(openApi, asyncApi));
+
+console.log(`[Client] Wrote ${Object.keys(openApi.paths).length} paths to ${path.relative(process.cwd(), OUTPUT)}`);
@@ -0,0 +1,12 @@
+import fs from 'fs';
+import path from 'path';
+import { TYPE_SCHEMAS } from '../schemas';
+import { renderTypesFile } from '../schemas/typegen';
+
+// Writes types/api.d.ts for the frontend (npm run generate:types)
+const OUTPUT = path.resolve(__dirname, '../../types/api.d.ts');
+
+fs.mkdirSync(path.dirname(OUTPUT), { recursive: true });
+fs.writeFileSync(OUTPUT, renderTypesFile(TYPE_SCHEMAS));
+
+console.log(`[Types] Wrote ${Object.keys(TYPE_SCHEMAS).length} types to ${path.relative(process.cwd(), OUTPUT)}`);
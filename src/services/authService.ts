@@ -0,0 +1,101 @@
+import { PublicKey } from '@solana/web3.js';
+import prisma from '../lib/prisma';
+import { ErrorCode } from '../lib/errors';
+import {
+  generateNonce,
+  buildSignInMessage,
+  verifyWalletSignature,
+  createSessionToken,
+  SessionClaims,
+  NONCE_TTL_SECONDS
+} from '../lib/siws';
+
+export interface SignInChallenge {
+  nonce: string;
+  message: string;
+  expiresAt: Date;
+}
+
+export interface SignInResult {
+  success: boolean;
+  error?: string;
+  code?: ErrorCode;
+  token?: string;
+  claims?: SessionClaims;
+}
+
+/**
+ * Check a string is a valid Solana address
+ */
+function isValidWalletAddress(walletAddress: string): boolean {
+  try {
+    new PublicKey(walletAddress);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Issue a sign-in nonce and the message the wallet must sign
+ */
+export async function createSignInChallenge(walletAddress: string): Promise<SignInChallenge> {
+  if (!isValidWalletAddress(walletAddress)) {
+    throw new Error('INVALID_WALLET');
+  }
+
+  const nonce = generateNonce();
+  const issuedAt = new Date();
+  const message = buildSignInMessage(walletAddress, nonce, issuedAt);
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_SECONDS * 1000);
+
+  await prisma.authNonce.create({
+    data: {
+      wallet_address: walletAddress,
+      nonce,
+      message,
+      expires_at: expiresAt
+    }
+  });
+
+  // Old nonces are useless once expired
+  await prisma.authNonce.deleteMany({
+    where: { expires_at: { lt: new Date(Date.now() - NONCE_TTL_SECONDS * 1000) } }
+  });
+
+  return { nonce, message, expiresAt };
+}
+
+/**
+ * Verify a signed nonce and issue a session token
+ * Each nonce works once, whether or not the signature checks out
+ */
+export async function completeSignIn(
+  walletAddress: string,
+  nonce: string,
+  signature: string
+): Promise<SignInResult> {
+  const { count } = await prisma.authNonce.updateMany({
+    where: {
+      nonce,
+      wallet_address: walletAddress,
+      used_at: null,
+      expires_at: { gt: new Date() }
+    },
+    data: { used_at: new Date() }
+  });
+
+  if (count === 0) {
+    return { success: false, error: 'Nonce is invalid, expired or already used', code: 'INVALID_NONCE' };
+  }
+
+  const record = await prisma.authNonce.findUnique({ where: { nonce } });
+  if (!record || !verifyWalletSignature(walletAddress, record.message, signature)) {
+    return { success: false, error: 'Invalid signature', code: 'INVALID_SIGNATURE' };
+  }
+
+  const { token, claims } = createSessionToken(walletAddress);
+
+  console.log(`[Auth] Wallet sign-in: ${walletAddress}`);
+  return { success: true, token, claims };
+}
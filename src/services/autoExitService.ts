@@ -0,0 +1,93 @@
+import prisma from '../lib/prisma';
+import { Profile } from '@prisma/client';
+import { ZERO_LAMPORTS, toLamports, toSol } from '../lib/lamports';
+import { executeSell, TradeResult } from './tradeService';
+
+export interface AutoExitResult {
+  profileId: string;
+  walletAddress: string;
+  username: string | null;
+  tokenBalance: number;
+  result: TradeResult;
+}
+
+/**
+ * Opt a profile in or out of auto-exit
+ * Opting in again keeps the original opt-in time, which sets the player's place in the sell order
+ */
+export async function setAutoExit(profileId: string, enabled: boolean): Promise<Profile> {
+  const profile = await prisma.profile.findUnique({
+    where: { id: profileId }
+  });
+
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+
+  if (profile.auto_exit_enabled === enabled) {
+    return profile;
+  }
+
+  const updated = await prisma.profile.update({
+    where: { id: profileId },
+    data: {
+      auto_exit_enabled: enabled,
+      auto_exit_at: enabled ? new Date() : null
+    }
+  });
+
+  console.log(`[AutoExit] Profile ${profileId} ${enabled ? 'opted in' : 'opted out'}`);
+  return updated;
+}
+
+/**
+ * Sell every opted-in player's remaining tokens through the normal sell path
+ * Players go in opt-in order (earliest first, profile id breaks ties) so the result is deterministic
+ */
+export async function runAutoExit(roundId: string): Promise<AutoExitResult[]> {
+  const positions = await prisma.playerPosition.findMany({
+    where: {
+      round_id: roundId,
+      token_balance: { gt: 0 },
+      profile: { auto_exit_enabled: true }
+    },
+    include: {
+      profile: {
+        select: { username: true, wallet_address: true, auto_exit_at: true }
+      }
+    }
+  });
+
+  positions.sort((a, b) => {
+    const aTime = a.profile.auto_exit_at?.getTime() ?? 0;
+    const bTime = b.profile.auto_exit_at?.getTime() ?? 0;
+    return aTime !== bTime ? aTime - bTime : a.profile_id.localeCompare(b.profile_id);
+  });
+
+  const results: AutoExitResult[] = [];
+
+  for (const position of positions) {
+    const tokenBalance = toLamports(position.token_balance);
+    if (tokenBalance <= ZERO_LAMPORTS) {
+      continue;
+    }
+
+    const result = await executeSell(position.profile_id, roundId, toSol(tokenBalance));
+
+    if (result.success) {
+      console.log(`[AutoExit] Sold ${toSol(tokenBalance)} tokens for ${position.profile.wallet_address}`);
+    } else {
+      console.error(`[AutoExit] Sell failed for ${position.profile.wallet_address}: ${result.error}`);
+    }
+
+    results.push({
+      profileId: position.profile_id,
+      walletAddress: position.profile.wallet_address,
+      username: position.profile.username,
+      tokenBalance: toSol(tokenBalance),
+      result
+    });
+  }
+
+  return results;
+}
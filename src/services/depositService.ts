@@ -0,0 +1,348 @@
+import { Asset, DepositHistory, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { SolanaGateway, TransferResult, rpcGateway, getEscrowPublicKey } from '../lib/solana';
+import { Lamports, ZERO_LAMPORTS, toLamports, toSol, lamportsToDecimal } from '../lib/lamports';
+import { ASSETS, fromChainUnits, getBalance, balanceChange } from '../lib/assets';
+import { sendBalanceUpdate } from '../websocket/broadcast';
+import { recordTransfers, LedgerAccounts } from './ledgerService';
+
+/**
+ * Deposit Confirmation
+ *
+ * POST /api/deposit/confirm only records the transaction as a pending deposit.
+ * A background worker polls pending deposits, checks each transaction on chain
+ * (succeeded, sent by the depositing wallet, paid the escrow about the claimed
+ * amount) and credits exactly what the escrow received. Deposits whose
+ * transaction never shows up are marked failed after DEPOSIT_TIMEOUT_MINUTES.
+ * The player hears about the result through BALANCE_UPDATE.
+ *
+ * tx_signature is unique, so a deposit is credited once whether it arrives
+ * here or through the escrow watcher (escrowWatcher.ts).
+ *
+ * USDC deposits are SPL transfers to the escrow's USDC token account - the
+ * amount received is read from the transaction's token balances instead.
+ */
+
+const POLL_INTERVAL = Number(process.env.DEPOSIT_POLL_INTERVAL_MS) || 5000;
+export const DEPOSIT_TIMEOUT_MINUTES = Number(process.env.DEPOSIT_TIMEOUT_MINUTES) || 10;
+// Allowed gap between the claimed amount and what arrived (client-side rounding)
+const AMOUNT_TOLERANCE = toLamports(0.001);
+
+let pollInterval: NodeJS.Timeout | null = null;
+let polling = false;
+let workerGateway: SolanaGateway = rpcGateway;
+
+export interface SubmittedDeposit {
+  deposit: DepositHistory;
+  balance: string;     // Balance of the deposit's asset after the call, decimal string
+  duplicate: boolean;  // The transaction had already been submitted
+}
+
+type DepositCheck =
+  | { status: 'not_found' }
+  | { status: 'rejected'; error: string }
+  | { status: 'verified'; received: Lamports };
+
+/**
+ * Record a deposit transaction for the worker to verify
+ * Resubmitting a pending or confirmed signature returns the existing record;
+ * a failed one is queued again. The early check goes through `solana`.
+ */
+export async function submitDeposit(
+  walletAddress: string,
+  txSignature: string,
+  amount: number,
+  asset: Asset = 'sol',
+  solana: SolanaGateway = workerGateway
+): Promise<SubmittedDeposit> {
+  // Use upsert to avoid race conditions
+  const profile = await prisma.profile.upsert({
+    where: { wallet_address: walletAddress },
+    update: {},
+    create: {
+      wallet_address: walletAddress,
+      deposited_balance: 0,
+      total_wagered: 0,
+      total_won: 0,
+      games_played: 0
+    }
+  });
+
+  const balance = getBalance(profile, asset).toString();
+
+  const pending = {
+    profile_id: profile.id,
+    asset,
+    amount: lamportsToDecimal(toLamports(amount)),
+    status: 'pending' as const,
+    error: null,
+    created_at: new Date()   // Restarts the timeout for a retried deposit
+  };
+
+  let result: { deposit: DepositHistory; duplicate: boolean };
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      const existing = await tx.depositHistory.findUnique({ where: { tx_signature: txSignature } });
+      if (existing && existing.tx_type !== 'deposit') {
+        throw new Error('TX_NOT_TO_ESCROW');
+      }
+      if (existing && existing.status !== 'failed') {
+        return { deposit: existing, duplicate: true };
+      }
+
+      const deposit = existing
+        ? await tx.depositHistory.update({ where: { id: existing.id }, data: pending })
+        : await tx.depositHistory.create({ data: { ...pending, tx_type: 'deposit', tx_signature: txSignature } });
+      return { deposit, duplicate: false };
+    });
+  } catch (error) {
+    // Lost the race to a concurrent submit (or the escrow watcher) with the same signature
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const winner = await prisma.depositHistory.findUnique({ where: { tx_signature: txSignature } });
+      if (winner) {
+        return { deposit: winner, duplicate: true, balance };
+      }
+    }
+    throw error;
+  }
+
+  if (!result.duplicate) {
+    console.log(`[Deposit] Pending ${amount} ${ASSETS[asset].symbol} from ${walletAddress}, tx: ${txSignature}`);
+    checkPendingDepositsSoon(solana);
+  }
+
+  return { ...result, balance };
+}
+
+/**
+ * What a transaction sent the escrow in an asset, in internal units
+ */
+async function getEscrowTransfer(solana: SolanaGateway, txSignature: string, asset: Asset): Promise<TransferResult | null> {
+  const escrow = getEscrowPublicKey().toBase58();
+  const { mint } = ASSETS[asset];
+  if (!mint) {
+    return solana.getTransfer(txSignature, escrow);
+  }
+
+  const transfer = await solana.getTokenTransfer(txSignature, escrow, mint.toBase58());
+  return transfer && {
+    ...transfer,
+    received: transfer.received === null ? null : fromChainUnits(asset, transfer.received)
+  };
+}
+
+/**
+ * Check a deposit transaction against the escrow wallet and the depositing wallet
+ */
+async function checkDeposit(
+  solana: SolanaGateway,
+  txSignature: string,
+  claimed: Lamports,
+  walletAddress: string,
+  asset: Asset
+): Promise<DepositCheck> {
+  const transfer = await getEscrowTransfer(solana, txSignature, asset);
+  if (!transfer) {
+    return { status: 'not_found' };
+  }
+
+  if (!transfer.succeeded) {
+    return { status: 'rejected', error: 'Transaction failed on chain' };
+  }
+
+  // The fee payer must be the wallet being credited
+  if (transfer.sender !== walletAddress) {
+    return { status: 'rejected', error: 'Transaction sender does not match wallet_address' };
+  }
+
+  if (transfer.received === null || transfer.received <= ZERO_LAMPORTS) {
+    return { status: 'rejected', error: 'Transaction is not a transfer to the escrow wallet' };
+  }
+
+  const difference = transfer.received > claimed ? transfer.received - claimed : claimed - transfer.received;
+  if (difference > AMOUNT_TOLERANCE) {
+    const { symbol } = ASSETS[asset];
+    return {
+      status: 'rejected',
+      error: `Amount mismatch. Expected ${toSol(claimed)} ${symbol}, received ${toSol(transfer.received)} ${symbol}`
+    };
+  }
+
+  return { status: 'verified', received: transfer.received };
+}
+
+/**
+ * Credit a deposit transaction to a player exactly once
+ * Confirms the record for the signature (moving it to this player if someone
+ * else submitted it) or creates one. Returns false if it was already credited.
+ */
+export async function creditDeposit(
+  txSignature: string,
+  profileId: string,
+  walletAddress: string,
+  received: Lamports,
+  asset: Asset = 'sol'
+): Promise<boolean> {
+  const balance = await prisma.$transaction(async (tx) => {
+    const confirmed = {
+      profile_id: profileId,
+      asset,
+      amount: lamportsToDecimal(received),
+      status: 'confirmed' as const,
+      error: null
+    };
+
+    const existing = await tx.depositHistory.findUnique({ where: { tx_signature: txSignature } });
+    let depositId: string;
+    if (existing) {
+      if (existing.tx_type !== 'deposit') {
+        return null;
+      }
+      const { count } = await tx.depositHistory.updateMany({
+        where: { id: existing.id, status: { not: 'confirmed' } },
+        data: confirmed
+      });
+      if (count === 0) {
+        return null;
+      }
+      depositId = existing.id;
+    } else {
+      const created = await tx.depositHistory.create({
+        data: { ...confirmed, tx_type: 'deposit', tx_signature: txSignature }
+      });
+      depositId = created.id;
+    }
+
+    // Credit exactly what arrived on chain, not the client's claimed amount
+    const profile = await tx.profile.update({
+      where: { id: profileId },
+      data: balanceChange(asset, { increment: lamportsToDecimal(received) })
+    });
+
+    await recordTransfers(tx, [{
+      kind: 'deposit',
+      debit: LedgerAccounts.escrow,
+      credit: LedgerAccounts.user(profileId),
+      amount: received,
+      reference: depositId
+    }], asset);
+
+    return getBalance(profile, asset);
+  });
+
+  if (balance === null) {
+    return false;
+  }
+
+  console.log(`[Deposit] Credited ${toSol(received)} ${ASSETS[asset].symbol} to ${walletAddress}, tx: ${txSignature}`);
+  sendBalanceUpdate(walletAddress, {
+    asset,
+    deposited_balance: Number(balance),
+    change: toSol(received),
+    reason: 'Deposit confirmed'
+  });
+  return true;
+}
+
+/**
+ * Mark a pending deposit failed and tell the player why
+ */
+async function failDeposit(deposit: DepositHistory, walletAddress: string, error: string): Promise<void> {
+  const { count } = await prisma.depositHistory.updateMany({
+    where: { id: deposit.id, status: 'pending' },
+    data: { status: 'failed', error }
+  });
+  if (count === 0) {
+    return;
+  }
+
+  console.log(`[Deposit] Rejected tx ${deposit.tx_signature} from ${walletAddress}: ${error}`);
+
+  const profile = await prisma.profile.findUnique({ where: { id: deposit.profile_id } });
+  sendBalanceUpdate(walletAddress, {
+    asset: deposit.asset,
+    deposited_balance: Number(profile ? getBalance(profile, deposit.asset) : 0),
+    change: 0,
+    reason: `Deposit failed: ${error}`
+  });
+}
+
+/**
+ * Verify every pending deposit once
+ */
+export async function processPendingDeposits(solana: SolanaGateway = workerGateway): Promise<void> {
+  const pending = await prisma.depositHistory.findMany({
+    where: { tx_type: 'deposit', status: 'pending' },
+    include: { profile: { select: { wallet_address: true } } },
+    orderBy: { created_at: 'asc' }
+  });
+
+  const staleBefore = Date.now() - DEPOSIT_TIMEOUT_MINUTES * 60 * 1000;
+
+  for (const { profile, ...deposit } of pending) {
+    // Deposits always carry their signature - only withdrawals start without one
+    const txSignature = deposit.tx_signature as string;
+
+    try {
+      const check = await checkDeposit(solana, txSignature, toLamports(deposit.amount), profile.wallet_address, deposit.asset);
+
+      if (check.status === 'verified') {
+        await creditDeposit(txSignature, deposit.profile_id, profile.wallet_address, check.received, deposit.asset);
+      } else if (check.status === 'rejected') {
+        await failDeposit(deposit, profile.wallet_address, check.error);
+      } else if (deposit.created_at.getTime() < staleBefore) {
+        await failDeposit(deposit, profile.wallet_address, `Transaction not confirmed within ${DEPOSIT_TIMEOUT_MINUTES} minutes`);
+      }
+    } catch (error) {
+      // RPC hiccup - try again on the next poll
+      console.error(`[Deposit] Error checking tx ${deposit.tx_signature}:`, error);
+    }
+  }
+}
+
+// One poll at a time - a slow RPC shouldn't stack up overlapping runs
+async function poll(solana: SolanaGateway = workerGateway): Promise<void> {
+  if (polling) {
+    return;
+  }
+  polling = true;
+  try {
+    await processPendingDeposits(solana);
+  } catch (error) {
+    console.error('[Deposit] Poll failed:', error);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Run a poll now instead of waiting for the next interval (after a new deposit)
+ */
+function checkPendingDepositsSoon(solana: SolanaGateway): void {
+  if (pollInterval) {
+    setImmediate(() => { void poll(solana); });
+  }
+}
+
+/**
+ * Start the pending deposit worker
+ */
+export function startDepositWorker(solana: SolanaGateway = rpcGateway) {
+  if (pollInterval) {
+    return;
+  }
+
+  workerGateway = solana;
+  pollInterval = setInterval(() => { void poll(); }, POLL_INTERVAL);
+  void poll();
+}
+
+/**
+ * Stop the pending deposit worker
+ */
+export function stopDepositWorker() {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+}
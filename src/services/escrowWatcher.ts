@@ -0,0 +1,231 @@
+import { Asset, Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import {
+  SolanaGateway,
+  SignatureInfo,
+  rpcGateway,
+  getEscrowPublicKey,
+  getAssociatedTokenAddress
+} from '../lib/solana';
+import { Lamports, ZERO_LAMPORTS, toSol } from '../lib/lamports';
+import { ASSETS, fromChainUnits } from '../lib/assets';
+import { creditDeposit } from './depositService';
+
+/**
+ * Escrow Watcher
+ *
+ * Finds deposits nobody confirmed through /api/deposit/confirm (e.g. the player
+ * closed the tab after sending). Pages through the escrow wallet's signatures
+ * from a cursor stored in sync_cursors, parses the SystemProgram transfers into
+ * the escrow and credits the profile whose wallet sent them. Crediting goes
+ * through creditDeposit, keyed by the unique tx_signature, so a deposit the
+ * confirm route already handled is never credited twice.
+ *
+ * SPL assets (USDC) are a second feed: the signatures of the escrow's token
+ * account, its own cursor, and SPL Token transfers into that account credited
+ * to the wallet that signed them.
+ */
+
+const POLL_INTERVAL = Number(process.env.ESCROW_WATCH_INTERVAL_MS) || 15000;
+const PAGE_SIZE = 100;
+const CURSOR_NAME = 'escrow_watcher';
+
+let watchInterval: NodeJS.Timeout | null = null;
+let scanning = false;
+
+type ScanResult = 'credited' | 'skipped' | 'not_ready';
+
+// One asset's deposits: the account they arrive at and how to read them from a transaction
+interface DepositFeed {
+  asset: Asset;
+  cursorName: string;
+  address: string;
+  // Amount received from each sender (internal units), null until the transaction is confirmed
+  incoming(solana: SolanaGateway, signature: string): Promise<Map<string, Lamports> | null>;
+}
+
+/**
+ * SOL to the escrow wallet and, for every SPL asset, tokens to the escrow's token account
+ */
+function getDepositFeeds(): DepositFeed[] {
+  const escrowKey = getEscrowPublicKey();
+  const escrow = escrowKey.toBase58();
+
+  return (Object.keys(ASSETS) as Asset[]).map((asset): DepositFeed => {
+    const { mint } = ASSETS[asset];
+    if (!mint) {
+      return {
+        asset,
+        cursorName: CURSOR_NAME,
+        address: escrow,
+        async incoming(solana, signature) {
+          const transfers = await solana.getSystemTransfers(signature);
+          if (!transfers) return null;
+
+          // Incoming only - transfers out of the escrow are withdrawals
+          const bySender = new Map<string, Lamports>();
+          for (const transfer of transfers) {
+            if (transfer.destination !== escrow || transfer.source === escrow) continue;
+            bySender.set(transfer.source, (bySender.get(transfer.source) || ZERO_LAMPORTS) + transfer.lamports);
+          }
+          return bySender;
+        }
+      };
+    }
+
+    const tokenAccount = getAssociatedTokenAddress(escrowKey, mint).toBase58();
+    return {
+      asset,
+      cursorName: `${CURSOR_NAME}:${asset}`,
+      address: tokenAccount,
+      async incoming(solana, signature) {
+        const transfers = await solana.getTokenTransfers(signature);
+        if (!transfers) return null;
+
+        // The escrow signing means the tokens are its own (a withdrawal or a self transfer)
+        const bySender = new Map<string, Lamports>();
+        for (const transfer of transfers) {
+          if (transfer.destination !== tokenAccount || transfer.authority === escrow) continue;
+          const amount = fromChainUnits(asset, transfer.amount);
+          bySender.set(transfer.authority, (bySender.get(transfer.authority) || ZERO_LAMPORTS) + amount);
+        }
+        return bySender;
+      }
+    };
+  });
+}
+
+async function saveCursor(name: string, signature: string): Promise<void> {
+  await prisma.syncCursor.upsert({
+    where: { name },
+    update: { value: signature },
+    create: { name, value: signature }
+  });
+}
+
+/**
+ * Credit the deposits made by one transaction
+ */
+async function scanTransaction(solana: SolanaGateway, feed: DepositFeed, signature: string): Promise<ScanResult> {
+  const bySender = await feed.incoming(solana, signature);
+  if (!bySender) {
+    return 'not_ready';
+  }
+
+  if (bySender.size === 0) {
+    return 'skipped';
+  }
+  if (bySender.size > 1) {
+    console.error(`[EscrowWatcher] tx ${signature} has transfers from ${bySender.size} senders - not credited, needs manual review`);
+    return 'skipped';
+  }
+
+  const [[sender, received]] = Array.from(bySender.entries());
+  const profile = await prisma.profile.findUnique({ where: { wallet_address: sender } });
+  if (!profile) {
+    console.log(`[EscrowWatcher] ${toSol(received)} ${ASSETS[feed.asset].symbol} from unknown wallet ${sender} (tx ${signature}) - not credited`);
+    return 'skipped';
+  }
+
+  try {
+    return await creditDeposit(signature, profile.id, sender, received, feed.asset) ? 'credited' : 'skipped';
+  } catch (error) {
+    // The confirm route recorded the signature at the same moment - the deposit worker settles it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return 'skipped';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Process every escrow transaction since each feed's cursor, oldest first
+ * Returns the number of deposits credited
+ */
+export async function scanEscrow(solana: SolanaGateway = rpcGateway): Promise<number> {
+  let credited = 0;
+  for (const feed of getDepositFeeds()) {
+    credited += await scanFeed(solana, feed);
+  }
+  return credited;
+}
+
+/**
+ * Process one feed's transactions since its cursor
+ */
+async function scanFeed(solana: SolanaGateway, feed: DepositFeed): Promise<number> {
+  const cursor = await prisma.syncCursor.findUnique({ where: { name: feed.cursorName } });
+
+  if (!cursor) {
+    // First run - start from now; older deposits can still be sent to /api/deposit/confirm
+    const [latest] = await solana.getSignatures(feed.address, { limit: 1 });
+    if (latest) {
+      await saveCursor(feed.cursorName, latest.signature);
+      console.log(`[EscrowWatcher] Starting ${feed.asset} from tx ${latest.signature}`);
+    }
+    return 0;
+  }
+
+  // Page back from the newest transaction to the cursor
+  const newer: SignatureInfo[] = [];
+  let before: string | undefined;
+  for (;;) {
+    const page = await solana.getSignatures(feed.address, { until: cursor.value, before, limit: PAGE_SIZE });
+    newer.push(...page);
+    if (page.length < PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+
+  // Oldest first, moving the cursor after each one so a restart picks up where this stopped
+  let credited = 0;
+  for (const info of newer.reverse()) {
+    if (!info.failed) {
+      const result = await scanTransaction(solana, feed, info.signature);
+      if (result === 'not_ready') break;
+      if (result === 'credited') credited++;
+    }
+    await saveCursor(feed.cursorName, info.signature);
+  }
+
+  if (credited > 0) {
+    console.log(`[EscrowWatcher] Credited ${credited} ${feed.asset} deposit(s) from ${newer.length} escrow transaction(s)`);
+  }
+  return credited;
+}
+
+/**
+ * Start watching the escrow wallet
+ */
+export function startEscrowWatcher(solana: SolanaGateway = rpcGateway) {
+  if (watchInterval) {
+    return;
+  }
+
+  // One scan at a time - a slow RPC shouldn't stack up overlapping runs
+  const run = async () => {
+    if (scanning) {
+      return;
+    }
+    scanning = true;
+    try {
+      await scanEscrow(solana);
+    } catch (error) {
+      console.error('[EscrowWatcher] Scan failed:', error);
+    } finally {
+      scanning = false;
+    }
+  };
+
+  watchInterval = setInterval(() => { void run(); }, POLL_INTERVAL);
+  void run();
+}
+
+/**
+ * Stop watching the escrow wallet
+ */
+export function stopEscrowWatcher() {
+  if (watchInterval) {
+    clearInterval(watchInterval);
+    watchInterval = null;
+  }
+}
@@ -0,0 +1,350 @@
+import { Asset, FeeSweep, FeeSweepStatus } from '@prisma/client';
+import prisma from '../lib/prisma';
+import {
+  SolanaGateway,
+  rpcGateway,
+  getHousePublicKey,
+  signEscrowTransfer,
+  signEscrowTokenTransfer
+} from '../lib/solana';
+import { Lamports, ZERO_LAMPORTS, toLamports, toSol, lamportsToDecimal } from '../lib/lamports';
+import { ASSETS, toChainUnits, truncateToChainPrecision } from '../lib/assets';
+import { recordTransfers, getAccountBalance, LedgerAccounts } from './ledgerService';
+
+/**
+ * Fee Sweeping
+ *
+ * Trading fees stay in the escrow wallet next to player funds until they are
+ * swept. Every FEE_SWEEP_INTERVAL_MINUTES, per asset, the completed rounds no
+ * sweep covers yet are claimed by a new fee_sweeps row (game_rounds.fee_sweep_id)
+ * and their fees sent from escrow to the house wallet in one transfer, along
+ * with any dust earlier sweeps left on house_fees.
+ * Claiming only takes rounds whose fee_sweep_id is still null, so a retry or a
+ * second server can't sweep a round twice.
+ *
+ * The transfer moves like a withdrawal - requested -> signed -> submitted ->
+ * confirmed | failed - with the signed transaction stored before it is sent,
+ * so rebroadcasts reuse the same signature. A sweep that can no longer land
+ * is failed: the ledger entry is reversed and its rounds are released for the
+ * next sweep. One sweep per asset is in flight at a time.
+ */
+
+export const FEE_SWEEP_INTERVAL = (Number(process.env.FEE_SWEEP_INTERVAL_MINUTES) || 60) * 60 * 1000;
+// Smallest sweep worth a transaction (FEE_SWEEP_MIN_<SYMBOL>) - smaller fees wait for the next run
+export const FEE_SWEEP_MINIMUMS: Record<Asset, Lamports> = {
+  sol: toLamports(process.env.FEE_SWEEP_MIN_SOL || '0.01'),
+  usdc: toLamports(process.env.FEE_SWEEP_MIN_USDC || '1')
+};
+// Rounds covered by one sweep, oldest first
+const ROUNDS_PER_SWEEP = 200;
+// How long a run waits for its transfer to land before leaving it to the next run
+const SWEEP_WAIT = 30000;
+const STATUS_POLL = 2000;
+
+const UNFINISHED: FeeSweepStatus[] = ['requested', 'signed', 'submitted'];
+
+let sweepInterval: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Claim the unswept completed rounds of an asset and take their fees off house_fees
+ * Returns null when there is nothing (or too little) to sweep
+ */
+async function createSweep(asset: Asset): Promise<FeeSweep | null> {
+  const destination = getHousePublicKey().toBase58();
+
+  return prisma.$transaction(async (tx) => {
+    const rounds = await tx.gameRound.findMany({
+      where: {
+        status: 'completed',
+        quote_asset: asset,
+        fee_sweep_id: null,
+        trades: { some: { fee_amount: { gt: 0 } } }
+      },
+      orderBy: { ended_at: 'asc' },
+      take: ROUNDS_PER_SWEEP,
+      select: { id: true }
+    });
+    if (rounds.length === 0) {
+      return null;
+    }
+
+    // house_fees holds these rounds' fees, the fees of rounds no sweep has claimed
+    // (active ones, or past ROUNDS_PER_SWEEP) and the dust earlier sweeps couldn't send.
+    // Everything but the unclaimed rounds' fees goes, so the dust rides along
+    const roundIds = rounds.map(round => round.id);
+    const [held, unclaimed] = await Promise.all([
+      getAccountBalance(LedgerAccounts.houseFees, asset, tx),
+      tx.trade.aggregate({
+        where: { round: { quote_asset: asset, fee_sweep_id: null, id: { notIn: roundIds } } },
+        _sum: { fee_amount: true }
+      })
+    ]);
+    const fees = held - (unclaimed._sum.fee_amount ? toLamports(unclaimed._sum.fee_amount) : ZERO_LAMPORTS);
+    if (fees <= ZERO_LAMPORTS) {
+      return null;
+    }
+    // Only what the asset can carry on chain - the dust stays on house_fees for the next sweep
+    const amount = truncateToChainPrecision(asset, fees);
+    if (amount === ZERO_LAMPORTS || amount < FEE_SWEEP_MINIMUMS[asset]) {
+      return null;
+    }
+
+    const sweep = await tx.feeSweep.create({
+      data: {
+        asset,
+        amount: lamportsToDecimal(amount),
+        destination,
+        round_count: rounds.length
+      }
+    });
+
+    const { count } = await tx.gameRound.updateMany({
+      where: { id: { in: roundIds }, fee_sweep_id: null },
+      data: { fee_sweep_id: sweep.id }
+    });
+    if (count !== roundIds.length) {
+      // Another sweep claimed some of them first - roll back and try next run
+      throw new Error('FEE_SWEEP_CONFLICT');
+    }
+
+    await recordTransfers(tx, [{
+      kind: 'fee_sweep',
+      debit: LedgerAccounts.houseFees,
+      credit: LedgerAccounts.escrow,
+      amount,
+      reference: sweep.id
+    }], asset);
+
+    return sweep;
+  });
+}
+
+/**
+ * requested -> signed
+ * Nothing has been broadcast yet, so a failure here is safe to undo
+ */
+async function signSweep(sweep: FeeSweep, solana: SolanaGateway): Promise<FeeSweep> {
+  let signed: { signature: string; serialized: string };
+  let lastValidBlockHeight: number;
+  try {
+    const latest = await solana.getLatestBlockhash();
+    const { mint, decimals } = ASSETS[sweep.asset];
+    const amount = toLamports(sweep.amount);
+    signed = mint
+      ? signEscrowTokenTransfer(sweep.destination, mint, toChainUnits(sweep.asset, amount), decimals, latest.blockhash)
+      : signEscrowTransfer(sweep.destination, amount, latest.blockhash);
+    lastValidBlockHeight = latest.lastValidBlockHeight;
+  } catch (error) {
+    return failSweep(sweep, `Could not sign transfer: ${(error as Error).message}`, ['requested']);
+  }
+
+  return prisma.feeSweep.update({
+    where: { id: sweep.id },
+    data: {
+      status: 'signed',
+      signed_transaction: signed.serialized,
+      tx_signature: signed.signature,
+      last_valid_block_height: BigInt(lastValidBlockHeight)
+    }
+  });
+}
+
+/**
+ * Send the stored transaction - same bytes every time, so it can only land once
+ */
+async function broadcastSweep(sweep: FeeSweep, solana: SolanaGateway): Promise<FeeSweep> {
+  try {
+    await solana.sendTransaction(sweep.signed_transaction as string);
+  } catch (error) {
+    // Not necessarily lost (e.g. already processed) - the signature check decides
+    console.error(`[FeeSweep] Broadcast of ${sweep.tx_signature} failed:`, (error as Error).message);
+    return prisma.feeSweep.update({
+      where: { id: sweep.id },
+      data: { attempts: { increment: 1 }, error: (error as Error).message }
+    });
+  }
+
+  return prisma.feeSweep.update({
+    where: { id: sweep.id },
+    data: { status: 'submitted', attempts: { increment: 1 }, error: null }
+  });
+}
+
+/**
+ * Has the signed transaction landed, failed, or expired unseen?
+ */
+async function checkSweep(sweep: FeeSweep, solana: SolanaGateway): Promise<'confirmed' | 'failed' | 'expired' | 'pending'> {
+  // Height first: past the blockhash with no signature means it never lands
+  const height = await solana.getBlockHeight();
+  const state = await solana.getSignatureState(sweep.tx_signature as string);
+  if (state !== 'pending') {
+    return state;
+  }
+  return BigInt(height) > (sweep.last_valid_block_height as bigint) ? 'expired' : 'pending';
+}
+
+/**
+ * Put the fees back on house_fees and release the rounds - only once nothing can still land
+ * A no-op unless the sweep is still in one of the `from` states
+ */
+async function failSweep(sweep: FeeSweep, reason: string, from: FeeSweepStatus[] = UNFINISHED): Promise<FeeSweep> {
+  const amount = toLamports(sweep.amount);
+
+  const failed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.feeSweep.updateMany({
+      where: { id: sweep.id, status: { in: from } },
+      data: { status: 'failed', error: reason }
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.gameRound.updateMany({
+      where: { fee_sweep_id: sweep.id },
+      data: { fee_sweep_id: null }
+    });
+
+    await recordTransfers(tx, [{
+      kind: 'fee_sweep_refund',
+      debit: LedgerAccounts.escrow,
+      credit: LedgerAccounts.houseFees,
+      amount,
+      reference: sweep.id
+    }], sweep.asset);
+    return true;
+  });
+
+  if (failed) {
+    console.error(`[FeeSweep] ${toSol(amount)} ${ASSETS[sweep.asset].symbol} sweep ${sweep.id} failed: ${reason} - rounds released`);
+  }
+  return prisma.feeSweep.findUniqueOrThrow({ where: { id: sweep.id } });
+}
+
+/**
+ * Drive a sweep as far as it can go in SWEEP_WAIT - the next run picks up where this stops
+ */
+async function processSweep(sweep: FeeSweep, solana: SolanaGateway): Promise<FeeSweep> {
+  const deadline = Date.now() + SWEEP_WAIT;
+
+  if (sweep.status === 'requested') {
+    sweep = await signSweep(sweep, solana);
+  }
+  if (sweep.status === 'signed' && sweep.attempts === 0) {
+    sweep = await broadcastSweep(sweep, solana);
+  }
+
+  while (sweep.status === 'signed' || sweep.status === 'submitted') {
+    const outcome = await checkSweep(sweep, solana);
+    if (outcome === 'confirmed') {
+      const confirmed = await prisma.feeSweep.update({
+        where: { id: sweep.id },
+        data: { status: 'confirmed', error: null }
+      });
+      console.log(`[FeeSweep] Swept ${toSol(toLamports(sweep.amount))} ${ASSETS[sweep.asset].symbol} from ${sweep.round_count} round(s) to ${sweep.destination}, tx: ${sweep.tx_signature}`);
+      return confirmed;
+    }
+    if (outcome === 'failed') {
+      return failSweep(sweep, 'Transaction failed on chain');
+    }
+    if (outcome === 'expired') {
+      return failSweep(sweep, 'Transaction expired without landing');
+    }
+
+    if (Date.now() >= deadline) {
+      break;
+    }
+    await sleep(STATUS_POLL);
+    sweep = await broadcastSweep(sweep, solana);
+  }
+
+  return sweep;
+}
+
+/**
+ * Finish unfinished sweeps, then start one for every asset with none in flight
+ * Returns the sweeps this run touched. Throws FEE_SWEEP_RUNNING if a run is in progress.
+ */
+export async function runFeeSweeps(solana: SolanaGateway = rpcGateway): Promise<FeeSweep[]> {
+  if (sweeping) {
+    throw new Error('FEE_SWEEP_RUNNING');
+  }
+  sweeping = true;
+
+  try {
+    const touched: FeeSweep[] = [];
+    const unfinished = await prisma.feeSweep.findMany({
+      where: { status: { in: UNFINISHED } },
+      orderBy: { created_at: 'asc' }
+    });
+    for (const sweep of unfinished) {
+      touched.push(await processSweep(sweep, solana));
+    }
+
+    for (const asset of Object.keys(ASSETS) as Asset[]) {
+      if (touched.some(sweep => sweep.asset === asset && UNFINISHED.includes(sweep.status))) {
+        continue;
+      }
+      try {
+        const sweep = await createSweep(asset);
+        if (sweep) {
+          touched.push(await processSweep(sweep, solana));
+        }
+      } catch (error) {
+        if ((error as Error).message === 'FEE_SWEEP_CONFLICT') continue;
+        throw error;
+      }
+    }
+    return touched;
+  } finally {
+    sweeping = false;
+  }
+}
+
+/**
+ * Recent sweeps, newest first, with the rounds each one still covers
+ */
+export async function listFeeSweeps(limit = 50) {
+  return prisma.feeSweep.findMany({
+    include: { rounds: { select: { id: true } } },
+    orderBy: { created_at: 'desc' },
+    take: limit
+  });
+}
+
+/**
+ * Start the scheduled fee sweep - off when HOUSE_WALLET_ADDRESS is unset
+ */
+export function startFeeSweeper(solana: SolanaGateway = rpcGateway) {
+  if (sweepInterval) {
+    return;
+  }
+  if (!process.env.HOUSE_WALLET_ADDRESS) {
+    console.log('[FeeSweep] HOUSE_WALLET_ADDRESS not set - fees stay in escrow');
+    return;
+  }
+
+  const run = () => {
+    if (sweeping) {
+      return;
+    }
+    runFeeSweeps(solana).catch(error => {
+      console.error('[FeeSweep] Run failed:', error);
+    });
+  };
+
+  sweepInterval = setInterval(run, FEE_SWEEP_INTERVAL);
+  run();
+}
+
+/**
+ * Stop the scheduled fee sweep
+ */
+export function stopFeeSweeper() {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+}
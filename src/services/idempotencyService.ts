@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+// Idempotency configuration
+export const IDEMPOTENCY_TTL_HOURS = Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24;
+// How long a running request holds its key - past this, a crashed request's key can be taken over
+export const IDEMPOTENCY_LEASE_SECONDS = Number(process.env.IDEMPOTENCY_LEASE_SECONDS) || 120;
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour
+export const MAX_KEY_LENGTH = 255;
+
+let cleanupInterval: NodeJS.Timeout | null = null;
+
+export type IdempotencyState =
+  | { state: 'new'; id: string }
+  | { state: 'replay'; status: number; body: unknown }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+/**
+ * Fingerprint a request so a reused key with a different body can be rejected
+ */
+export function hashRequest(method: string, path: string, body: unknown): string {
+  return createHash('sha256')
+    .update(`${method} ${path} ${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Claim an idempotency key, or find out what happened to the request that already claimed it
+ */
+export async function beginIdempotentRequest(
+  walletAddress: string,
+  scope: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyState> {
+  const where = { wallet_address_scope_key: { wallet_address: walletAddress, scope, key } };
+
+  const existing = await prisma.idempotencyKey.findUnique({ where });
+
+  // An expired key the cleanup job hasn't reached yet is free to reuse - for a
+  // key still in_progress that means its lease lapsed (the request never finished)
+  if (existing && existing.expires_at <= new Date()) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+  } else if (existing) {
+    return describeExisting(existing, requestHash);
+  }
+
+  try {
+    const created = await prisma.idempotencyKey.create({
+      data: {
+        key,
+        scope,
+        wallet_address: walletAddress,
+        request_hash: requestHash,
+        expires_at: new Date(Date.now() + IDEMPOTENCY_LEASE_SECONDS * 1000)
+      }
+    });
+    return { state: 'new', id: created.id };
+  } catch (error) {
+    // Lost the race to a concurrent request with the same key
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const winner = await prisma.idempotencyKey.findUnique({ where });
+      if (winner) {
+        return describeExisting(winner, requestHash);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Map an existing key record to the response a retry should get
+ */
+function describeExisting(
+  record: { request_hash: string; status: string; response_status: number | null; response_body: Prisma.JsonValue },
+  requestHash: string
+): IdempotencyState {
+  if (record.request_hash !== requestHash) {
+    return { state: 'mismatch' };
+  }
+
+  if (record.status === 'completed' && record.response_status !== null) {
+    return { state: 'replay', status: record.response_status, body: record.response_body };
+  }
+
+  return { state: 'in_progress' };
+}
+
+/**
+ * Store the response of a finished request so retries replay it for IDEMPOTENCY_TTL_HOURS
+ * A no-op if the lease lapsed and another request took the key over
+ */
+export async function completeIdempotentRequest(id: string, status: number, body: unknown): Promise<void> {
+  await prisma.idempotencyKey.updateMany({
+    where: { id, status: 'in_progress' },
+    data: {
+      status: 'completed',
+      response_status: status,
+      response_body: (body ?? null) as Prisma.InputJsonValue,
+      completed_at: new Date(),
+      expires_at: new Date(Date.now() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000)
+    }
+  });
+}
+
+/**
+ * Give up a key without storing a response, so a retry with it runs again
+ */
+export async function releaseIdempotentRequest(id: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({
+    where: { id, status: 'in_progress' }
+  });
+}
+
+/**
+ * Delete expired keys
+ */
+export async function cleanupExpiredKeys(): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expires_at: { lte: new Date() } }
+  });
+
+  if (count > 0) {
+    console.log(`[Idempotency] Cleaned up ${count} expired keys`);
+  }
+  return count;
+}
+
+/**
+ * Start the hourly cleanup job
+ */
+export function startIdempotencyCleanup() {
+  if (cleanupInterval) {
+    return;
+  }
+
+  cleanupInterval = setInterval(() => {
+    cleanupExpiredKeys().catch(error => {
+      console.error('[Idempotency] Cleanup failed:', error);
+    });
+  }, CLEANUP_INTERVAL);
+
+  cleanupExpiredKeys().catch(error => {
+    console.error('[Idempotency] Cleanup failed:', error);
+  });
+}
+
+/**
+ * Stop the cleanup job
+ */
+export function stopIdempotencyCleanup() {
+  if (cleanupInterval) {
+    clearInterval(cleanupInterval);
+    cleanupInterval = null;
+  }
+}
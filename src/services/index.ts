@@ -1,4 +1,14 @@
 // Service exports
 export * from './roundService';
+export * from './roundConfigService';
 export * from './tradeService';
 export * from './roundManager';
+export * from './solvencyService';
+export * from './orderService';
+export * from './autoExitService';
+export * from './idempotencyService';
+export * from './ledgerService';
+export * from './reconciliationService';
+export * from './depositService';
+export * from './escrowWatcher';
+export * from './withdrawalService';
@@ -0,0 +1,191 @@
+import { Asset, Prisma, LedgerAccountType, LedgerEntryKind } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { Lamports, ZERO_LAMPORTS, toLamports, lamportsToDecimal, sumLamports } from '../lib/lamports';
+
+/**
+ * Double-Entry Ledger
+ *
+ * Every balance movement is written as entries that debit one account and
+ * credit another by the same amount, in the same transaction as the balance
+ * update itself. An account's balance is its credits minus its debits, so the
+ * ledger always sums to zero and any user's balance can be rebuilt from it.
+ * Entries carry an asset and balances are kept per asset - a round's pool and
+ * fees are in its quote asset.
+ *
+ *   deposit     escrow     -> user
+ *   withdrawal  user       -> escrow      (refund: escrow -> user)
+ *   buy         user       -> round_pool  + user -> house_fees
+ *   sell        round_pool -> user        + round_pool -> house_fees
+ *   round end   round_pool -> forfeiture
+ *   fee sweep   house_fees -> escrow      (refund: escrow -> house_fees)
+ */
+
+export interface LedgerAccount {
+  type: LedgerAccountType;
+  id: string | null;    // Profile id for users, round id for pools and forfeitures
+}
+
+export const LedgerAccounts = {
+  user: (profileId: string): LedgerAccount => ({ type: 'user', id: profileId }),
+  roundPool: (roundId: string): LedgerAccount => ({ type: 'round_pool', id: roundId }),
+  forfeiture: (roundId: string): LedgerAccount => ({ type: 'forfeiture', id: roundId }),
+  houseFees: { type: 'house_fees', id: null } as LedgerAccount,
+  escrow: { type: 'escrow', id: null } as LedgerAccount
+};
+
+// Money moving from the debited account to the credited one
+export interface LedgerTransfer {
+  kind: LedgerEntryKind;
+  debit: LedgerAccount;
+  credit: LedgerAccount;
+  amount: Lamports;
+  reference?: string;
+}
+
+/**
+ * Write ledger entries - call inside the transaction that moves the balances
+ * Zero amounts are skipped
+ */
+export async function recordTransfers(
+  tx: Prisma.TransactionClient,
+  transfers: LedgerTransfer[],
+  asset: Asset = 'sol'
+): Promise<void> {
+  const entries = transfers.filter(t => t.amount !== ZERO_LAMPORTS);
+  for (const transfer of entries) {
+    if (transfer.amount < ZERO_LAMPORTS) {
+      throw new Error(`Negative ledger amount for ${transfer.kind}: ${transfer.amount}`);
+    }
+  }
+  if (entries.length === 0) return;
+
+  await tx.ledgerEntry.createMany({
+    data: entries.map(t => ({
+      kind: t.kind,
+      asset,
+      debit_type: t.debit.type,
+      debit_id: t.debit.id,
+      credit_type: t.credit.type,
+      credit_id: t.credit.id,
+      amount: lamportsToDecimal(t.amount),
+      reference: t.reference
+    }))
+  });
+}
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Sum of entries per kind on one side of an account
+ */
+async function sumByKind(
+  client: Client,
+  account: LedgerAccount,
+  asset: Asset,
+  side: 'debit' | 'credit'
+): Promise<Map<LedgerEntryKind, { amount: Lamports; count: number }>> {
+  const where = side === 'debit'
+    ? { asset, debit_type: account.type, debit_id: account.id }
+    : { asset, credit_type: account.type, credit_id: account.id };
+
+  const groups = await client.ledgerEntry.groupBy({
+    by: ['kind'],
+    where,
+    _sum: { amount: true },
+    _count: { _all: true }
+  });
+
+  return new Map(groups.map(g => [g.kind, {
+    amount: g._sum.amount ? toLamports(g._sum.amount) : ZERO_LAMPORTS,
+    count: g._count._all
+  }]));
+}
+
+function total(sums: Map<LedgerEntryKind, { amount: Lamports }>, kinds?: LedgerEntryKind[]): Lamports {
+  return sumLamports(
+    Array.from(sums.entries())
+      .filter(([kind]) => !kinds || kinds.includes(kind))
+      .map(([, sum]) => sum.amount)
+  );
+}
+
+/**
+ * Balance of an account in one asset (credits - debits)
+ */
+export async function getAccountBalance(account: LedgerAccount, asset: Asset = 'sol', client: Client = prisma): Promise<Lamports> {
+  const [debits, credits] = await Promise.all([
+    sumByKind(client, account, asset, 'debit'),
+    sumByKind(client, account, asset, 'credit')
+  ]);
+  return total(credits) - total(debits);
+}
+
+/**
+ * Summed balance of every account of one type in an asset, e.g. all rounds' forfeitures
+ */
+export async function getAccountTypeBalance(type: LedgerAccountType, asset: Asset = 'sol', client: Client = prisma): Promise<Lamports> {
+  const [debits, credits] = await Promise.all([
+    client.ledgerEntry.aggregate({ where: { asset, debit_type: type }, _sum: { amount: true } }),
+    client.ledgerEntry.aggregate({ where: { asset, credit_type: type }, _sum: { amount: true } })
+  ]);
+  return (credits._sum.amount ? toLamports(credits._sum.amount) : ZERO_LAMPORTS)
+    - (debits._sum.amount ? toLamports(debits._sum.amount) : ZERO_LAMPORTS);
+}
+
+export interface RebuiltBalance {
+  profileId: string;
+  balance: Lamports;
+  totalWagered: Lamports;     // Buys including fees
+  totalWon: Lamports;         // Sell proceeds after fees
+  entryCount: number;
+  byKind: Partial<Record<LedgerEntryKind, Lamports>>;   // Net effect of each kind on the balance
+}
+
+/**
+ * Rebuild a user's balance of an asset and their totals in it from the ledger alone
+ */
+export async function rebuildUserBalance(profileId: string, asset: Asset = 'sol', client: Client = prisma): Promise<RebuiltBalance> {
+  const account = LedgerAccounts.user(profileId);
+  const [debits, credits] = await Promise.all([
+    sumByKind(client, account, asset, 'debit'),
+    sumByKind(client, account, asset, 'credit')
+  ]);
+
+  const byKind: Partial<Record<LedgerEntryKind, Lamports>> = {};
+  let entryCount = 0;
+  for (const [kind, sum] of credits) {
+    byKind[kind] = (byKind[kind] || ZERO_LAMPORTS) + sum.amount;
+    entryCount += sum.count;
+  }
+  for (const [kind, sum] of debits) {
+    byKind[kind] = (byKind[kind] || ZERO_LAMPORTS) - sum.amount;
+    entryCount += sum.count;
+  }
+
+  return {
+    profileId,
+    balance: total(credits) - total(debits),
+    totalWagered: total(debits, ['buy', 'buy_fee']),
+    totalWon: total(credits, ['sell']),
+    entryCount,
+    byKind
+  };
+}
+
+/**
+ * Move whatever is left in a round's pool to its forfeiture account
+ * Call inside the transaction that ends the round
+ */
+export async function closeRoundPool(tx: Prisma.TransactionClient, roundId: string, asset: Asset): Promise<Lamports> {
+  const remaining = await getAccountBalance(LedgerAccounts.roundPool(roundId), asset, tx);
+  if (remaining > ZERO_LAMPORTS) {
+    await recordTransfers(tx, [{
+      kind: 'forfeiture',
+      debit: LedgerAccounts.roundPool(roundId),
+      credit: LedgerAccounts.forfeiture(roundId),
+      amount: remaining,
+      reference: roundId
+    }], asset);
+  }
+  return remaining;
+}
@@ -0,0 +1,349 @@
+import prisma from '../lib/prisma';
+import { Asset, ConditionalOrder, OrderType } from '@prisma/client';
+import { runSerialized } from '../lib/serialQueue';
+import { ErrorCode } from '../lib/errors';
+import { ZERO_LAMPORTS, toLamports, toSol, scaleLamports } from '../lib/lamports';
+import { executeSell, onPriceChange, MIN_TRADE, TradeResult } from './tradeService';
+import { getActiveRound, isRoundExpired } from './roundService';
+import { broadcastTrade, broadcastPriceUpdate } from './roundManager';
+import {
+  sendOrderUpdate,
+  sendPositionUpdate,
+  sendBalanceUpdate,
+  OrderBroadcast
+} from '../websocket/broadcast';
+import { calculatePositionPnl } from '../lib/poolEngine';
+
+// Conditional order configuration
+export const MAX_OPEN_ORDERS_PER_POSITION = 10;
+
+export interface PlaceOrderInput {
+  order_type: OrderType;
+  trigger_multiplier: number;
+  sell_percent?: number;      // Percent of the position to sell when triggered (default 100)
+  asset?: Asset;              // Room whose active round the order is for (default sol)
+}
+
+export interface OrderResult {
+  success: boolean;
+  error?: string;
+  code?: ErrorCode;
+  order?: ConditionalOrder;
+}
+
+let engineStarted = false;
+
+/**
+ * Start the conditional order engine
+ * Evaluates open orders after every trade that moves the price
+ */
+export function startOrderEngine() {
+  if (engineStarted) {
+    return;
+  }
+  engineStarted = true;
+
+  onPriceChange((roundId, multiplier) => {
+    evaluateOrders(roundId, multiplier).catch(error => {
+      console.error('[Orders] Error evaluating orders:', error);
+    });
+  });
+
+  console.log('[Orders] Conditional order engine started');
+}
+
+/**
+ * Check if an order's trigger condition holds at a multiplier
+ * Take-profit: multiplier >= trigger, stop-loss: multiplier <= trigger
+ */
+export function isOrderTriggered(orderType: OrderType, trigger: number, multiplier: number): boolean {
+  return orderType === 'take_profit' ? multiplier >= trigger : multiplier <= trigger;
+}
+
+/**
+ * Evaluate a round's open orders against the current multiplier
+ * Evaluations for a round run one at a time; fills go oldest order first
+ */
+export function evaluateOrders(roundId: string, multiplier: number): Promise<void> {
+  return runSerialized(`orders:${roundId}`, async () => {
+    const openOrders = await prisma.conditionalOrder.findMany({
+      where: { round_id: roundId, status: 'open' },
+      orderBy: { created_at: 'asc' }
+    });
+
+    let currentMultiplier = multiplier;
+    for (const order of openOrders) {
+      if (!isOrderTriggered(order.order_type, Number(order.trigger_multiplier), currentMultiplier)) {
+        continue;
+      }
+
+      const newPrice = await fillOrder(order);
+      if (newPrice !== undefined) {
+        currentMultiplier = newPrice;
+      }
+    }
+  });
+}
+
+/**
+ * Fill a triggered order through the normal sell path
+ * Returns the new multiplier if a sell went through
+ */
+async function fillOrder(order: ConditionalOrder): Promise<number | undefined> {
+  // Claim the order so it can only fill once
+  const { count } = await prisma.conditionalOrder.updateMany({
+    where: { id: order.id, status: 'open' },
+    data: { status: 'triggered', triggered_at: new Date() }
+  });
+  if (count === 0) {
+    return undefined;
+  }
+
+  const position = await prisma.playerPosition.findUnique({
+    where: { id: order.position_id },
+    include: {
+      profile: { select: { username: true, wallet_address: true } },
+      round: { select: { quote_asset: true } }
+    }
+  });
+
+  if (!position) {
+    await finishOrder(order.id, null, { status: 'failed', error: 'Position not found' });
+    return undefined;
+  }
+
+  const walletAddress = position.profile.wallet_address;
+  const asset = position.round.quote_asset;
+  const tokenBalance = toLamports(position.token_balance);
+  if (tokenBalance <= ZERO_LAMPORTS) {
+    await finishOrder(order.id, walletAddress, { status: 'cancelled', error: 'No tokens to sell' });
+    return undefined;
+  }
+
+  // Sell the requested share, or everything if that share is below the minimum trade
+  let tokensToSell = scaleLamports(tokenBalance, Number(order.sell_percent) / 100, 'down');
+  if (toSol(tokensToSell) < MIN_TRADE) {
+    tokensToSell = tokenBalance;
+  }
+
+  let result: TradeResult;
+  try {
+    result = await executeSell(order.profile_id, order.round_id, toSol(tokensToSell));
+  } catch (error) {
+    // Don't leave the order stuck in triggered - it is claimed, so nothing else would finish it
+    console.error(`[Orders] Sell for ${order.order_type} ${order.id} threw:`, error);
+    await finishOrder(order.id, walletAddress, { status: 'failed', error: 'Sell failed' });
+    return undefined;
+  }
+
+  if (!result.success) {
+    await finishOrder(order.id, walletAddress, { status: 'failed', error: result.error || 'Sell failed' });
+    return undefined;
+  }
+
+  await finishOrder(order.id, walletAddress, {
+    status: 'filled',
+    trade_sequence: result.sequence ?? null,
+    sol_received: result.solAmount ?? null
+  });
+
+  console.log(`[Orders] ${order.order_type} ${order.id} filled at ${result.newPrice?.toFixed(4)}x for ${walletAddress}`);
+
+  // Same broadcasts as a manual sell, tagged with the triggering order
+  if (result.newPrice !== undefined && result.priceMultiplier !== undefined) {
+    broadcastPriceUpdate(
+      asset,
+      order.round_id,
+      result.newPrice,
+      result.priceMultiplier,
+      result.poolSolBalance || 0,
+      result.poolTokenSupply || 0
+    );
+
+    broadcastTrade(
+      asset,
+      order.round_id,
+      'sell',
+      position.profile.username,
+      walletAddress,
+      result.solAmount || 0,
+      result.tokensTraded || 0,
+      result.newPrice,
+      result.sequence,
+      { id: order.id, type: order.order_type }
+    );
+  }
+
+  if (result.position) {
+    const { currentValue, pnl, pnlPercent } = calculatePositionPnl(
+      toLamports(result.position.token_balance),
+      toLamports(result.position.total_sol_in),
+      toLamports(result.position.total_sol_out),
+      result.newPrice || 0
+    );
+
+    sendPositionUpdate(walletAddress, {
+      round_id: order.round_id,
+      token_balance: result.position.token_balance,
+      total_sol_in: result.position.total_sol_in,
+      total_sol_out: result.position.total_sol_out,
+      current_value: toSol(currentValue),
+      pnl: toSol(pnl),
+      pnl_percent: pnlPercent
+    });
+  }
+
+  if (result.newBalance !== undefined) {
+    sendBalanceUpdate(walletAddress, {
+      asset,
+      deposited_balance: result.newBalance,
+      change: result.solAmount || 0,
+      reason: order.order_type === 'take_profit' ? 'Take-profit filled' : 'Stop-loss filled'
+    });
+  }
+
+  return result.newPrice;
+}
+
+/**
+ * Record the outcome of a triggered order and notify its owner
+ */
+async function finishOrder(
+  orderId: string,
+  walletAddress: string | null,
+  outcome: {
+    status: 'filled' | 'cancelled' | 'failed';
+    error?: string;
+    trade_sequence?: number | null;
+    sol_received?: number | null;
+  }
+): Promise<void> {
+  const order = await prisma.conditionalOrder.update({
+    where: { id: orderId },
+    data: outcome
+  });
+
+  if (walletAddress) {
+    sendOrderUpdate(walletAddress, formatOrder(order));
+  }
+}
+
+/**
+ * Place a conditional order on a player's position in the active round
+ */
+export async function placeOrder(profileId: string, input: PlaceOrderInput): Promise<OrderResult> {
+  const { order_type, trigger_multiplier, sell_percent = 100, asset = 'sol' } = input;
+
+  if (order_type !== 'take_profit' && order_type !== 'stop_loss') {
+    return { success: false, error: 'order_type must be "take_profit" or "stop_loss"', code: 'VALIDATION_ERROR' };
+  }
+
+  if (typeof trigger_multiplier !== 'number' || !Number.isFinite(trigger_multiplier) || trigger_multiplier <= 0) {
+    return { success: false, error: 'trigger_multiplier must be a positive number', code: 'VALIDATION_ERROR' };
+  }
+
+  if (typeof sell_percent !== 'number' || !(sell_percent > 0 && sell_percent <= 100)) {
+    return { success: false, error: 'sell_percent must be between 0 and 100', code: 'VALIDATION_ERROR' };
+  }
+
+  const activeRound = await getActiveRound(asset);
+  if (!activeRound || isRoundExpired(activeRound)) {
+    return { success: false, error: 'No active round', code: 'NO_ACTIVE_ROUND' };
+  }
+
+  const position = await prisma.playerPosition.findUnique({
+    where: {
+      round_id_profile_id: {
+        round_id: activeRound.id,
+        profile_id: profileId
+      }
+    }
+  });
+
+  if (!position || toLamports(position.token_balance) <= ZERO_LAMPORTS) {
+    return { success: false, error: 'No open position in the current round', code: 'NO_POSITION' };
+  }
+
+  // An order that would fire immediately is just a market sell
+  const currentMultiplier = Number(activeRound.current_price);
+  if (isOrderTriggered(order_type, trigger_multiplier, currentMultiplier)) {
+    return {
+      success: false,
+      error: `Trigger ${trigger_multiplier}x is already reached (current ${currentMultiplier.toFixed(4)}x)`,
+      code: 'ORDER_ALREADY_TRIGGERED'
+    };
+  }
+
+  const openCount = await prisma.conditionalOrder.count({
+    where: { position_id: position.id, status: 'open' }
+  });
+  if (openCount >= MAX_OPEN_ORDERS_PER_POSITION) {
+    return { success: false, error: `Maximum ${MAX_OPEN_ORDERS_PER_POSITION} open orders per position`, code: 'ORDER_LIMIT_REACHED' };
+  }
+
+  const order = await prisma.conditionalOrder.create({
+    data: {
+      round_id: activeRound.id,
+      profile_id: profileId,
+      position_id: position.id,
+      order_type,
+      trigger_multiplier,
+      sell_percent
+    }
+  });
+
+  console.log(`[Orders] Placed ${order_type} at ${trigger_multiplier}x (${sell_percent}%) for profile ${profileId}`);
+  return { success: true, order };
+}
+
+/**
+ * List a player's orders, newest first
+ */
+export async function listOrders(
+  profileId: string,
+  filter: { roundId?: string; status?: ConditionalOrder['status'] } = {}
+): Promise<ConditionalOrder[]> {
+  return prisma.conditionalOrder.findMany({
+    where: {
+      profile_id: profileId,
+      round_id: filter.roundId,
+      status: filter.status
+    },
+    orderBy: { created_at: 'desc' },
+    take: 50
+  });
+}
+
+/**
+ * Cancel one of a player's open orders
+ */
+export async function cancelOrder(profileId: string, orderId: string): Promise<OrderResult> {
+  const { count } = await prisma.conditionalOrder.updateMany({
+    where: { id: orderId, profile_id: profileId, status: 'open' },
+    data: { status: 'cancelled' }
+  });
+
+  if (count === 0) {
+    return { success: false, error: 'Open order not found', code: 'ORDER_NOT_FOUND' };
+  }
+
+  const order = await prisma.conditionalOrder.findUnique({ where: { id: orderId } });
+  return { success: true, order: order || undefined };
+}
+
+/**
+ * Format order for API response / broadcast
+ */
+export function formatOrder(order: ConditionalOrder): OrderBroadcast {
+  return {
+    id: order.id,
+    round_id: order.round_id,
+    order_type: order.order_type,
+    trigger_multiplier: Number(order.trigger_multiplier),
+    sell_percent: Number(order.sell_percent),
+    status: order.status,
+    trade_sequence: order.trade_sequence,
+    sol_received: order.sol_received !== null ? Number(order.sol_received) : null,
+    error: order.error
+  };
+}
@@ -0,0 +1,164 @@
+import { Asset } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { SolanaGateway, rpcGateway, getEscrowPublicKey, getAssociatedTokenAddress } from '../lib/solana';
+import { Lamports, ZERO_LAMPORTS, toLamports, toSol, lamportsToDecimal } from '../lib/lamports';
+import { ASSETS, fromChainUnits } from '../lib/assets';
+import { getAccountBalance, getAccountTypeBalance, LedgerAccounts } from './ledgerService';
+
+/**
+ * Escrow Reconciliation
+ *
+ * Periodically checks the escrow wallet's on-chain balance against what the
+ * database says it holds for players: every deposited_balance plus the pools
+ * of active rounds. House fees that haven't been swept yet and the pools
+ * ended rounds left to forfeiture sit in the same wallet, so they are taken
+ * off the chain balance before comparing.
+ * Each run is stored in escrow_reconciliations; a shortfall above the
+ * threshold is logged as an alert.
+ *
+ * Every asset is checked on its own: SOL against the escrow wallet, USDC
+ * against the escrow's token account, each with its own balance column,
+ * rounds, fee and forfeiture ledger.
+ */
+
+export const RECONCILIATION_INTERVAL = (Number(process.env.RECONCILIATION_INTERVAL_MINUTES) || 10) * 60 * 1000;
+// Shortfall that raises an alert (RECONCILIATION_ALERT_THRESHOLD_<SYMBOL>) - smaller gaps are in-flight deposits / withdrawals
+export const RECONCILIATION_ALERT_THRESHOLDS: Record<Asset, Lamports> = {
+  sol: toLamports(process.env.RECONCILIATION_ALERT_THRESHOLD_SOL || '0.01'),
+  usdc: toLamports(process.env.RECONCILIATION_ALERT_THRESHOLD_USDC || '0.01')
+};
+
+let reconciliationInterval: NodeJS.Timeout | null = null;
+
+export interface ReconciliationReport {
+  asset: Asset;
+  escrowAddress: string;
+  escrowBalance: Lamports;
+  userBalances: Lamports;
+  openPools: Lamports;
+  unsweptFees: Lamports;
+  forfeitures: Lamports;
+  liability: Lamports;
+  surplus: Lamports;
+  shortfall: Lamports;
+  alerted: boolean;
+}
+
+/**
+ * Reconcile every asset, storing one row each
+ */
+export async function runReconciliation(solana: SolanaGateway = rpcGateway): Promise<ReconciliationReport[]> {
+  const reports: ReconciliationReport[] = [];
+  for (const asset of Object.keys(ASSETS) as Asset[]) {
+    reports.push(await reconcileAsset(solana, asset));
+  }
+  return reports;
+}
+
+/**
+ * What the escrow holds of an asset on chain, in internal units
+ */
+async function getEscrowHoldings(solana: SolanaGateway, asset: Asset): Promise<{ address: string; balance: Lamports }> {
+  const escrow = getEscrowPublicKey();
+  const { mint } = ASSETS[asset];
+  if (!mint) {
+    const address = escrow.toBase58();
+    return { address, balance: await solana.getBalance(address) };
+  }
+
+  const tokens = await solana.getTokenBalance(escrow.toBase58(), mint.toBase58());
+  return {
+    address: getAssociatedTokenAddress(escrow, mint).toBase58(),
+    balance: fromChainUnits(asset, tokens)
+  };
+}
+
+/**
+ * Compare the escrow's holdings of one asset with the database and store the result
+ * Database totals are read before the chain, so an in-flight deposit shows as
+ * surplus rather than a false shortfall
+ */
+async function reconcileAsset(solana: SolanaGateway, asset: Asset): Promise<ReconciliationReport> {
+  const [users, pools, unsweptFees, forfeitures] = await Promise.all([
+    prisma.profile.aggregate({ _sum: { deposited_balance: true, usdc_balance: true } }),
+    prisma.gameRound.aggregate({ where: { status: 'active', quote_asset: asset }, _sum: { pool_sol_balance: true } }),
+    getAccountBalance(LedgerAccounts.houseFees, asset),
+    getAccountTypeBalance('forfeiture', asset)
+  ]);
+  const { address: escrowAddress, balance: escrowBalance } = await getEscrowHoldings(solana, asset);
+
+  const userSum = asset === 'usdc' ? users._sum.usdc_balance : users._sum.deposited_balance;
+  const userBalances = userSum ? toLamports(userSum) : ZERO_LAMPORTS;
+  const openPools = pools._sum.pool_sol_balance ? toLamports(pools._sum.pool_sol_balance) : ZERO_LAMPORTS;
+  const liability = userBalances + openPools;
+  // Fees and forfeited pools are the house's, not players' - nothing sweeps forfeitures, so they stay in escrow
+  const surplus = escrowBalance - unsweptFees - forfeitures - liability;
+  const shortfall = surplus < ZERO_LAMPORTS ? -surplus : ZERO_LAMPORTS;
+
+  const report: ReconciliationReport = {
+    asset,
+    escrowAddress,
+    escrowBalance,
+    userBalances,
+    openPools,
+    unsweptFees,
+    forfeitures,
+    liability,
+    surplus,
+    shortfall,
+    alerted: shortfall > RECONCILIATION_ALERT_THRESHOLDS[asset]
+  };
+
+  await prisma.escrowReconciliation.create({
+    data: {
+      asset,
+      escrow_address: escrowAddress,
+      escrow_balance: lamportsToDecimal(escrowBalance),
+      user_balances: lamportsToDecimal(userBalances),
+      open_pools: lamportsToDecimal(openPools),
+      unswept_fees: lamportsToDecimal(unsweptFees),
+      forfeitures: lamportsToDecimal(forfeitures),
+      liability: lamportsToDecimal(liability),
+      surplus: lamportsToDecimal(surplus),
+      shortfall: lamportsToDecimal(shortfall),
+      alerted: report.alerted
+    }
+  });
+
+  const { symbol } = ASSETS[asset];
+  if (report.alerted) {
+    console.error(`[Reconciliation] ALERT escrow ${escrowAddress} short ${toSol(shortfall)} ${symbol}: holds ${toSol(escrowBalance)} ${symbol} (${toSol(unsweptFees)} unswept fees, ${toSol(forfeitures)} forfeited), owes ${toSol(liability)} ${symbol} (users ${toSol(userBalances)}, pools ${toSol(openPools)})`);
+  } else {
+    console.log(`[Reconciliation] Escrow ${escrowAddress} ok: surplus ${toSol(surplus)} ${symbol}`);
+  }
+
+  return report;
+}
+
+/**
+ * Start the scheduled reconciliation job
+ */
+export function startReconciliation(solana: SolanaGateway = rpcGateway) {
+  if (reconciliationInterval) {
+    return;
+  }
+
+  const run = () => {
+    runReconciliation(solana).catch(error => {
+      console.error('[Reconciliation] Run failed:', error);
+    });
+  };
+
+  reconciliationInterval = setInterval(run, RECONCILIATION_INTERVAL);
+  run();
+}
+
+/**
+ * Stop the scheduled reconciliation job
+ */
+export function stopReconciliation() {
+  if (reconciliationInterval) {
+    clearInterval(reconciliationInterval);
+    reconciliationInterval = null;
+  }
+}
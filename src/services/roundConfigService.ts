@@ -0,0 +1,129 @@
+import prisma from '../lib/prisma';
+import { DEFAULT_PRICING_CURVE } from '../lib/poolEngine';
+import { PricingCurve, createPricingCurve } from '../lib/pricingCurve';
+import { Asset, GameRound, RoundTemplate } from '@prisma/client';
+
+// Default template - the original hardcoded game settings
+export const DEFAULT_TEMPLATE_NAME = 'default';
+export const ROUND_DURATION = 30; // seconds
+export const BUY_FEE = 0.02;  // 2% buy fee
+export const SELL_FEE = 0.02; // 2% sell fee
+
+// Opted-in players are sold out during the final AUTO_EXIT_SECONDS of a round
+export const AUTO_EXIT_SECONDS = Number(process.env.AUTO_EXIT_SECONDS) || 3;
+
+/**
+ * Settings a round runs with
+ * Snapshotted onto the GameRound at creation so template edits never touch live rounds
+ */
+export interface RoundConfig {
+  template_id: string | null;
+  template_name: string;
+  quote_asset: Asset;
+  pricing_curve: PricingCurve;
+  buy_fee: number;
+  sell_fee: number;
+  duration_seconds: number;
+}
+
+/**
+ * Get the pricing curve for the built-in default template
+ * PRICING_CURVE / PRICING_CURVE_PARAMS (JSON) env vars override the linear default
+ */
+export function getDefaultPricingCurve(): PricingCurve {
+  const type = process.env.PRICING_CURVE;
+  if (!type) {
+    return DEFAULT_PRICING_CURVE;
+  }
+
+  try {
+    const params = process.env.PRICING_CURVE_PARAMS
+      ? JSON.parse(process.env.PRICING_CURVE_PARAMS)
+      : DEFAULT_PRICING_CURVE.params;
+    return createPricingCurve(type, params);
+  } catch (error) {
+    console.error('[RoundConfig] Invalid pricing curve config, using linear:', error);
+    return DEFAULT_PRICING_CURVE;
+  }
+}
+
+/**
+ * Get the built-in default config (used when no template is active for the asset)
+ */
+export function getDefaultRoundConfig(quoteAsset: Asset = 'sol'): RoundConfig {
+  return {
+    template_id: null,
+    template_name: DEFAULT_TEMPLATE_NAME,
+    quote_asset: quoteAsset,
+    pricing_curve: getDefaultPricingCurve(),
+    buy_fee: BUY_FEE,
+    sell_fee: SELL_FEE,
+    duration_seconds: ROUND_DURATION
+  };
+}
+
+/**
+ * Convert a template row into a round config
+ */
+export function templateToRoundConfig(template: RoundTemplate): RoundConfig {
+  return {
+    template_id: template.id,
+    template_name: template.name,
+    quote_asset: template.quote_asset,
+    pricing_curve: createPricingCurve(template.pricing_curve, template.pricing_params),
+    buy_fee: Number(template.buy_fee),
+    sell_fee: Number(template.sell_fee),
+    duration_seconds: template.duration_seconds
+  };
+}
+
+/**
+ * Pick the config for a new round
+ * Named template if given (it brings its own quote asset), else the most recently
+ * updated active template for the asset, else the default
+ */
+export async function resolveRoundConfig(templateName?: string, quoteAsset: Asset = 'sol'): Promise<RoundConfig> {
+  const template = templateName
+    ? await prisma.roundTemplate.findUnique({ where: { name: templateName } })
+    : await prisma.roundTemplate.findFirst({
+        where: { is_active: true, quote_asset: quoteAsset },
+        orderBy: { updated_at: 'desc' }
+      });
+
+  if (templateName && !template) {
+    throw new Error(`Round template not found: ${templateName}`);
+  }
+
+  if (!template) {
+    return getDefaultRoundConfig(quoteAsset);
+  }
+
+  try {
+    return templateToRoundConfig(template);
+  } catch (error) {
+    console.error(`[RoundConfig] Template ${template.name} is invalid, using default:`, error);
+    return getDefaultRoundConfig(template.quote_asset);
+  }
+}
+
+/**
+ * Get the pricing curve a round was created with
+ */
+export function getRoundPricingCurve(round: Pick<GameRound, 'pricing_curve' | 'pricing_params'>): PricingCurve {
+  return createPricingCurve(round.pricing_curve, round.pricing_params);
+}
+
+/**
+ * Get the config a round was created with (from its snapshot columns)
+ */
+export function getRoundConfig(round: GameRound): RoundConfig {
+  return {
+    template_id: round.template_id,
+    template_name: round.template_name,
+    quote_asset: round.quote_asset,
+    pricing_curve: getRoundPricingCurve(round),
+    buy_fee: Number(round.buy_fee),
+    sell_fee: Number(round.sell_fee),
+    duration_seconds: round.duration_seconds
+  };
+}
@@ -1,15 +1,16 @@
 import { 
   getActiveRound, 
   createRound, 
+  createRoundFromConfig,
   endRound, 
   getRoundTimeRemaining,
   isRoundExpired,
+  isInAutoExitWindow,
   formatRoundResponse,
   COUNTDOWN_DURATION,
   RoundWithPositions
 } from './roundService';
 import { 
-  broadcastRoundUpdate as wsBroadcastRoundUpdate,
   broadcastRoundStarted as wsBroadcastRoundStarted,
   broadcastRoundEnding,
   broadcastRoundEnded,
@@ -17,19 +18,50 @@ import {
   broadcastTrade as wsBroadcastTrade,
   broadcastPriceUpdate as wsBroadcastPriceUpdate,
   sendForfeitureNotification,
+  sendAutoExitNotification,
+  sendPositionUpdate,
+  sendBalanceUpdate,
   broadcastFinalPnL,
-  RoundBroadcast,
   TradeBroadcast
 } from '../websocket/broadcast';
+import { 
+  setRoundState, 
+  patchRoundState, 
+  clearRoundState, 
+  RoundState 
+} from '../websocket/roundChannel';
+import { resolveRoundConfig } from './roundConfigService';
+import { enforceRoundSolvency } from './solvencyService';
+import { runAutoExit } from './autoExitService';
 import prisma from '../lib/prisma';
-import { VIRTUAL_SOL, INITIAL_TOKEN_SUPPLY } from '../lib/poolEngine';
+import { calculatePositionPnl } from '../lib/poolEngine';
+import { ZERO_LAMPORTS, toLamports, toSol } from '../lib/lamports';
+import { ROUND_ASSETS } from '../lib/assets';
+import { Asset } from '@prisma/client';
 
 // Round manager state
 let isRunning = false;
 let checkInterval: NodeJS.Timeout | null = null;
-let countdownInterval: NodeJS.Timeout | null = null;
-let countdownSeconds = 0;
-let currentRound: RoundWithPositions | null = null;
+
+// Each quote asset in ROUND_ASSETS runs its own room - one round (or countdown) at a time
+interface Room {
+  asset: Asset;
+  countdownInterval: NodeJS.Timeout | null;
+  countdownSeconds: number;
+  currentRound: RoundWithPositions | null;
+  autoExitRunning: boolean;
+}
+
+const rooms: Map<Asset, Room> = new Map();
+
+function getRoom(asset: Asset): Room {
+  let room = rooms.get(asset);
+  if (!room) {
+    room = { asset, countdownInterval: null, countdownSeconds: 0, currentRound: null, autoExitRunning: false };
+    rooms.set(asset, room);
+  }
+  return room;
+}
 
 // Event types for WebSocket broadcasts
 export const RoundEvents = {
@@ -53,7 +85,7 @@ export function startRoundManager() {
   }
 
   isRunning = true;
-  console.log('[RoundManager] Starting background job...');
+  console.log(`[RoundManager] Starting background job (rooms: ${ROUND_ASSETS.join(', ')})...`);
 
   // Check every second
   checkInterval = setInterval(async () => {
@@ -76,9 +108,11 @@ export function stopRoundManager() {
     clearInterval(checkInterval);
     checkInterval = null;
   }
-  if (countdownInterval) {
-    clearInterval(countdownInterval);
-    countdownInterval = null;
+  for (const room of rooms.values()) {
+    if (room.countdownInterval) {
+      clearInterval(room.countdownInterval);
+      room.countdownInterval = null;
+    }
   }
   isRunning = false;
   console.log('[RoundManager] Stopped');
@@ -88,42 +122,63 @@ export function stopRoundManager() {
  * Main check and manage function
  */
 async function checkAndManageRounds() {
+  for (const asset of ROUND_ASSETS) {
+    try {
+      await checkRoom(getRoom(asset));
+    } catch (error) {
+      console.error(`[RoundManager] Error in ${asset} room:`, error);
+    }
+  }
+}
+
+/**
+ * Check and manage one room's round
+ */
+async function checkRoom(room: Room) {
   // If we're in countdown, don't check for rounds
-  if (countdownSeconds > 0) {
+  if (room.countdownSeconds > 0) {
     return;
   }
 
-  const activeRound = await getActiveRound();
+  const activeRound = await getActiveRound(room.asset);
 
   if (!activeRound) {
     // No active round, create one
-    console.log('[RoundManager] No active round, creating new one...');
-    currentRound = await createRound();
-    broadcastRoundStarted(currentRound);
+    console.log(`[RoundManager] No active ${room.asset} round, creating new one...`);
+    room.currentRound = await createRound(undefined, room.asset);
+    broadcastRoundStarted(room.currentRound);
     return;
   }
 
-  currentRound = activeRound;
+  room.currentRound = activeRound;
   const timeRemaining = getRoundTimeRemaining(activeRound);
 
-  // Broadcast time update
-  broadcastRoundUpdate(activeRound, timeRemaining);
+  // Publish round state - subscribers only get what changed (timer, positions)
+  setRoundState(formatRoundState(activeRound, timeRemaining));
 
   // Check if round is about to end (last 5 seconds warning)
   if (timeRemaining <= 5 && timeRemaining > 0) {
-    broadcastRoundEnding(activeRound.id, Math.ceil(timeRemaining));
+    broadcastRoundEnding(room.asset, activeRound.id, Math.ceil(timeRemaining));
+  }
+
+  // Sell out opted-in players in the final seconds (repeats each tick to catch late positions)
+  if (isInAutoExitWindow(activeRound) && !isRoundExpired(activeRound) && !room.autoExitRunning) {
+    room.autoExitRunning = true;
+    handleAutoExit(room.asset, activeRound.id)
+      .catch(error => console.error('[RoundManager] Auto-exit failed:', error))
+      .finally(() => { room.autoExitRunning = false; });
   }
 
-  // Check if round has expired
-  if (isRoundExpired(activeRound)) {
-    await handleRoundEnd(activeRound);
+  // Check if round has expired (let a running auto-exit pass finish first)
+  if (isRoundExpired(activeRound) && !room.autoExitRunning) {
+    await handleRoundEnd(room, activeRound);
   }
 }
 
 /**
  * Handle round ending
  */
-async function handleRoundEnd(round: RoundWithPositions) {
+async function handleRoundEnd(room: Room, round: RoundWithPositions) {
   console.log(`[RoundManager] Round ${round.id} has ended`);
 
   // Get final price before ending
@@ -142,11 +197,19 @@ async function handleRoundEnd(round: RoundWithPositions) {
   // Broadcast final PnL to all players with positions
   await broadcastFinalPnL(round.id, finalPrice, positionsWithProfiles);
 
+  // Final solvency check before positions are forfeited
+  try {
+    await enforceRoundSolvency(round.id, 'round_end');
+  } catch (error) {
+    console.error('[RoundManager] Solvency check failed:', error);
+  }
+
   // End the round and get forfeitures
   const { forfeitures } = await endRound(round.id);
 
   // Broadcast round ended
   broadcastRoundEnded(
+    room.asset,
     round.id,
     finalPrice,
     Number(round.pool_sol_balance),
@@ -156,6 +219,7 @@ async function handleRoundEnd(round: RoundWithPositions) {
       sol_value_lost: f.solValue
     }))
   );
+  clearRoundState(room.asset);
 
   // Send individual forfeiture notifications to affected users
   for (const forfeiture of forfeitures) {
@@ -163,41 +227,120 @@ async function handleRoundEnd(round: RoundWithPositions) {
     const profile = await prisma.profile.findUnique({
       where: { id: forfeiture.profileId }
     });
-    if (profile) {
+    if (profile?.auto_exit_enabled) {
+      // Auto-exit players hear about the failed sell instead of a forfeiture
+      sendAutoExitNotification(profile.wallet_address, {
+        round_id: round.id,
+        status: 'failed',
+        tokens_sold: 0,
+        sol_received: 0,
+        error: `Could not sell ${forfeiture.tokenBalance.toFixed(2)} tokens before the round ended`
+      });
+    } else if (profile) {
       sendForfeitureNotification(
         profile.wallet_address,
         forfeiture.tokenBalance,
-        forfeiture.solValue
+        forfeiture.solValue,
+        room.asset
       );
     }
   }
 
   // Start countdown to next round
-  startCountdown();
+  startCountdown(room);
+}
+
+/**
+ * Run auto-exit sells for a round and broadcast them like manual sells
+ */
+async function handleAutoExit(asset: Asset, roundId: string) {
+  const results = await runAutoExit(roundId);
+
+  for (const { walletAddress, username, tokenBalance, result } of results) {
+    if (!result.success) {
+      continue;
+    }
+
+    if (result.newPrice !== undefined && result.priceMultiplier !== undefined) {
+      broadcastPriceUpdate(
+        asset,
+        roundId,
+        result.newPrice,
+        result.priceMultiplier,
+        result.poolSolBalance || 0,
+        result.poolTokenSupply || 0
+      );
+      broadcastTrade(
+        asset,
+        roundId,
+        'sell',
+        username,
+        walletAddress,
+        result.solAmount || 0,
+        result.tokensTraded || 0,
+        result.newPrice,
+        result.sequence
+      );
+    }
+
+    if (result.position) {
+      const { currentValue, pnl, pnlPercent } = calculatePositionPnl(
+        toLamports(result.position.token_balance),
+        toLamports(result.position.total_sol_in),
+        toLamports(result.position.total_sol_out),
+        result.newPrice || 0
+      );
+      sendPositionUpdate(walletAddress, {
+        round_id: roundId,
+        token_balance: result.position.token_balance,
+        total_sol_in: result.position.total_sol_in,
+        total_sol_out: result.position.total_sol_out,
+        current_value: toSol(currentValue),
+        pnl: toSol(pnl),
+        pnl_percent: pnlPercent
+      });
+    }
+
+    if (result.newBalance !== undefined) {
+      sendBalanceUpdate(walletAddress, {
+        asset,
+        deposited_balance: result.newBalance,
+        change: result.solAmount || 0,
+        reason: 'Auto-exit sell'
+      });
+    }
+
+    sendAutoExitNotification(walletAddress, {
+      round_id: roundId,
+      status: 'sold',
+      tokens_sold: tokenBalance,
+      sol_received: result.solAmount || 0
+    });
+  }
 }
 
 /**
- * Start countdown to next round
+ * Start a room's countdown to its next round
  */
-function startCountdown() {
-  countdownSeconds = COUNTDOWN_DURATION;
-  console.log(`[RoundManager] Starting ${COUNTDOWN_DURATION}s countdown to next round`);
+function startCountdown(room: Room) {
+  room.countdownSeconds = COUNTDOWN_DURATION;
+  console.log(`[RoundManager] Starting ${COUNTDOWN_DURATION}s countdown to next ${room.asset} round`);
 
-  countdownInterval = setInterval(async () => {
-    countdownSeconds--;
+  room.countdownInterval = setInterval(async () => {
+    room.countdownSeconds--;
 
-    broadcastCountdown(countdownSeconds);
+    broadcastCountdown(room.asset, room.countdownSeconds);
 
-    if (countdownSeconds <= 0) {
-      if (countdownInterval) {
-        clearInterval(countdownInterval);
-        countdownInterval = null;
+    if (room.countdownSeconds <= 0) {
+      if (room.countdownInterval) {
+        clearInterval(room.countdownInterval);
+        room.countdownInterval = null;
       }
 
       // Create new round
       try {
-        currentRound = await createRound();
-        broadcastRoundStarted(currentRound);
+        room.currentRound = await createRound(undefined, room.asset);
+        broadcastRoundStarted(room.currentRound);
       } catch (error) {
         console.error('[RoundManager] Error creating new round:', error);
       }
@@ -206,88 +349,108 @@ function startCountdown() {
 }
 
 /**
- * Helper to format round for broadcasting
+ * Helper to format round state for the round channel
+ * current_price is the multiplier, same as in trade price updates
  */
-function formatRoundBroadcast(round: RoundWithPositions, timeRemaining: number): RoundBroadcast {
+function formatRoundState(round: RoundWithPositions, timeRemaining: number): RoundState {
   const price = Number(round.current_price);
-  const initialPrice = VIRTUAL_SOL / INITIAL_TOKEN_SUPPLY;
   
   return {
     id: round.id,
     status: round.status,
+    quote_asset: round.quote_asset,
     pool_sol_balance: Number(round.pool_sol_balance),
     pool_token_supply: Number(round.pool_token_supply),
     current_price: price,
-    price_multiplier: price / initialPrice,
+    price_multiplier: price,
     time_remaining: Math.ceil(timeRemaining),
-    positions_count: round.positions.length
+    positions_count: round.positions.length,
+    positions: round.positions
+      .filter(p => toLamports(p.token_balance) > ZERO_LAMPORTS)
+      .map(p => ({
+        profile_id: p.profile_id,
+        username: p.profile.username,
+        wallet_address: p.profile.wallet_address
+      }))
   };
 }
 
 /**
  * Broadcast round started
+ * Also starts the round channel over with a snapshot of the new round
  */
 function broadcastRoundStarted(round: RoundWithPositions) {
-  const timeRemaining = getRoundTimeRemaining(round);
-  wsBroadcastRoundStarted(formatRoundBroadcast(round, timeRemaining));
+  const state = formatRoundState(round, getRoundTimeRemaining(round));
+  const { positions, ...roundBroadcast } = state;
+  wsBroadcastRoundStarted(roundBroadcast);
+  setRoundState(state);
 }
 
 /**
- * Broadcast round update
- */
-function broadcastRoundUpdate(round: RoundWithPositions, timeRemaining: number) {
-  wsBroadcastRoundUpdate(formatRoundBroadcast(round, timeRemaining));
-}
-
-/**
- * Broadcast price update (called after trades)
+ * Broadcast price update to the round's room (called after trades)
  */
 export function broadcastPriceUpdate(
+  asset: Asset,
   roundId: string,
   newPrice: number,
   priceMultiplier: number,
   poolSol: number,
   poolTokens: number
 ) {
-  wsBroadcastPriceUpdate(roundId, newPrice, priceMultiplier, poolSol, poolTokens);
+  wsBroadcastPriceUpdate(asset, roundId, newPrice, priceMultiplier, poolSol, poolTokens);
+  
+  // Round subscribers get the price change as a delta
+  patchRoundState(roundId, {
+    current_price: newPrice,
+    price_multiplier: priceMultiplier,
+    pool_sol_balance: poolSol,
+    pool_token_supply: poolTokens
+  });
 }
 
 /**
- * Broadcast trade event
+ * Broadcast trade event to the round's room
  */
 export function broadcastTrade(
+  asset: Asset,
   roundId: string,
   tradeType: 'buy' | 'sell',
   username: string | null,
   walletAddress: string,
   solAmount: number,
   tokensTraded: number,
-  newPrice: number
+  newPrice: number,
+  sequence?: number,
+  order?: { id: string; type: 'take_profit' | 'stop_loss' }
 ) {
   const trade: TradeBroadcast = {
     round_id: roundId,
+    sequence,
     trade_type: tradeType,
     username: username || `${walletAddress.slice(0, 4)}...${walletAddress.slice(-4)}`,
     wallet_address: walletAddress,
     sol_amount: solAmount,
     token_amount: tokensTraded,
     price: newPrice,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    order_id: order?.id,
+    order_type: order?.type
   };
-  wsBroadcastTrade(trade);
+  wsBroadcastTrade(asset, trade);
 }
 
 /**
- * Get current round state
+ * Get a room's current round state
  */
-export function getCurrentRound(): RoundWithPositions | null {
-  return currentRound;
+export function getCurrentRound(asset: Asset = 'sol'): RoundWithPositions | null {
+  return getRoom(asset).currentRound;
 }
 
 /**
- * Get countdown status
+ * Get a room's countdown status
  */
-export function getCountdownStatus(): { inCountdown: boolean; secondsRemaining: number } {
+export function getCountdownStatus(asset: Asset = 'sol'): { inCountdown: boolean; secondsRemaining: number } {
+  const { countdownSeconds } = getRoom(asset);
   return {
     inCountdown: countdownSeconds > 0,
     secondsRemaining: countdownSeconds
@@ -296,25 +459,33 @@ export function getCountdownStatus(): { inCountdown: boolean; secondsRemaining:
 
 /**
  * Force start a new round (admin function)
+ * Optionally runs it with a specific round template - the round replaces the one in
+ * the template's room
  */
-export async function forceNewRound(): Promise<RoundWithPositions> {
+export async function forceNewRound(templateName?: string, quoteAsset: Asset = 'sol'): Promise<RoundWithPositions> {
+  // Resolve (and reject an unknown template) before the current round is touched,
+  // so a bad name can't leave the room without a round
+  const config = await resolveRoundConfig(templateName, quoteAsset);
+  const asset = config.quote_asset;
+  const room = getRoom(asset);
+
   // End current round if exists
-  if (currentRound && currentRound.status === 'active') {
-    await endRound(currentRound.id);
+  if (room.currentRound && room.currentRound.status === 'active') {
+    await endRound(room.currentRound.id);
   }
 
   // Clear any countdown
-  if (countdownInterval) {
-    clearInterval(countdownInterval);
-    countdownInterval = null;
+  if (room.countdownInterval) {
+    clearInterval(room.countdownInterval);
+    room.countdownInterval = null;
   }
-  countdownSeconds = 0;
+  room.countdownSeconds = 0;
 
   // Create new round
-  currentRound = await createRound();
-  broadcastRoundStarted(currentRound);
+  room.currentRound = await createRoundFromConfig(config);
+  broadcastRoundStarted(room.currentRound);
   
-  return currentRound;
+  return room.currentRound;
 }
 
 export default {
@@ -1,9 +1,17 @@
 import prisma from '../lib/prisma';
-import { getInitialPool, getPrice, INITIAL_TOKEN_SUPPLY, VIRTUAL_SOL } from '../lib/poolEngine';
-import { GameRound, PlayerPosition, Profile } from '@prisma/client';
+import { 
+  getInitialPool, 
+  getPrice, 
+  getPositionValue, 
+  INITIAL_TOKEN_SUPPLY, 
+  VIRTUAL_SOL 
+} from '../lib/poolEngine';
+import { ZERO_LAMPORTS, toLamports, toSol, lamportsToDecimal } from '../lib/lamports';
+import { Asset, GameRound, PlayerPosition, Profile } from '@prisma/client';
+import { resolveRoundConfig, RoundConfig, AUTO_EXIT_SECONDS } from './roundConfigService';
+import { closeRoundPool } from './ledgerService';
 
-// Round configuration
-export const ROUND_DURATION = 30; // seconds
+// Round configuration (per-round settings live in roundConfigService)
 export const COUNTDOWN_DURATION = 20; // seconds between rounds
 
 export interface RoundWithPositions extends GameRound {
@@ -13,12 +21,12 @@ export interface RoundWithPositions extends GameRound {
 }
 
 /**
- * Get the currently active round, or create a new one if none exists or current is expired
+ * Get the currently active round of a quote asset's room
  */
-export async function getActiveRound(): Promise<RoundWithPositions | null> {
+export async function getActiveRound(quoteAsset: Asset = 'sol'): Promise<RoundWithPositions | null> {
   // Find active round
   let activeRound = await prisma.gameRound.findFirst({
-    where: { status: 'active' },
+    where: { status: 'active', quote_asset: quoteAsset },
     include: {
       positions: {
         include: {
@@ -46,18 +54,34 @@ export async function getActiveRound(): Promise<RoundWithPositions | null> {
 
 /**
  * Create a new round with initial pool state
+ * Settings are copied from the chosen template so later template edits don't affect it
  */
-export async function createRound(): Promise<RoundWithPositions> {
+export async function createRound(templateName?: string, quoteAsset: Asset = 'sol'): Promise<RoundWithPositions> {
+  return createRoundFromConfig(await resolveRoundConfig(templateName, quoteAsset));
+}
+
+/**
+ * Create a new round from settings already resolved with resolveRoundConfig
+ */
+export async function createRoundFromConfig(config: RoundConfig): Promise<RoundWithPositions> {
+  const curve = config.pricing_curve;
   const initialPool = getInitialPool();
-  const initialPrice = getPrice(initialPool);
+  const initialPrice = getPrice(initialPool, curve);
 
   const round = await prisma.gameRound.create({
     data: {
       status: 'active',
-      duration_seconds: ROUND_DURATION,
-      pool_sol_balance: initialPool.sol_balance,
+      quote_asset: config.quote_asset,
+      duration_seconds: config.duration_seconds,
+      pool_sol_balance: lamportsToDecimal(initialPool.sol_balance),
       pool_token_supply: initialPool.token_supply,
-      current_price: initialPrice
+      current_price: initialPrice,
+      pricing_curve: curve.type,
+      pricing_params: { ...curve.params },
+      template_id: config.template_id,
+      template_name: config.template_name,
+      buy_fee: config.buy_fee,
+      sell_fee: config.sell_fee
     },
     include: {
       positions: {
@@ -70,7 +94,7 @@ export async function createRound(): Promise<RoundWithPositions> {
     }
   });
 
-  console.log(`[RoundService] Created new round: ${round.id}`);
+  console.log(`[RoundService] Created new ${config.quote_asset} round: ${round.id} (template: ${config.template_name}, ${curve.type} curve)`);
   return round;
 }
 
@@ -105,25 +129,40 @@ export async function endRound(roundId: string): Promise<{
 
   // Calculate forfeitures for players who still hold tokens
   for (const position of round.positions) {
-    const tokenBalance = Number(position.token_balance);
-    if (tokenBalance > 0) {
+    const tokenBalance = toLamports(position.token_balance);
+    if (tokenBalance > ZERO_LAMPORTS) {
       // Calculate what their tokens were worth at final price
-      const solValue = tokenBalance * Number(round.current_price);
+      const solValue = getPositionValue(tokenBalance, Number(round.current_price));
       forfeitures.push({
         profileId: position.profile_id,
-        tokenBalance,
-        solValue
+        tokenBalance: toSol(tokenBalance),
+        solValue: toSol(solValue)
       });
     }
   }
 
-  // Update round status
-  const updatedRound = await prisma.gameRound.update({
-    where: { id: roundId },
-    data: {
-      status: 'completed',
-      ended_at: new Date()
-    }
+  // Close the round and move what is left in its pool to forfeiture together
+  const updatedRound = await prisma.$transaction(async (tx) => {
+    // Same lock trades take, so no trade lands between closing and emptying the pool
+    await tx.$queryRaw`SELECT id FROM game_rounds WHERE id = ${roundId}::uuid FOR UPDATE`;
+
+    const closed = await tx.gameRound.update({
+      where: { id: roundId },
+      data: {
+        status: 'completed',
+        ended_at: new Date()
+      }
+    });
+
+    const forfeited = await closeRoundPool(tx, roundId, round.quote_asset);
+    console.log(`[RoundService] Round ${roundId} pool closed, ${toSol(forfeited)} ${round.quote_asset} to forfeiture`);
+    return closed;
+  });
+
+  // Conditional orders die with the round
+  await prisma.conditionalOrder.updateMany({
+    where: { round_id: roundId, status: 'open' },
+    data: { status: 'expired' }
   });
 
   console.log(`[RoundService] Ended round: ${roundId}, forfeitures: ${forfeitures.length}`);
@@ -148,6 +187,13 @@ export function isRoundExpired(round: GameRound): boolean {
   return getRoundTimeRemaining(round) <= 0;
 }
 
+/**
+ * Check if a round is in its final seconds, when opted-in players get sold out
+ */
+export function isInAutoExitWindow(round: GameRound): boolean {
+  return getRoundTimeRemaining(round) <= AUTO_EXIT_SECONDS;
+}
+
 /**
  * Get round by ID with positions
  */
@@ -189,6 +235,7 @@ export function formatRoundResponse(round: RoundWithPositions) {
   return {
     id: round.id,
     status: round.status,
+    quote_asset: round.quote_asset,
     started_at: round.started_at,
     ended_at: round.ended_at,
     duration_seconds: round.duration_seconds,
@@ -197,6 +244,12 @@ export function formatRoundResponse(round: RoundWithPositions) {
     pool_token_supply: Number(round.pool_token_supply),
     current_price: Number(round.current_price),
     price_multiplier: Number(round.current_price) / (VIRTUAL_SOL / INITIAL_TOKEN_SUPPLY),
+    template_name: round.template_name,
+    pricing_curve: round.pricing_curve,
+    pricing_params: round.pricing_params,
+    buy_fee: Number(round.buy_fee),
+    sell_fee: Number(round.sell_fee),
+    trading_halted: round.trading_halted,
     positions: round.positions.map(p => ({
       profile_id: p.profile_id,
       username: p.profile.username,
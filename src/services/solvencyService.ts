@@ -0,0 +1,136 @@
+import prisma from '../lib/prisma';
+import { Pool, getMultiplier, calculatePoolSolvency } from '../lib/poolEngine';
+import { Lamports, ZERO_LAMPORTS, toLamports, toSol } from '../lib/lamports';
+import { Asset } from '@prisma/client';
+import { ASSETS } from '../lib/assets';
+import { getRoundPricingCurve } from './roundConfigService';
+import { broadcastSolvencyAlert } from '../websocket/broadcast';
+
+// Circuit breaker configuration
+// SOLVENCY_MODE=halt stops trading in an under-collateralized round, alert only reports it
+export const SOLVENCY_MODE: 'halt' | 'alert' = process.env.SOLVENCY_MODE === 'alert' ? 'alert' : 'halt';
+// Minimum pool / claims ratio before the round counts as under-collateralized
+export const SOLVENCY_MIN_COVERAGE = Number(process.env.SOLVENCY_MIN_COVERAGE) || 1;
+
+export interface SolvencyReport {
+  roundId: string;
+  quoteAsset: Asset;
+  poolBalance: Lamports;
+  outstandingClaims: Lamports;
+  shortfall: Lamports;
+  coverageRatio: number;
+  multiplier: number;
+  openPositions: number;
+  isSolvent: boolean;
+  checkedAt: Date;
+}
+
+/**
+ * Check that a round's pool covers every open position's claim
+ * Claim = token_balance * current multiplier / entry multiplier, capped at the pool (see calculatePoolSolvency)
+ */
+export async function checkRoundSolvency(roundId: string): Promise<SolvencyReport> {
+  const round = await prisma.gameRound.findUnique({
+    where: { id: roundId },
+    include: { positions: true }
+  });
+
+  if (!round) {
+    throw new Error('Round not found');
+  }
+
+  const pool: Pool = {
+    sol_balance: toLamports(round.pool_sol_balance),
+    token_supply: Number(round.pool_token_supply)
+  };
+  const curve = getRoundPricingCurve(round);
+  const multiplier = getMultiplier(pool, curve);
+
+  const openPositions = round.positions.filter(p => toLamports(p.token_balance) > ZERO_LAMPORTS);
+  const solvency = calculatePoolSolvency(
+    pool,
+    openPositions.map(p => ({ tokens: toLamports(p.token_balance), entryMultiplier: Number(p.entry_price) })),
+    curve,
+    SOLVENCY_MIN_COVERAGE
+  );
+
+  return {
+    roundId,
+    quoteAsset: round.quote_asset,
+    poolBalance: pool.sol_balance,
+    outstandingClaims: solvency.outstandingClaims,
+    shortfall: solvency.shortfall,
+    coverageRatio: solvency.coverageRatio,
+    isSolvent: solvency.isSolvent,
+    multiplier,
+    openPositions: openPositions.length,
+    checkedAt: new Date()
+  };
+}
+
+/**
+ * Halt all trading in a round
+ * Returns false if the round was already halted
+ */
+export async function haltRoundTrading(roundId: string, reason: string): Promise<boolean> {
+  const { count } = await prisma.gameRound.updateMany({
+    where: { id: roundId, trading_halted: false },
+    data: {
+      trading_halted: true,
+      halted_at: new Date(),
+      halt_reason: reason
+    }
+  });
+  return count > 0;
+}
+
+/**
+ * Check solvency and trip the circuit breaker if the pool is under-collateralized
+ * Called after every trade and at round end (where it only alerts - the round is closing anyway)
+ */
+export async function enforceRoundSolvency(
+  roundId: string,
+  context: 'trade' | 'round_end'
+): Promise<SolvencyReport> {
+  const report = await checkRoundSolvency(roundId);
+  if (report.isSolvent) {
+    return report;
+  }
+
+  const { symbol } = ASSETS[report.quoteAsset];
+  const reason = `Under-collateralized: pool ${toSol(report.poolBalance)} ${symbol}, claims ${toSol(report.outstandingClaims)} ${symbol}`;
+  const halted = context === 'trade' && SOLVENCY_MODE === 'halt'
+    ? await haltRoundTrading(roundId, reason)
+    : false;
+
+  console.error(`[Solvency] ALERT round ${roundId} (${context}): ${reason}, coverage ${report.coverageRatio.toFixed(4)}${halted ? ' - trading halted' : ''}`);
+
+  broadcastSolvencyAlert(report.quoteAsset, {
+    round_id: roundId,
+    pool_sol_balance: toSol(report.poolBalance),
+    outstanding_claims: toSol(report.outstandingClaims),
+    shortfall: toSol(report.shortfall),
+    coverage_ratio: report.coverageRatio,
+    trading_halted: halted
+  });
+
+  return report;
+}
+
+/**
+ * Format solvency report for API response
+ */
+export function formatSolvencyReport(report: SolvencyReport) {
+  return {
+    round_id: report.roundId,
+    quote_asset: report.quoteAsset,
+    pool_sol_balance: toSol(report.poolBalance),
+    outstanding_claims: toSol(report.outstandingClaims),
+    shortfall: toSol(report.shortfall),
+    coverage_ratio: Number.isFinite(report.coverageRatio) ? report.coverageRatio : null,
+    multiplier: report.multiplier,
+    open_positions: report.openPositions,
+    is_solvent: report.isSolvent,
+    checked_at: report.checkedAt
+  };
+}
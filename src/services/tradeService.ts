@@ -1,4 +1,7 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
+import { runSerialized } from '../lib/serialQueue';
+import { ErrorCode } from '../lib/errors';
 import { 
   Pool, 
   calculateBuy, 
@@ -11,19 +14,65 @@ import {
   getMultiplierAfterBuy,
   calculateAverageEntry
 } from '../lib/poolEngine';
-import { getActiveRound, isRoundExpired, getPosition } from './roundService';
-
-// Fee configuration
-export const BUY_FEE = 0.02;  // 2% buy fee
-export const SELL_FEE = 0.02; // 2% sell fee
-export const MIN_TRADE = 0.001; // Minimum trade in SOL
+import { 
+  Lamports,
+  ZERO_LAMPORTS,
+  toLamports, 
+  toSol, 
+  lamportsToDecimal, 
+  calculateFee, 
+  minLamports,
+  sumLamports 
+} from '../lib/lamports';
+import { ASSETS, getBalance, balanceChange } from '../lib/assets';
+import { getActiveRound, isRoundExpired, isInAutoExitWindow, getPosition } from './roundService';
+import { RoundConfig, getRoundConfig, getDefaultRoundConfig } from './roundConfigService';
+import { enforceRoundSolvency } from './solvencyService';
+import { recordTransfers, LedgerAccounts } from './ledgerService';
+
+// Trade configuration (fees are per round, see roundConfigService)
+export const MIN_TRADE = 0.001; // Minimum trade in the round's quote asset
 
 // House wallet receives all fees (from .env HOUSE_WALLET_ADDRESS)
 export const HOUSE_WALLET = process.env.HOUSE_WALLET_ADDRESS || '';
 
+// Trades in a round queue up behind each other, so allow time to wait for the round lock
+const TRADE_TRANSACTION_OPTIONS = { maxWait: 10000, timeout: 10000 };
+
+// Structured error codes clients can branch on (error stays human readable)
+export type TradeErrorCode = Extract<ErrorCode,
+  | 'TRADE_TOO_SMALL'
+  | 'PROFILE_NOT_FOUND'
+  | 'INSUFFICIENT_BALANCE'
+  | 'ROUND_NOT_FOUND'
+  | 'ROUND_NOT_ACTIVE'
+  | 'ROUND_ENDED'
+  | 'TRADING_HALTED'
+  | 'AUTO_EXIT_ACTIVE'
+  | 'NO_POSITION'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'SLIPPAGE_EXCEEDED'
+>;
+
+// Optional client limits - the trade is rejected instead of filling past them
+export interface TradeLimits {
+  maxEntryMultiplier?: number;  // Buys: highest entry multiplier the player accepts
+  minSolOut?: number;           // Sells: least SOL (after fee) the player accepts
+}
+
+// Actual values when a trade would have crossed the player's limit
+export interface SlippageDetails {
+  max_entry_multiplier?: number;
+  actual_entry_multiplier?: number;
+  min_sol_out?: number;
+  actual_sol_out?: number;
+}
+
 export interface TradeResult {
   success: boolean;
   error?: string;
+  code?: TradeErrorCode;
+  slippage?: SlippageDetails;
   tokensTraded?: number;
   solAmount?: number;
   newPrice?: number;
@@ -31,6 +80,9 @@ export interface TradeResult {
   newBalance?: number;
   feeAmount?: number;
   entryMultiplier?: number;
+  sequence?: number;          // Per-round trade sequence number
+  poolSolBalance?: number;    // Pool state right after this trade
+  poolTokenSupply?: number;
   position?: {
     token_balance: number;
     total_sol_in: number;
@@ -39,190 +91,302 @@ export interface TradeResult {
   };
 }
 
+// Listeners run after every trade that moves a round's price
+export type PriceChangeListener = (roundId: string, multiplier: number) => void;
+const priceChangeListeners: PriceChangeListener[] = [];
+
+/**
+ * Register a listener for price changes (e.g. the conditional order engine)
+ */
+export function onPriceChange(listener: PriceChangeListener): void {
+  priceChangeListeners.push(listener);
+}
+
+/**
+ * Notify listeners once a trade has committed
+ * Runs outside the round's trade queue so listeners may place trades themselves
+ */
+function notifyPriceChange(roundId: string, multiplier: number): void {
+  for (const listener of priceChangeListeners) {
+    try {
+      listener(roundId, multiplier);
+    } catch (error) {
+      console.error('[Trade] Price change listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Lock a round row for the rest of the transaction
+ * Every trade in a round takes this lock first, so trades apply one at a time
+ */
+async function lockRound(tx: Prisma.TransactionClient, roundId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM game_rounds WHERE id = ${roundId}::uuid FOR UPDATE`;
+}
+
+/**
+ * Lock a profile row for the rest of the transaction (same lock as withdrawals)
+ */
+async function lockProfile(tx: Prisma.TransactionClient, profileId: string): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM profiles WHERE id = ${profileId}::uuid FOR UPDATE`;
+}
+
+/**
+ * Run the solvency check after a trade has committed
+ * A failed check must not fail the trade itself
+ */
+async function checkSolvencyAfterTrade(roundId: string): Promise<void> {
+  try {
+    await enforceRoundSolvency(roundId, 'trade');
+  } catch (error) {
+    console.error('[Trade] Solvency check failed:', error);
+  }
+}
+
 /**
  * Execute a buy trade
  * 
  * New logic:
  * 1. Calculate multiplier BEFORE buy
- * 2. Apply 2% fee, add remaining to pool
+ * 2. Apply the round's buy fee, add remaining to pool
  * 3. Calculate multiplier AFTER buy  
  * 4. User's entry = average of before/after (anti-self-profit)
  * 5. Tokens = SOL amount (1:1 stake)
+ * 
+ * Trades in a round are serialized (in-process queue + round row lock)
+ * and numbered with the round's trade sequence
  */
 export async function executeBuy(
   profileId: string, 
   roundId: string, 
-  solAmount: number
+  solAmount: number,
+  limits: TradeLimits = {}
 ): Promise<TradeResult> {
   // Validate minimum trade
   if (solAmount < MIN_TRADE) {
-    return { success: false, error: `Minimum trade is ${MIN_TRADE} SOL` };
+    return { success: false, error: `Minimum trade is ${MIN_TRADE}`, code: 'TRADE_TOO_SMALL' };
   }
 
-  // Get profile
-  const profile = await prisma.profile.findUnique({
-    where: { id: profileId }
-  });
+  const amountLamports = toLamports(solAmount);
 
-  if (!profile) {
-    return { success: false, error: 'Profile not found' };
-  }
+  const tradeResult = await runSerialized(roundId, async () => {
+    const result = await prisma.$transaction(async (tx): Promise<TradeResult> => {
+      // Lock round then profile so this trade sees the state the previous one left
+      await lockRound(tx, roundId);
+      await lockProfile(tx, profileId);
 
-  // Check balance
-  const balance = Number(profile.deposited_balance);
-  if (balance < solAmount) {
-    return { success: false, error: `Insufficient balance. You have ${balance.toFixed(4)} SOL` };
-  }
+      // Get profile
+      const profile = await tx.profile.findUnique({
+        where: { id: profileId }
+      });
 
-  // Get round
-  const round = await prisma.gameRound.findUnique({
-    where: { id: roundId }
-  });
+      if (!profile) {
+        return { success: false, error: 'Profile not found', code: 'PROFILE_NOT_FOUND' };
+      }
 
-  if (!round) {
-    return { success: false, error: 'Round not found' };
-  }
+      // Get round
+      const round = await tx.gameRound.findUnique({
+        where: { id: roundId }
+      });
 
-  if (round.status !== 'active') {
-    return { success: false, error: 'Round is not active' };
-  }
+      if (!round) {
+        return { success: false, error: 'Round not found', code: 'ROUND_NOT_FOUND' };
+      }
 
-  if (isRoundExpired(round)) {
-    return { success: false, error: 'Round has ended' };
-  }
+      // Check balance in the round's quote asset
+      const asset = round.quote_asset;
+      const balance = toLamports(getBalance(profile, asset));
+      if (balance < amountLamports) {
+        return { success: false, error: `Insufficient balance. You have ${toSol(balance).toFixed(4)} ${ASSETS[asset].symbol}`, code: 'INSUFFICIENT_BALANCE' };
+      }
+
+      if (round.status !== 'active') {
+        return { success: false, error: 'Round is not active', code: 'ROUND_NOT_ACTIVE' };
+      }
 
-  // Calculate 2% buy fee
-  const feeAmount = solAmount * BUY_FEE;
-  const solAfterFee = solAmount - feeAmount;
+      if (isRoundExpired(round)) {
+        return { success: false, error: 'Round has ended', code: 'ROUND_ENDED' };
+      }
 
-  // Get current pool state
-  const pool: Pool = {
-    sol_balance: Number(round.pool_sol_balance),
-    token_supply: Number(round.pool_token_supply)
-  };
+      if (round.trading_halted) {
+        return { success: false, error: 'Trading is halted for this round', code: 'TRADING_HALTED' };
+      }
 
-  // Calculate multiplier BEFORE buy
-  const multiplierBefore = getMultiplier(pool);
+      // Auto-exit players are being sold out - a late buy would be left to forfeit
+      if (profile.auto_exit_enabled && isInAutoExitWindow(round)) {
+        return { success: false, error: 'Auto-exit is selling your position for the rest of this round', code: 'AUTO_EXIT_ACTIVE' };
+      }
 
-  // Tokens = SOL stake (1:1 in new system)
-  const tokensOut = calculateBuy(pool, solAfterFee);
-  if (tokensOut <= 0) {
-    return { success: false, error: 'Trade too small' };
-  }
+      // Settings this round was created with
+      const config = getRoundConfig(round);
+      const curve = config.pricing_curve;
 
-  // Apply to pool (just adds SOL to pool)
-  const newPool = applyBuy(pool, solAfterFee);
-  
-  // Calculate multiplier AFTER buy
-  const multiplierAfter = getMultiplier(newPool);
-  const priceMultiplier = multiplierAfter;
-  const newPrice = multiplierAfter;
-
-  // Calculate user's average entry (anti-self-profit mechanism)
-  const tradeEntryMultiplier = calculateAverageEntry(multiplierBefore, multiplierAfter);
-
-  // Get existing position to calculate weighted average entry
-  const existingPosition = await prisma.playerPosition.findUnique({
-    where: {
-      round_id_profile_id: {
-        round_id: roundId,
-        profile_id: profileId
+      // Calculate buy fee (rounds up in favour of the house)
+      const feeLamports = calculateFee(amountLamports, config.buy_fee);
+      const solAfterFee = amountLamports - feeLamports;
+
+      // Get current pool state
+      const pool: Pool = {
+        sol_balance: toLamports(round.pool_sol_balance),
+        token_supply: Number(round.pool_token_supply)
+      };
+
+      // Calculate multiplier BEFORE buy
+      const multiplierBefore = getMultiplier(pool, curve);
+
+      // Tokens = SOL stake (1:1 in new system)
+      const tokensOut = calculateBuy(pool, solAfterFee);
+      if (tokensOut <= ZERO_LAMPORTS) {
+        return { success: false, error: 'Trade too small', code: 'TRADE_TOO_SMALL' };
       }
-    }
-  });
 
-  // Calculate new weighted average entry multiplier
-  let newEntryPrice: number;
-  if (existingPosition && Number(existingPosition.token_balance) > 0 && existingPosition.entry_price) {
-    // Weighted average: (old_tokens * old_entry + new_tokens * trade_entry) / total_tokens
-    const oldTokens = Number(existingPosition.token_balance);
-    const oldEntry = Number(existingPosition.entry_price);
-    const totalTokens = oldTokens + tokensOut;
-    newEntryPrice = (oldTokens * oldEntry + tokensOut * tradeEntryMultiplier) / totalTokens;
-  } else {
-    // First buy - entry is the average multiplier
-    newEntryPrice = tradeEntryMultiplier;
-  }
+      // Apply to pool (just adds SOL to pool)
+      const newPool = applyBuy(pool, solAfterFee);
+      
+      // Calculate multiplier AFTER buy
+      const multiplierAfter = getMultiplier(newPool, curve);
+      const priceMultiplier = multiplierAfter;
+      const newPrice = multiplierAfter;
+
+      // Calculate user's average entry (anti-self-profit mechanism)
+      const tradeEntryMultiplier = calculateAverageEntry(multiplierBefore, multiplierAfter);
+
+      // Reject before writing anything if the pool moved past the player's limit
+      if (limits.maxEntryMultiplier !== undefined && tradeEntryMultiplier > limits.maxEntryMultiplier) {
+        return {
+          success: false,
+          error: `Slippage exceeded: entry ${tradeEntryMultiplier.toFixed(4)}x is above max ${limits.maxEntryMultiplier}x`,
+          code: 'SLIPPAGE_EXCEEDED',
+          slippage: {
+            max_entry_multiplier: limits.maxEntryMultiplier,
+            actual_entry_multiplier: tradeEntryMultiplier
+          }
+        };
+      }
 
-  // Execute transaction
-  const result = await prisma.$transaction(async (tx) => {
-    // Update round pool state
-    await tx.gameRound.update({
-      where: { id: roundId },
-      data: {
-        pool_sol_balance: newPool.sol_balance,
-        pool_token_supply: newPool.token_supply,
-        current_price: newPrice
+      // Get existing position to calculate weighted average entry
+      const existingPosition = await tx.playerPosition.findUnique({
+        where: {
+          round_id_profile_id: {
+            round_id: roundId,
+            profile_id: profileId
+          }
+        }
+      });
+
+      // Calculate new weighted average entry multiplier
+      let newEntryPrice: number;
+      const oldTokens = existingPosition ? toLamports(existingPosition.token_balance) : ZERO_LAMPORTS;
+      if (existingPosition && oldTokens > ZERO_LAMPORTS && existingPosition.entry_price) {
+        // Weighted average: (old_tokens * old_entry + new_tokens * trade_entry) / total_tokens
+        const oldEntry = Number(existingPosition.entry_price);
+        const totalTokens = Number(oldTokens + tokensOut);
+        newEntryPrice = (Number(oldTokens) * oldEntry + Number(tokensOut) * tradeEntryMultiplier) / totalTokens;
+      } else {
+        // First buy - entry is the average multiplier
+        newEntryPrice = tradeEntryMultiplier;
       }
-    });
 
-    // Update or create player position
-    const position = await tx.playerPosition.upsert({
-      where: {
-        round_id_profile_id: {
+      // Update round pool state and take the next trade sequence number
+      const updatedRound = await tx.gameRound.update({
+        where: { id: roundId },
+        data: {
+          pool_sol_balance: lamportsToDecimal(newPool.sol_balance),
+          pool_token_supply: newPool.token_supply,
+          current_price: newPrice,
+          trade_sequence: { increment: 1 }
+        }
+      });
+
+      // Update or create player position
+      const position = await tx.playerPosition.upsert({
+        where: {
+          round_id_profile_id: {
+            round_id: roundId,
+            profile_id: profileId
+          }
+        },
+        create: {
           round_id: roundId,
-          profile_id: profileId
+          profile_id: profileId,
+          token_balance: lamportsToDecimal(tokensOut),
+          total_sol_in: lamportsToDecimal(amountLamports),
+          total_sol_out: 0,
+          entry_price: newEntryPrice
+        },
+        update: {
+          token_balance: { increment: lamportsToDecimal(tokensOut) },
+          total_sol_in: { increment: lamportsToDecimal(amountLamports) },
+          entry_price: newEntryPrice
         }
-      },
-      create: {
-        round_id: roundId,
-        profile_id: profileId,
-        token_balance: tokensOut,
-        total_sol_in: solAmount,
-        total_sol_out: 0,
-        entry_price: newEntryPrice
-      },
-      update: {
-        token_balance: { increment: tokensOut },
-        total_sol_in: { increment: solAmount },
-        entry_price: newEntryPrice
-      }
-    });
-
-    // Deduct from profile balance (full amount including fee)
-    const updatedProfile = await tx.profile.update({
-      where: { id: profileId },
-      data: {
-        deposited_balance: { decrement: solAmount },
-        total_wagered: { increment: solAmount },
-        games_played: { increment: 1 }
-      }
-    });
-
-    // Record trade with fee going to house
-    await tx.trade.create({
-      data: {
-        round_id: roundId,
-        profile_id: profileId,
-        trade_type: 'buy',
-        sol_amount: solAmount,
-        token_amount: tokensOut,
-        price_at_trade: newPrice,
-        fee_amount: feeAmount
-      }
-    });
+      });
+
+      // Deduct from profile balance (full amount including fee)
+      // total_wagered / total_won are SOL stats - other assets only count games played
+      const updatedProfile = await tx.profile.update({
+        where: { id: profileId },
+        data: {
+          ...balanceChange(asset, { decrement: lamportsToDecimal(amountLamports) }),
+          ...(asset === 'sol' ? { total_wagered: { increment: lamportsToDecimal(amountLamports) } } : {}),
+          games_played: { increment: 1 }
+        }
+      });
 
-    return { position, updatedProfile };
+      // Record trade with fee going to house
+      const trade = await tx.trade.create({
+        data: {
+          round_id: roundId,
+          profile_id: profileId,
+          trade_type: 'buy',
+          sol_amount: lamportsToDecimal(amountLamports),
+          token_amount: lamportsToDecimal(tokensOut),
+          price_at_trade: newPrice,
+          fee_amount: lamportsToDecimal(feeLamports),
+          sequence: updatedRound.trade_sequence
+        }
+      });
+
+      // Stake goes to the pool, fee to the house
+      await recordTransfers(tx, [
+        { kind: 'buy', debit: LedgerAccounts.user(profileId), credit: LedgerAccounts.roundPool(roundId), amount: solAfterFee, reference: trade.id },
+        { kind: 'buy_fee', debit: LedgerAccounts.user(profileId), credit: LedgerAccounts.houseFees, amount: feeLamports, reference: trade.id }
+      ], asset);
+
+      console.log(`[Trade] BUY #${updatedRound.trade_sequence}: ${toSol(amountLamports)} ${ASSETS[asset].symbol} -> ${tokensOut} tokens, entry: ${newEntryPrice.toFixed(4)}x, mult: ${priceMultiplier.toFixed(4)}x`);
+
+      return {
+        success: true,
+        tokensTraded: toSol(tokensOut),
+        solAmount: toSol(amountLamports),
+        newPrice,
+        priceMultiplier,
+        newBalance: Number(getBalance(updatedProfile, asset)),
+        feeAmount: toSol(feeLamports),
+        entryMultiplier: newEntryPrice,
+        sequence: updatedRound.trade_sequence,
+        poolSolBalance: Number(updatedRound.pool_sol_balance),
+        poolTokenSupply: Number(updatedRound.pool_token_supply),
+        position: {
+          token_balance: Number(position.token_balance),
+          total_sol_in: Number(position.total_sol_in),
+          total_sol_out: Number(position.total_sol_out),
+          entry_price: Number(position.entry_price)
+        }
+      };
+    }, TRADE_TRANSACTION_OPTIONS);
+
+    if (result.success) {
+      await checkSolvencyAfterTrade(roundId);
+    }
+
+    return result;
   });
 
-  console.log(`[Trade] BUY: ${solAmount} SOL -> ${tokensOut} tokens, entry: ${newEntryPrice.toFixed(4)}x, mult: ${priceMultiplier.toFixed(4)}x`);
+  if (tradeResult.success && tradeResult.newPrice !== undefined) {
+    notifyPriceChange(roundId, tradeResult.newPrice);
+  }
 
-  return {
-    success: true,
-    tokensTraded: tokensOut,
-    solAmount: solAmount,
-    newPrice,
-    priceMultiplier,
-    newBalance: Number(result.updatedProfile.deposited_balance),
-    feeAmount,
-    entryMultiplier: newEntryPrice,
-    position: {
-      token_balance: Number(result.position.token_balance),
-      total_sol_in: Number(result.position.total_sol_in),
-      total_sol_out: Number(result.position.total_sol_out),
-      entry_price: Number(result.position.entry_price)
-    }
-  };
+  return tradeResult;
 }
 
 /**
@@ -230,150 +394,206 @@ export async function executeBuy(
  * 
  * New logic:
  * 1. Calculate SOL out based on: tokens * (currentMultiplier / entryMultiplier)
- * 2. Apply 2% sell fee
+ * 2. Apply the round's sell fee
  * 3. Safety: payout can never exceed pool balance
  */
 export async function executeSell(
   profileId: string, 
   roundId: string, 
-  tokensToSell: number
+  tokensToSell: number,
+  limits: TradeLimits = {}
 ): Promise<TradeResult> {
   // Validate minimum trade
   if (tokensToSell < MIN_TRADE) {
-    return { success: false, error: `Minimum trade is ${MIN_TRADE} SOL` };
+    return { success: false, error: `Minimum trade is ${MIN_TRADE}`, code: 'TRADE_TOO_SMALL' };
   }
 
-  // Get round
-  const round = await prisma.gameRound.findUnique({
-    where: { id: roundId }
-  });
+  const requestedTokens = toLamports(tokensToSell);
 
-  if (!round) {
-    return { success: false, error: 'Round not found' };
-  }
+  const tradeResult = await runSerialized(roundId, async () => {
+    const result = await prisma.$transaction(async (tx): Promise<TradeResult> => {
+      // Lock round then profile so this trade sees the state the previous one left
+      await lockRound(tx, roundId);
+      await lockProfile(tx, profileId);
 
-  if (round.status !== 'active') {
-    return { success: false, error: 'Round is not active' };
-  }
+      // Get round
+      const round = await tx.gameRound.findUnique({
+        where: { id: roundId }
+      });
 
-  if (isRoundExpired(round)) {
-    return { success: false, error: 'Round has ended' };
-  }
+      if (!round) {
+        return { success: false, error: 'Round not found', code: 'ROUND_NOT_FOUND' };
+      }
 
-  // Get player position
-  const position = await getPosition(roundId, profileId);
-  if (!position) {
-    return { success: false, error: 'No position in this round' };
-  }
+      if (round.status !== 'active') {
+        return { success: false, error: 'Round is not active', code: 'ROUND_NOT_ACTIVE' };
+      }
 
-  const tokenBalance = Number(position.token_balance);
-  if (tokenBalance <= 0) {
-    return { success: false, error: 'No tokens to sell' };
-  }
+      if (isRoundExpired(round)) {
+        return { success: false, error: 'Round has ended', code: 'ROUND_ENDED' };
+      }
 
-  // Get user's entry multiplier
-  const entryMultiplier = Number(position.entry_price) || 1;
+      if (round.trading_halted) {
+        return { success: false, error: 'Trading is halted for this round', code: 'TRADING_HALTED' };
+      }
 
-  // Cap at available balance
-  if (tokensToSell > tokenBalance) {
-    tokensToSell = tokenBalance;
-  }
+      const asset = round.quote_asset;
 
-  // Get current pool state
-  const pool: Pool = {
-    sol_balance: Number(round.pool_sol_balance),
-    token_supply: Number(round.pool_token_supply)
-  };
+      // Get player position
+      const position = await tx.playerPosition.findUnique({
+        where: {
+          round_id_profile_id: {
+            round_id: roundId,
+            profile_id: profileId
+          }
+        }
+      });
+      if (!position) {
+        return { success: false, error: 'No position in this round', code: 'NO_POSITION' };
+      }
 
-  // Calculate SOL out based on entry vs current multiplier
-  const solOutBeforeFee = calculateSell(pool, tokensToSell, entryMultiplier);
-  if (solOutBeforeFee <= 0) {
-    return { success: false, error: 'Trade too small or insufficient pool liquidity' };
-  }
+      const tokenBalance = toLamports(position.token_balance);
+      if (tokenBalance <= ZERO_LAMPORTS) {
+        return { success: false, error: 'No tokens to sell', code: 'NO_POSITION' };
+      }
 
-  // Apply 2% sell fee
-  const feeAmount = solOutBeforeFee * SELL_FEE;
-  const solAfterFee = solOutBeforeFee - feeAmount;
+      // Get user's entry multiplier
+      const entryMultiplier = Number(position.entry_price) || 1;
 
-  // Apply to pool (remove SOL from pool)
-  const newPool = applySell(pool, solOutBeforeFee);
-  const newPrice = getPrice(newPool);
-  const priceMultiplier = getPriceMultiplier(newPool);
-
-  // Check if this sell closes the entire position
-  const remainingTokens = tokenBalance - tokensToSell;
-  const shouldClearEntryPrice = remainingTokens <= 0.000001;
-
-  // Execute transaction
-  const result = await prisma.$transaction(async (tx) => {
-    // Update round pool state
-    await tx.gameRound.update({
-      where: { id: roundId },
-      data: {
-        pool_sol_balance: newPool.sol_balance,
-        pool_token_supply: newPool.token_supply,
-        current_price: newPrice
+      // Cap at available balance
+      const tokensLamports = minLamports(requestedTokens, tokenBalance);
+
+      // Settings this round was created with
+      const config = getRoundConfig(round);
+      const curve = config.pricing_curve;
+
+      // Get current pool state
+      const pool: Pool = {
+        sol_balance: toLamports(round.pool_sol_balance),
+        token_supply: Number(round.pool_token_supply)
+      };
+
+      // Calculate SOL out based on entry vs current multiplier (rounds down in favour of the pool)
+      const solOutBeforeFee = calculateSell(pool, tokensLamports, entryMultiplier, curve);
+      if (solOutBeforeFee <= ZERO_LAMPORTS) {
+        return { success: false, error: 'Trade too small or insufficient pool liquidity', code: 'INSUFFICIENT_LIQUIDITY' };
       }
-    });
 
-    // Update player position
-    const updatedPosition = await tx.playerPosition.update({
-      where: {
-        round_id_profile_id: {
+      // Apply sell fee (rounds up in favour of the house)
+      const feeLamports = calculateFee(solOutBeforeFee, config.sell_fee);
+      const solAfterFee = solOutBeforeFee - feeLamports;
+
+      // Reject before writing anything if the payout fell below the player's limit
+      if (limits.minSolOut !== undefined && solAfterFee < toLamports(limits.minSolOut, 'up')) {
+        return {
+          success: false,
+          error: `Slippage exceeded: ${toSol(solAfterFee)} ${ASSETS[asset].symbol} out is below min ${limits.minSolOut} ${ASSETS[asset].symbol}`,
+          code: 'SLIPPAGE_EXCEEDED',
+          slippage: {
+            min_sol_out: limits.minSolOut,
+            actual_sol_out: toSol(solAfterFee)
+          }
+        };
+      }
+
+      // Apply to pool (remove SOL from pool)
+      const newPool = applySell(pool, solOutBeforeFee);
+      const newPrice = getPrice(newPool, curve);
+      const priceMultiplier = getPriceMultiplier(newPool, curve);
+
+      // Check if this sell closes the entire position
+      const shouldClearEntryPrice = tokensLamports >= tokenBalance;
+
+      // Update round pool state and take the next trade sequence number
+      const updatedRound = await tx.gameRound.update({
+        where: { id: roundId },
+        data: {
+          pool_sol_balance: lamportsToDecimal(newPool.sol_balance),
+          pool_token_supply: newPool.token_supply,
+          current_price: newPrice,
+          trade_sequence: { increment: 1 }
+        }
+      });
+
+      // Update player position
+      const updatedPosition = await tx.playerPosition.update({
+        where: {
+          round_id_profile_id: {
+            round_id: roundId,
+            profile_id: profileId
+          }
+        },
+        data: {
+          token_balance: { decrement: lamportsToDecimal(tokensLamports) },
+          total_sol_out: { increment: lamportsToDecimal(solAfterFee) },
+          entry_price: shouldClearEntryPrice ? null : undefined
+        }
+      });
+
+      // Credit profile balance (after fee)
+      const updatedProfile = await tx.profile.update({
+        where: { id: profileId },
+        data: {
+          ...balanceChange(asset, { increment: lamportsToDecimal(solAfterFee) }),
+          ...(asset === 'sol' ? { total_won: { increment: lamportsToDecimal(solAfterFee) } } : {})
+        }
+      });
+
+      // Record trade
+      const trade = await tx.trade.create({
+        data: {
           round_id: roundId,
-          profile_id: profileId
+          profile_id: profileId,
+          trade_type: 'sell',
+          sol_amount: lamportsToDecimal(solOutBeforeFee),
+          token_amount: lamportsToDecimal(tokensLamports),
+          price_at_trade: newPrice,
+          fee_amount: lamportsToDecimal(feeLamports),
+          sequence: updatedRound.trade_sequence
         }
-      },
-      data: {
-        token_balance: { decrement: tokensToSell },
-        total_sol_out: { increment: solAfterFee },
-        entry_price: shouldClearEntryPrice ? null : undefined
-      }
-    });
-
-    // Credit profile balance (after fee)
-    const updatedProfile = await tx.profile.update({
-      where: { id: profileId },
-      data: {
-        deposited_balance: { increment: solAfterFee },
-        total_won: { increment: solAfterFee }
-      }
-    });
-
-    // Record trade
-    await tx.trade.create({
-      data: {
-        round_id: roundId,
-        profile_id: profileId,
-        trade_type: 'sell',
-        sol_amount: solOutBeforeFee,
-        token_amount: tokensToSell,
-        price_at_trade: newPrice,
-        fee_amount: feeAmount
-      }
-    });
+      });
+
+      // Payout and fee both leave the pool
+      await recordTransfers(tx, [
+        { kind: 'sell', debit: LedgerAccounts.roundPool(roundId), credit: LedgerAccounts.user(profileId), amount: solAfterFee, reference: trade.id },
+        { kind: 'sell_fee', debit: LedgerAccounts.roundPool(roundId), credit: LedgerAccounts.houseFees, amount: feeLamports, reference: trade.id }
+      ], asset);
+
+      const pnlRatio = getMultiplier(pool, curve) / entryMultiplier;
+      console.log(`[Trade] SELL #${updatedRound.trade_sequence}: ${tokensLamports} tokens -> ${toSol(solAfterFee)} ${ASSETS[asset].symbol}, entry: ${entryMultiplier.toFixed(4)}x, PnL: ${((pnlRatio - 1) * 100).toFixed(2)}%`);
+
+      return {
+        success: true,
+        tokensTraded: toSol(tokensLamports),
+        solAmount: toSol(solAfterFee),
+        newPrice,
+        priceMultiplier,
+        newBalance: Number(getBalance(updatedProfile, asset)),
+        feeAmount: toSol(feeLamports),
+        sequence: updatedRound.trade_sequence,
+        poolSolBalance: Number(updatedRound.pool_sol_balance),
+        poolTokenSupply: Number(updatedRound.pool_token_supply),
+        position: {
+          token_balance: Number(updatedPosition.token_balance),
+          total_sol_in: Number(updatedPosition.total_sol_in),
+          total_sol_out: Number(updatedPosition.total_sol_out),
+          entry_price: updatedPosition.entry_price ? Number(updatedPosition.entry_price) : null
+        }
+      };
+    }, TRADE_TRANSACTION_OPTIONS);
 
-    return { position: updatedPosition, updatedProfile };
+    if (result.success) {
+      await checkSolvencyAfterTrade(roundId);
+    }
+
+    return result;
   });
 
-  const pnlRatio = getMultiplier(pool) / entryMultiplier;
-  console.log(`[Trade] SELL: ${tokensToSell} tokens -> ${solAfterFee.toFixed(4)} SOL, entry: ${entryMultiplier.toFixed(4)}x, PnL: ${((pnlRatio - 1) * 100).toFixed(2)}%`);
+  if (tradeResult.success && tradeResult.newPrice !== undefined) {
+    notifyPriceChange(roundId, tradeResult.newPrice);
+  }
 
-  return {
-    success: true,
-    tokensTraded: tokensToSell,
-    solAmount: solAfterFee,
-    newPrice,
-    priceMultiplier,
-    newBalance: Number(result.updatedProfile.deposited_balance),
-    feeAmount,
-    position: {
-      token_balance: Number(result.position.token_balance),
-      total_sol_in: Number(result.position.total_sol_in),
-      total_sol_out: Number(result.position.total_sol_out),
-      entry_price: result.position.entry_price ? Number(result.position.entry_price) : null
-    }
-  };
+  return tradeResult;
 }
 
 /**
@@ -381,72 +601,89 @@ export async function executeSell(
  */
 export async function executeSellAll(
   profileId: string,
-  roundId: string
+  roundId: string,
+  limits: TradeLimits = {}
 ): Promise<TradeResult> {
   const position = await getPosition(roundId, profileId);
   if (!position) {
-    return { success: false, error: 'No position in this round' };
+    return { success: false, error: 'No position in this round', code: 'NO_POSITION' };
   }
 
-  const tokenBalance = Number(position.token_balance);
-  if (tokenBalance <= 0) {
-    return { success: false, error: 'No tokens to sell' };
+  if (toLamports(position.token_balance) <= ZERO_LAMPORTS) {
+    return { success: false, error: 'No tokens to sell', code: 'NO_POSITION' };
   }
 
-  return executeSell(profileId, roundId, tokenBalance);
+  return executeSell(profileId, roundId, Number(position.token_balance), limits);
 }
 
 /**
  * Get buy preview without executing
+ * Uses the same lamport rounding as executeBuy; amounts in and out are SOL
+ * maxEntryMultiplier is the entry this buy gets right now - pass it (plus tolerance) as the buy limit
  */
-export function previewBuy(pool: Pool, solAmount: number) {
-  const feeAmount = solAmount * BUY_FEE;
-  const solAfterFee = solAmount - feeAmount;
-  const multiplierBefore = getMultiplier(pool);
+export function previewBuy(pool: Pool, solAmount: number, config: RoundConfig = getDefaultRoundConfig()) {
+  const curve = config.pricing_curve;
+  const amountLamports = toLamports(solAmount);
+  const feeLamports = calculateFee(amountLamports, config.buy_fee);
+  const solAfterFee = amountLamports - feeLamports;
+  const multiplierBefore = getMultiplier(pool, curve);
   const newPool = applyBuy(pool, solAfterFee);
-  const multiplierAfter = getMultiplier(newPool);
+  const multiplierAfter = getMultiplier(newPool, curve);
   const entryMultiplier = calculateAverageEntry(multiplierBefore, multiplierAfter);
   const priceImpact = ((multiplierAfter - multiplierBefore) / multiplierBefore) * 100;
 
   return {
-    tokensOut: solAfterFee,
+    tokensOut: toSol(solAfterFee),
     newPrice: multiplierAfter,
     priceMultiplier: multiplierAfter,
     entryMultiplier,
+    maxEntryMultiplier: entryMultiplier,
     priceImpact,
-    feeAmount
+    feeAmount: toSol(feeLamports)
   };
 }
 
 /**
  * Get sell preview without executing
+ * Uses the same lamport rounding as executeSell; amounts in and out are SOL
+ * minSolOut is the payout this sell gets right now - pass it (minus tolerance) as the sell limit
  */
-export function previewSell(pool: Pool, tokensToSell: number, entryMultiplier: number) {
-  const solOutBeforeFee = calculateSell(pool, tokensToSell, entryMultiplier);
-  const feeAmount = solOutBeforeFee * SELL_FEE;
-  const solAfterFee = solOutBeforeFee - feeAmount;
+export function previewSell(
+  pool: Pool, 
+  tokensToSell: number, 
+  entryMultiplier: number, 
+  config: RoundConfig = getDefaultRoundConfig()
+) {
+  const curve = config.pricing_curve;
+  const solOutBeforeFee = calculateSell(pool, toLamports(tokensToSell), entryMultiplier, curve);
+  const feeLamports = calculateFee(solOutBeforeFee, config.sell_fee);
+  const solAfterFee = solOutBeforeFee - feeLamports;
   const newPool = applySell(pool, solOutBeforeFee);
-  const newMultiplier = getMultiplier(newPool);
-  const currentMultiplier = getMultiplier(pool);
+  const newMultiplier = getMultiplier(newPool, curve);
+  const currentMultiplier = getMultiplier(pool, curve);
   const priceImpact = ((currentMultiplier - newMultiplier) / currentMultiplier) * 100;
 
   return {
-    solOut: solAfterFee,
+    solOut: toSol(solAfterFee),
+    minSolOut: toSol(solAfterFee),
     newPrice: newMultiplier,
     priceMultiplier: newMultiplier,
     priceImpact,
-    feeAmount
+    feeAmount: toSol(feeLamports)
   };
 }
 
 /**
  * Calculate accumulated fees for a round (for house wallet)
  */
-export async function getRoundFees(roundId: string): Promise<number> {
-  const trades = await prisma.trade.findMany({
+export async function getRoundFees(
+  roundId: string,
+  client: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<Lamports> {
+  const trades = await client.trade.findMany({
     where: { round_id: roundId },
     select: { fee_amount: true }
   });
   
-  return trades.reduce((sum, t) => sum + Number(t.fee_amount), 0);
+  return sumLamports(trades.map(t => toLamports(t.fee_amount)));
 }
@@ -0,0 +1,541 @@
+import { Asset, Prisma, Withdrawal, WithdrawalStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../lib/prisma';
+import { SolanaGateway, rpcGateway, signEscrowTransfer, signEscrowTokenTransfer } from '../lib/solana';
+import { Lamports, ZERO_LAMPORTS, toLamports, toSol, lamportsToDecimal } from '../lib/lamports';
+import { ASSETS, toChainUnits, truncateToChainPrecision, getBalance, balanceChange } from '../lib/assets';
+import { sendBalanceUpdate } from '../websocket/broadcast';
+import { recordTransfers, LedgerAccounts } from './ledgerService';
+
+/**
+ * Withdrawals
+ *
+ * A withdrawal moves through requested -> signed -> submitted -> confirmed,
+ * or to failed (refunded). Each state is saved before the step that follows
+ * it, so whatever a crash interrupts can be finished at boot:
+ *   requested  nothing was signed - sign now (or refund if signing fails)
+ *   signed /   the stored transaction may be on chain - check its signature,
+ *   submitted  rebroadcast the same bytes while its blockhash is valid, and
+ *              refund only once the chain is past lastValidBlockHeight
+ *              without it, when it can no longer land
+ * The request waits up to WITHDRAWAL_WAIT_MS for the result; the worker
+ * finishes anything still in flight.
+ *
+ * Before any of that, a request must fit the per-wallet hourly and daily caps
+ * and not follow a deposit too closely. Amounts over the review threshold
+ * start in pending_review (balance already held) until an admin approves or
+ * rejects them. Caps and thresholds are per asset.
+ *
+ * USDC withdrawals are SPL transfers from the escrow's token account to the
+ * player's (created in the same transaction if missing) - same state machine.
+ */
+
+const REQUEST_WAIT = Number(process.env.WITHDRAWAL_WAIT_MS) || 30000;
+const STATUS_POLL = 2000;
+const WORKER_INTERVAL = 15000;
+
+// Limits - 0 turns each one off
+const optionalAmount = (value: string | undefined) => value && Number(value) > 0 ? toLamports(value) : null;
+
+export interface WithdrawalLimits {
+  hourly: Lamports | null;
+  daily: Lamports | null;
+  reviewThreshold: Lamports | null;
+}
+
+// WITHDRAWAL_HOURLY_LIMIT_<SYMBOL>, WITHDRAWAL_DAILY_LIMIT_<SYMBOL>, WITHDRAWAL_REVIEW_THRESHOLD_<SYMBOL>
+const limitsFromEnv = (asset: Asset): WithdrawalLimits => {
+  const { symbol } = ASSETS[asset];
+  return {
+    hourly: optionalAmount(process.env[`WITHDRAWAL_HOURLY_LIMIT_${symbol}`]),
+    daily: optionalAmount(process.env[`WITHDRAWAL_DAILY_LIMIT_${symbol}`]),
+    reviewThreshold: optionalAmount(process.env[`WITHDRAWAL_REVIEW_THRESHOLD_${symbol}`])
+  };
+};
+
+export const WITHDRAWAL_LIMITS: Record<Asset, WithdrawalLimits> = {
+  sol: limitsFromEnv('sol'),
+  usdc: limitsFromEnv('usdc')
+};
+// Minutes after a confirmed deposit before the wallet can withdraw
+export const WITHDRAWAL_DEPOSIT_COOLDOWN_MINUTES = Number(process.env.WITHDRAWAL_DEPOSIT_COOLDOWN_MINUTES) || 0;
+
+let workerInterval: NodeJS.Timeout | null = null;
+// Withdrawals being driven in this process - the worker skips them
+const inFlight = new Set<string>();
+
+export interface WithdrawalRequest {
+  withdrawal: Withdrawal;
+  balance: Decimal;   // Balance of the withdrawn asset after the deduction
+}
+
+const UNFINISHED: WithdrawalStatus[] = ['requested', 'signed', 'submitted'];
+
+const LIMIT_WINDOWS = [
+  { name: 'hourly', ms: 60 * 60 * 1000, limit: (limits: WithdrawalLimits) => limits.hourly },
+  { name: 'daily', ms: 24 * 60 * 60 * 1000, limit: (limits: WithdrawalLimits) => limits.daily }
+];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Enforce the deposit cooldown and the asset's hourly / daily caps
+ * Call with the profile row locked so concurrent requests can't both fit
+ * Throws WITHDRAWAL_COOLDOWN:<seconds left> or WITHDRAWAL_LIMIT:<window>:<amount left>
+ */
+async function checkWithdrawalLimits(
+  tx: Prisma.TransactionClient,
+  profileId: string,
+  amount: Lamports,
+  asset: Asset
+): Promise<void> {
+  const now = Date.now();
+
+  if (WITHDRAWAL_DEPOSIT_COOLDOWN_MINUTES > 0) {
+    const lastDeposit = await tx.depositHistory.findFirst({
+      where: { profile_id: profileId, tx_type: 'deposit', status: 'confirmed' },
+      orderBy: { created_at: 'desc' }
+    });
+    const cooldownEnds = lastDeposit
+      ? lastDeposit.created_at.getTime() + WITHDRAWAL_DEPOSIT_COOLDOWN_MINUTES * 60 * 1000
+      : 0;
+    if (cooldownEnds > now) {
+      throw new Error(`WITHDRAWAL_COOLDOWN:${Math.ceil((cooldownEnds - now) / 1000)}`);
+    }
+  }
+
+  for (const window of LIMIT_WINDOWS) {
+    const limit = window.limit(WITHDRAWAL_LIMITS[asset]);
+    if (limit === null) continue;
+
+    // Everything not refunded counts, including withdrawals still in review
+    const recent = await tx.withdrawal.aggregate({
+      where: {
+        profile_id: profileId,
+        asset,
+        status: { not: 'failed' },
+        created_at: { gte: new Date(now - window.ms) }
+      },
+      _sum: { amount: true }
+    });
+    const used = recent._sum.amount ? toLamports(recent._sum.amount) : ZERO_LAMPORTS;
+    if (used + amount > limit) {
+      const left = limit > used ? limit - used : ZERO_LAMPORTS;
+      throw new Error(`WITHDRAWAL_LIMIT:${window.name}:${toSol(left)}`);
+    }
+  }
+}
+
+/**
+ * Deduct the balance and queue a withdrawal to the player's wallet
+ * The amount is cut to what the asset can carry on chain (USDC has 6 decimals)
+ * Throws PROFILE_NOT_FOUND, INSUFFICIENT_BALANCE:<balance> or a limit error (checkWithdrawalLimits)
+ */
+export async function requestWithdrawal(
+  walletAddress: string,
+  requested: Lamports,
+  asset: Asset = 'sol'
+): Promise<WithdrawalRequest> {
+  const amount = truncateToChainPrecision(asset, requested);
+  const { symbol } = ASSETS[asset];
+
+  return prisma.$transaction(async (tx) => {
+    // Lock the profile row for update (prevents concurrent withdrawals)
+    const profiles = await tx.$queryRaw<Array<{
+      id: string;
+      deposited_balance: Decimal;
+      usdc_balance: Decimal;
+    }>>`
+      SELECT id, deposited_balance, usdc_balance
+      FROM profiles
+      WHERE wallet_address = ${walletAddress}
+      FOR UPDATE
+    `;
+
+    if (profiles.length === 0) {
+      throw new Error('PROFILE_NOT_FOUND');
+    }
+
+    const profile = profiles[0];
+    const currentBalance = toLamports(getBalance(profile, asset));
+
+    if (currentBalance < amount) {
+      throw new Error(`INSUFFICIENT_BALANCE:${toSol(currentBalance)}`);
+    }
+
+    await checkWithdrawalLimits(tx, profile.id, amount, asset);
+    const { reviewThreshold } = WITHDRAWAL_LIMITS[asset];
+    const needsReview = reviewThreshold !== null && amount > reviewThreshold;
+
+    // Deduct balance BEFORE sending anything (safer - can refund on failure)
+    const updatedProfile = await tx.profile.update({
+      where: { id: profile.id },
+      data: balanceChange(asset, { decrement: lamportsToDecimal(amount) })
+    });
+
+    const history = await tx.depositHistory.create({
+      data: {
+        profile_id: profile.id,
+        asset,
+        tx_type: 'withdrawal',
+        amount: lamportsToDecimal(amount),
+        status: needsReview ? 'pending_review' : 'pending'
+      }
+    });
+
+    const withdrawal = await tx.withdrawal.create({
+      data: {
+        profile_id: profile.id,
+        history_id: history.id,
+        destination: walletAddress,
+        asset,
+        amount: lamportsToDecimal(amount),
+        status: needsReview ? 'pending_review' : 'requested'
+      }
+    });
+
+    await recordTransfers(tx, [{
+      kind: 'withdrawal',
+      debit: LedgerAccounts.user(profile.id),
+      credit: LedgerAccounts.escrow,
+      amount,
+      reference: history.id
+    }], asset);
+
+    if (needsReview) {
+      console.log(`[Withdraw] ${toSol(amount)} ${symbol} to ${walletAddress} held for review`);
+    }
+
+    return { withdrawal, balance: getBalance(updatedProfile, asset) };
+  });
+}
+
+/**
+ * requested -> signed
+ * Nothing has been broadcast yet, so a failure here is safe to refund
+ */
+async function signWithdrawal(withdrawal: Withdrawal, solana: SolanaGateway): Promise<Withdrawal> {
+  let signed: { signature: string; serialized: string };
+  let lastValidBlockHeight: number;
+  try {
+    const latest = await solana.getLatestBlockhash();
+    const { mint, decimals } = ASSETS[withdrawal.asset];
+    const amount = toLamports(withdrawal.amount);
+    signed = mint
+      ? signEscrowTokenTransfer(withdrawal.destination, mint, toChainUnits(withdrawal.asset, amount), decimals, latest.blockhash)
+      : signEscrowTransfer(withdrawal.destination, amount, latest.blockhash);
+    lastValidBlockHeight = latest.lastValidBlockHeight;
+  } catch (error) {
+    return refundWithdrawal(withdrawal, `Could not sign transfer: ${(error as Error).message}`, ['requested']);
+  }
+
+  const [updated] = await prisma.$transaction([
+    prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: {
+        status: 'signed',
+        signed_transaction: signed.serialized,
+        tx_signature: signed.signature,
+        last_valid_block_height: BigInt(lastValidBlockHeight)
+      }
+    }),
+    prisma.depositHistory.update({
+      where: { id: withdrawal.history_id },
+      data: { tx_signature: signed.signature }
+    })
+  ]);
+  return updated;
+}
+
+/**
+ * Send the stored transaction - same bytes every time, so it can only land once
+ */
+async function broadcast(withdrawal: Withdrawal, solana: SolanaGateway): Promise<Withdrawal> {
+  try {
+    await solana.sendTransaction(withdrawal.signed_transaction as string);
+  } catch (error) {
+    // Not necessarily lost (e.g. already processed) - the signature check decides
+    console.error(`[Withdraw] Broadcast of ${withdrawal.tx_signature} failed:`, (error as Error).message);
+    return prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: { attempts: { increment: 1 }, error: (error as Error).message }
+    });
+  }
+
+  return prisma.withdrawal.update({
+    where: { id: withdrawal.id },
+    data: { status: 'submitted', attempts: { increment: 1 }, error: null }
+  });
+}
+
+/**
+ * Has the signed transaction landed, failed, or expired unseen?
+ */
+async function checkWithdrawal(withdrawal: Withdrawal, solana: SolanaGateway): Promise<'confirmed' | 'failed' | 'expired' | 'pending'> {
+  // Height first: if the chain is already past the blockhash and the signature
+  // still isn't there, it never will be
+  const height = await solana.getBlockHeight();
+  const state = await solana.getSignatureState(withdrawal.tx_signature as string);
+  if (state !== 'pending') {
+    return state;
+  }
+  return BigInt(height) > (withdrawal.last_valid_block_height as bigint) ? 'expired' : 'pending';
+}
+
+async function confirmWithdrawal(withdrawal: Withdrawal): Promise<Withdrawal> {
+  const [updated] = await prisma.$transaction([
+    prisma.withdrawal.update({
+      where: { id: withdrawal.id },
+      data: { status: 'confirmed', error: null }
+    }),
+    prisma.depositHistory.update({
+      where: { id: withdrawal.history_id },
+      data: { status: 'confirmed' }
+    })
+  ]);
+
+  console.log(`[Withdraw] Sent ${toSol(toLamports(withdrawal.amount))} ${ASSETS[withdrawal.asset].symbol} to ${withdrawal.destination}, tx: ${withdrawal.tx_signature}`);
+  return updated;
+}
+
+/**
+ * Give the balance back - only once nothing can still land on chain
+ * A no-op unless the withdrawal is still in one of the `from` states
+ */
+async function refundWithdrawal(
+  withdrawal: Withdrawal,
+  reason: string,
+  from: WithdrawalStatus[] = UNFINISHED,
+  review?: { note: string | null }
+): Promise<Withdrawal> {
+  const amount = toLamports(withdrawal.amount);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.withdrawal.updateMany({
+      where: { id: withdrawal.id, status: { in: from } },
+      data: {
+        status: 'failed',
+        error: reason,
+        ...(review ? { reviewed_at: new Date(), review_note: review.note } : {})
+      }
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const profile = await tx.profile.update({
+      where: { id: withdrawal.profile_id },
+      data: balanceChange(withdrawal.asset, { increment: lamportsToDecimal(amount) })
+    });
+
+    await tx.depositHistory.update({
+      where: { id: withdrawal.history_id },
+      data: { status: 'failed' }
+    });
+
+    await recordTransfers(tx, [{
+      kind: 'withdrawal_refund',
+      debit: LedgerAccounts.escrow,
+      credit: LedgerAccounts.user(withdrawal.profile_id),
+      amount,
+      reference: withdrawal.history_id
+    }], withdrawal.asset);
+
+    return getBalance(profile, withdrawal.asset);
+  });
+
+  const updated = await prisma.withdrawal.findUniqueOrThrow({ where: { id: withdrawal.id } });
+  if (result === null) {
+    return updated;
+  }
+
+  console.log(`[Withdraw] Refunded ${toSol(amount)} ${ASSETS[withdrawal.asset].symbol} to ${withdrawal.destination}: ${reason}`);
+  sendBalanceUpdate(withdrawal.destination, {
+    asset: withdrawal.asset,
+    deposited_balance: Number(result),
+    change: toSol(amount),
+    reason: review ? 'Withdrawal rejected - refunded' : 'Withdrawal failed - refunded'
+  });
+  return updated;
+}
+
+/**
+ * Drive a withdrawal as far as it can go in waitMs
+ * Returns its state - confirmed, failed, or still in flight for the worker to finish
+ */
+export async function processWithdrawal(
+  id: string,
+  solana: SolanaGateway = rpcGateway,
+  waitMs = REQUEST_WAIT
+): Promise<Withdrawal> {
+  if (inFlight.has(id)) {
+    return prisma.withdrawal.findUniqueOrThrow({ where: { id } });
+  }
+  inFlight.add(id);
+
+  try {
+    const deadline = Date.now() + waitMs;
+    let withdrawal = await prisma.withdrawal.findUniqueOrThrow({ where: { id } });
+
+    if (withdrawal.status === 'requested') {
+      withdrawal = await signWithdrawal(withdrawal, solana);
+    }
+    if (withdrawal.status === 'signed' && withdrawal.attempts === 0) {
+      withdrawal = await broadcast(withdrawal, solana);
+    }
+
+    while (withdrawal.status === 'signed' || withdrawal.status === 'submitted') {
+      const outcome = await checkWithdrawal(withdrawal, solana);
+      if (outcome === 'confirmed') {
+        return confirmWithdrawal(withdrawal);
+      }
+      if (outcome === 'failed') {
+        return refundWithdrawal(withdrawal, 'Transaction failed on chain');
+      }
+      if (outcome === 'expired') {
+        return refundWithdrawal(withdrawal, 'Transaction expired without landing');
+      }
+
+      if (Date.now() >= deadline) {
+        break;
+      }
+      await sleep(STATUS_POLL);
+      withdrawal = await broadcast(withdrawal, solana);
+    }
+
+    return withdrawal;
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+/**
+ * Push every unfinished withdrawal one step further (boot and every WORKER_INTERVAL)
+ */
+export async function resumeWithdrawals(solana: SolanaGateway = rpcGateway): Promise<void> {
+  const unfinished = await prisma.withdrawal.findMany({
+    where: { status: { in: UNFINISHED } },
+    orderBy: { created_at: 'asc' }
+  });
+
+  for (const withdrawal of unfinished) {
+    if (inFlight.has(withdrawal.id)) continue;
+    try {
+      // A rebroadcast per pass keeps it alive until it lands or its blockhash expires
+      if (withdrawal.status !== 'requested' && withdrawal.attempts > 0) {
+        await broadcast(withdrawal, solana);
+      }
+      await processWithdrawal(withdrawal.id, solana, 0);
+    } catch (error) {
+      console.error(`[Withdraw] Error resuming withdrawal ${withdrawal.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Withdrawals in a state (newest first), with the player's wallet
+ */
+export async function listWithdrawals(status: WithdrawalStatus, limit = 100) {
+  return prisma.withdrawal.findMany({
+    where: { status },
+    include: { profile: { select: { wallet_address: true, username: true } } },
+    orderBy: { created_at: 'desc' },
+    take: limit
+  });
+}
+
+/**
+ * Release a held withdrawal into the send pipeline
+ * Throws WITHDRAWAL_NOT_FOUND or WITHDRAWAL_NOT_IN_REVIEW
+ */
+export async function approveWithdrawal(id: string, note?: string, solana: SolanaGateway = rpcGateway): Promise<Withdrawal> {
+  const withdrawal = await prisma.withdrawal.findUnique({ where: { id } });
+  if (!withdrawal) {
+    throw new Error('WITHDRAWAL_NOT_FOUND');
+  }
+
+  const approved = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.withdrawal.updateMany({
+      where: { id, status: 'pending_review' },
+      data: { status: 'requested', reviewed_at: new Date(), review_note: note || null }
+    });
+    if (count === 0) {
+      return false;
+    }
+    await tx.depositHistory.update({
+      where: { id: withdrawal.history_id },
+      data: { status: 'pending' }
+    });
+    return true;
+  });
+  if (!approved) {
+    throw new Error('WITHDRAWAL_NOT_IN_REVIEW');
+  }
+
+  console.log(`[Withdraw] Approved ${toSol(toLamports(withdrawal.amount))} ${ASSETS[withdrawal.asset].symbol} to ${withdrawal.destination}`);
+
+  // Send in the background - the worker retries if this pass doesn't finish it
+  processWithdrawal(id, solana).catch(error => {
+    console.error(`[Withdraw] Error sending approved withdrawal ${id}:`, error);
+  });
+
+  return prisma.withdrawal.findUniqueOrThrow({ where: { id } });
+}
+
+/**
+ * Refuse a held withdrawal and refund the player
+ * Throws WITHDRAWAL_NOT_FOUND or WITHDRAWAL_NOT_IN_REVIEW
+ */
+export async function rejectWithdrawal(id: string, note?: string): Promise<Withdrawal> {
+  const withdrawal = await prisma.withdrawal.findUnique({ where: { id } });
+  if (!withdrawal) {
+    throw new Error('WITHDRAWAL_NOT_FOUND');
+  }
+  if (withdrawal.status !== 'pending_review') {
+    throw new Error('WITHDRAWAL_NOT_IN_REVIEW');
+  }
+
+  const rejected = await refundWithdrawal(withdrawal, 'Rejected by review', ['pending_review'], { note: note || null });
+  // Approved in the meantime
+  if (rejected.status !== 'failed') {
+    throw new Error('WITHDRAWAL_NOT_IN_REVIEW');
+  }
+  return rejected;
+}
+
+/**
+ * Start the withdrawal worker - resumes anything a restart interrupted
+ */
+export function startWithdrawalWorker(solana: SolanaGateway = rpcGateway) {
+  if (workerInterval) {
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await resumeWithdrawals(solana);
+    } catch (error) {
+      console.error('[Withdraw] Worker pass failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  workerInterval = setInterval(() => { void run(); }, WORKER_INTERVAL);
+  void run();
+}
+
+/**
+ * Stop the withdrawal worker
+ */
+export function stopWithdrawalWorker() {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
@@ -1,16 +1,23 @@
 import { WebSocket } from 'ws';
+import { Asset } from '@prisma/client';
 import { 
   getAllClients, 
   getSubscribers, 
-  getClientByWallet, 
+  getClientsByWallet, 
   sendToClient,
+  roomChannel,
   CHANNELS 
 } from './server';
+import { calculatePositionPnl, calculateUnrealizedPnl } from '../lib/poolEngine';
+import { toLamports, toSol } from '../lib/lamports';
+import { ASSETS } from '../lib/assets';
+import { recordMessage } from './replay';
 
 // Event types
 export const WS_EVENTS = {
   // Round events
-  ROUND_UPDATE: 'ROUND_UPDATE',
+  ROUND_SNAPSHOT: 'ROUND_SNAPSHOT',
+  ROUND_DELTA: 'ROUND_DELTA',
   ROUND_STARTED: 'ROUND_STARTED',
   ROUND_ENDING: 'ROUND_ENDING',
   ROUND_ENDED: 'ROUND_ENDED',
@@ -23,73 +30,46 @@ export const WS_EVENTS = {
   // Position events
   POSITION_UPDATE: 'POSITION_UPDATE',
   BALANCE_UPDATE: 'BALANCE_UPDATE',
+  ORDER_UPDATE: 'ORDER_UPDATE',
+  AUTO_EXIT: 'AUTO_EXIT',
   
   // Chat events
   CHAT: 'CHAT',
   
   // Other
-  FORFEITURE: 'FORFEITURE'
+  FORFEITURE: 'FORFEITURE',
+  SOLVENCY_ALERT: 'SOLVENCY_ALERT'
 } as const;
 
-// Round data for broadcast
-export interface RoundBroadcast {
-  id: string;
-  status: string;
-  pool_sol_balance: number;
-  pool_token_supply: number;
-  current_price: number;
-  price_multiplier: number;
-  time_remaining: number;
-  positions_count?: number;
-}
-
-// Trade data for broadcast
-export interface TradeBroadcast {
-  id?: string;
-  round_id: string;
-  trade_type: 'buy' | 'sell';
-  username: string;
-  wallet_address: string;
-  sol_amount: number;
-  token_amount: number;
-  price: number;
-  timestamp: number;
-}
-
-// Chat data for broadcast
-export interface ChatBroadcast {
-  id: string;
-  username: string;
-  wallet_address?: string;
-  message: string;
-  room: string;
-  created_at: Date;
-}
-
-// Position update for specific user
-export interface PositionBroadcast {
-  round_id: string;
-  token_balance: number;
-  total_sol_in: number;
-  total_sol_out: number;
-  current_value: number;
-  pnl: number;
-  pnl_percent: number;
-}
-
-// Balance update for specific user
-export interface BalanceBroadcast {
-  deposited_balance: number;
-  change: number;
-  reason: string;
-}
+// Payload types - described by the schemas in schemas/events.ts
+export type {
+  RoundBroadcast,
+  TradeBroadcast,
+  ChatBroadcast,
+  PositionBroadcast,
+  BalanceBroadcast,
+  OrderBroadcast,
+  AutoExitBroadcast,
+  SolvencyAlertBroadcast
+} from '../schemas/events';
+import type {
+  RoundBroadcast,
+  TradeBroadcast,
+  ChatBroadcast,
+  PositionBroadcast,
+  BalanceBroadcast,
+  OrderBroadcast,
+  AutoExitBroadcast,
+  SolvencyAlertBroadcast
+} from '../schemas/events';
 
 /**
  * Broadcast to all clients subscribed to a channel
+ * Stamped with the channel's sequence number and kept for resume
  */
-function broadcastToChannel(channel: string, data: object): void {
+export function broadcastToChannel(channel: string, data: object): void {
   const subscribers = getSubscribers(channel);
-  const message = JSON.stringify(data);
+  const message = JSON.stringify(recordMessage(channel, data));
   
   subscribers.forEach(client => {
     if (client.ws.readyState === WebSocket.OPEN) {
@@ -113,21 +93,10 @@ export function broadcastToAll(data: object): void {
 }
 
 /**
- * Broadcast round update to round subscribers
- */
-export function broadcastRoundUpdate(round: RoundBroadcast): void {
-  broadcastToChannel(CHANNELS.ROUND, {
-    type: WS_EVENTS.ROUND_UPDATE,
-    round,
-    timestamp: Date.now()
-  });
-}
-
-/**
- * Broadcast round started event
+ * Broadcast round started event to the round's room
  */
 export function broadcastRoundStarted(round: RoundBroadcast): void {
-  broadcastToChannel(CHANNELS.ROUND, {
+  broadcastToChannel(roomChannel(CHANNELS.ROUND, round.quote_asset), {
     type: WS_EVENTS.ROUND_STARTED,
     round,
     timestamp: Date.now()
@@ -137,8 +106,8 @@ export function broadcastRoundStarted(round: RoundBroadcast): void {
 /**
  * Broadcast round ending warning (last few seconds)
  */
-export function broadcastRoundEnding(roundId: string, secondsRemaining: number): void {
-  broadcastToChannel(CHANNELS.ROUND, {
+export function broadcastRoundEnding(asset: Asset, roundId: string, secondsRemaining: number): void {
+  broadcastToChannel(roomChannel(CHANNELS.ROUND, asset), {
     type: WS_EVENTS.ROUND_ENDING,
     round_id: roundId,
     seconds_remaining: secondsRemaining,
@@ -150,12 +119,13 @@ export function broadcastRoundEnding(roundId: string, secondsRemaining: number):
  * Broadcast round ended event
  */
 export function broadcastRoundEnded(
+  asset: Asset,
   roundId: string, 
   finalPrice: number, 
   poolSolBalance: number,
   forfeitures: { profile_id: string; tokens_forfeited: number; sol_value_lost: number }[]
 ): void {
-  broadcastToChannel(CHANNELS.ROUND, {
+  broadcastToChannel(roomChannel(CHANNELS.ROUND, asset), {
     type: WS_EVENTS.ROUND_ENDED,
     round_id: roundId,
     final_price: finalPrice,
@@ -168,8 +138,8 @@ export function broadcastRoundEnded(
 /**
  * Broadcast countdown between rounds
  */
-export function broadcastCountdown(secondsRemaining: number): void {
-  broadcastToChannel(CHANNELS.ROUND, {
+export function broadcastCountdown(asset: Asset, secondsRemaining: number): void {
+  broadcastToChannel(roomChannel(CHANNELS.ROUND, asset), {
     type: WS_EVENTS.COUNTDOWN,
     seconds_remaining: secondsRemaining,
     message: secondsRemaining > 0 
@@ -182,8 +152,8 @@ export function broadcastCountdown(secondsRemaining: number): void {
 /**
  * Broadcast trade to trades subscribers
  */
-export function broadcastTrade(trade: TradeBroadcast): void {
-  broadcastToChannel(CHANNELS.TRADES, {
+export function broadcastTrade(asset: Asset, trade: TradeBroadcast): void {
+  broadcastToChannel(roomChannel(CHANNELS.TRADES, asset), {
     type: WS_EVENTS.TRADE,
     trade,
     timestamp: Date.now()
@@ -194,13 +164,14 @@ export function broadcastTrade(trade: TradeBroadcast): void {
  * Broadcast price update
  */
 export function broadcastPriceUpdate(
+  asset: Asset,
   roundId: string,
   price: number,
   priceMultiplier: number,
   poolSol: number,
   poolTokens: number
 ): void {
-  broadcastToChannel(CHANNELS.PRICES, {
+  broadcastToChannel(roomChannel(CHANNELS.PRICES, asset), {
     type: WS_EVENTS.PRICE_UPDATE,
     round_id: roundId,
     price,
@@ -209,15 +180,15 @@ export function broadcastPriceUpdate(
     pool_token_supply: poolTokens,
     timestamp: Date.now()
   });
-  
-  // Also send to round subscribers
-  broadcastToChannel(CHANNELS.ROUND, {
-    type: WS_EVENTS.PRICE_UPDATE,
-    round_id: roundId,
-    price,
-    price_multiplier: priceMultiplier,
-    pool_sol_balance: poolSol,
-    pool_token_supply: poolTokens,
+}
+
+/**
+ * Broadcast solvency alert to round subscribers
+ */
+export function broadcastSolvencyAlert(asset: Asset, alert: SolvencyAlertBroadcast): void {
+  broadcastToChannel(roomChannel(CHANNELS.ROUND, asset), {
+    type: WS_EVENTS.SOLVENCY_ALERT,
+    alert,
     timestamp: Date.now()
   });
 }
@@ -237,28 +208,44 @@ export function broadcastChat(message: ChatBroadcast): void {
  * Send position update to specific wallet
  */
 export function sendPositionUpdate(walletAddress: string, position: PositionBroadcast): void {
-  const client = getClientByWallet(walletAddress);
-  if (client) {
-    sendToClient(client.ws, {
-      type: WS_EVENTS.POSITION_UPDATE,
-      position,
-      timestamp: Date.now()
-    });
-  }
+  sendToWallet(walletAddress, {
+    type: WS_EVENTS.POSITION_UPDATE,
+    position,
+    timestamp: Date.now()
+  });
 }
 
 /**
  * Send balance update to specific wallet
  */
 export function sendBalanceUpdate(walletAddress: string, balance: BalanceBroadcast): void {
-  const client = getClientByWallet(walletAddress);
-  if (client) {
-    sendToClient(client.ws, {
-      type: WS_EVENTS.BALANCE_UPDATE,
-      balance,
-      timestamp: Date.now()
-    });
-  }
+  sendToWallet(walletAddress, {
+    type: WS_EVENTS.BALANCE_UPDATE,
+    balance,
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Send conditional order update to specific wallet
+ */
+export function sendOrderUpdate(walletAddress: string, order: OrderBroadcast): void {
+  sendToWallet(walletAddress, {
+    type: WS_EVENTS.ORDER_UPDATE,
+    order,
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Send auto-exit result to specific wallet
+ */
+export function sendAutoExitNotification(walletAddress: string, autoExit: AutoExitBroadcast): void {
+  sendToWallet(walletAddress, {
+    type: WS_EVENTS.AUTO_EXIT,
+    ...autoExit,
+    timestamp: Date.now()
+  });
 }
 
 /**
@@ -267,26 +254,24 @@ export function sendBalanceUpdate(walletAddress: string, balance: BalanceBroadca
 export function sendForfeitureNotification(
   walletAddress: string, 
   tokensForfeited: number, 
-  solValueLost: number
+  solValueLost: number,
+  asset: Asset = 'sol'
 ): void {
-  const client = getClientByWallet(walletAddress);
-  if (client) {
-    sendToClient(client.ws, {
-      type: WS_EVENTS.FORFEITURE,
-      tokens_forfeited: tokensForfeited,
-      sol_value_lost: solValueLost,
-      message: `Round ended! You forfeited ${tokensForfeited.toFixed(2)} tokens worth ${solValueLost.toFixed(4)} SOL`,
-      timestamp: Date.now()
-    });
-  }
+  sendToWallet(walletAddress, {
+    type: WS_EVENTS.FORFEITURE,
+    tokens_forfeited: tokensForfeited,
+    sol_value_lost: solValueLost,
+    message: `Round ended! You forfeited ${tokensForfeited.toFixed(2)} tokens worth ${solValueLost.toFixed(4)} ${ASSETS[asset].symbol}`,
+    timestamp: Date.now()
+  });
 }
 
 /**
  * Send message to specific wallet
  */
 export function sendToWallet(walletAddress: string, event: object): void {
-  const client = getClientByWallet(walletAddress);
-  if (client) {
+  // Fan out to every tab/device the wallet has connected
+  for (const client of getClientsByWallet(walletAddress)) {
     sendToClient(client.ws, event);
   }
 }
@@ -307,45 +292,35 @@ export async function broadcastFinalPnL(
   }>
 ): Promise<void> {
   for (const position of positions) {
-    const tokenBalance = Number(position.token_balance);
-    const totalIn = Number(position.total_sol_in);
-    const totalOut = Number(position.total_sol_out);
+    const tokenBalance = toLamports(position.token_balance);
+    const totalIn = toLamports(position.total_sol_in);
+    const totalOut = toLamports(position.total_sol_out);
     const entryPrice = position.entry_price ? Number(position.entry_price) : null;
     
     // Calculate final value and PnL
-    const finalValue = tokenBalance * finalPrice;
-    const pnl = finalValue + totalOut - totalIn;
-    const pnlPercent = totalIn > 0 ? (pnl / totalIn) * 100 : 0;
+    const { currentValue: finalValue, pnl, pnlPercent } = calculatePositionPnl(tokenBalance, totalIn, totalOut, finalPrice);
     
     // Calculate unrealized PnL based on entry price (if available)
-    let unrealizedPnl = 0;
-    let unrealizedPnlPercent = 0;
-    if (entryPrice && tokenBalance > 0) {
-      unrealizedPnl = (finalPrice - entryPrice) * tokenBalance;
-      unrealizedPnlPercent = ((finalPrice - entryPrice) / entryPrice) * 100;
-    }
+    const { unrealizedPnl, unrealizedPnlPercent } = calculateUnrealizedPnl(tokenBalance, entryPrice, finalPrice);
     
-    // Send to the specific wallet
-    const client = getClientByWallet(position.profile.wallet_address);
-    if (client) {
-      sendToClient(client.ws, {
-        type: WS_EVENTS.POSITION_UPDATE,
-        position: {
-          round_id: roundId,
-          token_balance: tokenBalance,
-          total_sol_in: totalIn,
-          total_sol_out: totalOut,
-          current_value: finalValue,
-          entry_price: entryPrice,
-          current_price: finalPrice,
-          pnl: pnl,
-          pnl_percent: pnlPercent,
-          unrealized_pnl: unrealizedPnl,
-          unrealized_pnl_percent: unrealizedPnlPercent,
-          is_final: true
-        },
-        timestamp: Date.now()
-      });
-    }
+    // Send to every connection of the wallet
+    sendToWallet(position.profile.wallet_address, {
+      type: WS_EVENTS.POSITION_UPDATE,
+      position: {
+        round_id: roundId,
+        token_balance: toSol(tokenBalance),
+        total_sol_in: toSol(totalIn),
+        total_sol_out: toSol(totalOut),
+        current_value: toSol(finalValue),
+        entry_price: entryPrice,
+        current_price: finalPrice,
+        pnl: toSol(pnl),
+        pnl_percent: pnlPercent,
+        unrealized_pnl: toSol(unrealizedPnl),
+        unrealized_pnl_percent: unrealizedPnlPercent,
+        is_final: true
+      },
+      timestamp: Date.now()
+    });
   }
 }
@@ -6,49 +6,74 @@ import {
   unsubscribeClient, 
   identifyClient,
   sendToClient,
-  CHANNELS
+  parseChannel,
+  CHANNELS,
+  MAX_CONNECTIONS_PER_WALLET
 } from './server';
-import { broadcastChat } from './broadcast';
+import { broadcastChat, sendOrderUpdate } from './broadcast';
+import { placeOrder, listOrders, cancelOrder, formatOrder } from '../services/orderService';
+import { verifyAuthToken } from '../middleware/auth';
+import { getMessagesSince, getChannelSequence } from './replay';
+import { buildChannelSnapshot } from './snapshots';
+import { sendRoundSnapshot } from './roundChannel';
+import { validate } from '../lib/schema';
+import { ErrorCode, apiError } from '../lib/errors';
+import {
+  clientMessage,
+  SubscribeMessage,
+  UnsubscribeMessage,
+  IdentifyMessage,
+  ChatMessage,
+  ResumeMessage,
+  PlaceOrderMessage,
+  ListOrdersMessage,
+  CancelOrderMessage
+} from '../schemas/ws';
 
-// Message types from client
-export interface SubscribeMessage {
-  type: 'subscribe';
-  channels: string[];
-}
-
-export interface UnsubscribeMessage {
-  type: 'unsubscribe';
-  channels: string[];
-}
-
-export interface IdentifyMessage {
-  type: 'identify';
-  wallet_address: string;
-}
-
-export interface ChatMessage {
-  type: 'chat';
-  message: string;
-  room?: string;
-}
-
-export interface PingMessage {
-  type: 'ping';
-}
+// Message types from client (see src/schemas/ws.ts)
+export type {
+  ClientMessage,
+  SubscribeMessage,
+  UnsubscribeMessage,
+  IdentifyMessage,
+  ChatMessage,
+  PingMessage,
+  ResumeMessage,
+  ResyncMessage,
+  PlaceOrderMessage,
+  ListOrdersMessage,
+  CancelOrderMessage
+} from '../schemas/ws';
 
-export type ClientMessage = 
-  | SubscribeMessage 
-  | UnsubscribeMessage 
-  | IdentifyMessage 
-  | ChatMessage 
-  | PingMessage;
+// Builds of a resume snapshot before sending one that may trail the live stream
+const SNAPSHOT_ATTEMPTS = 3;
 
 /**
  * Handle incoming WebSocket message
  */
 export async function handleMessage(ws: WebSocket, data: string): Promise<void> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    sendError(ws, 'VALIDATION_ERROR', 'Invalid message format');
+    return;
+  }
+  
+  const validation = validate(clientMessage, parsed);
+  if (!validation.success) {
+    const unknownType = validation.issues.some(issue => issue.path === 'type');
+    sendError(
+      ws,
+      unknownType ? 'UNKNOWN_MESSAGE' : 'VALIDATION_ERROR',
+      unknownType ? 'Unknown message type' : validation.issues[0].message,
+      { issues: validation.issues }
+    );
+    return;
+  }
+  
   try {
-    const message = JSON.parse(data) as ClientMessage;
+    const message = validation.data;
     
     switch (message.type) {
       case 'subscribe':
@@ -71,43 +96,62 @@ export async function handleMessage(ws: WebSocket, data: string): Promise<void>
         handlePing(ws);
         break;
         
-      default:
-        sendToClient(ws, {
-          type: 'ERROR',
-          error: 'Unknown message type'
-        });
+      case 'resume':
+        await handleResume(ws, message);
+        break;
+        
+      case 'resync':
+        // Client missed a round delta version - send a fresh snapshot of that room
+        sendRoundSnapshot(ws, parseChannel(message.channel).asset);
+        break;
+        
+      case 'place_order':
+        await handlePlaceOrder(ws, message);
+        break;
+        
+      case 'list_orders':
+        await handleListOrders(ws, message);
+        break;
+        
+      case 'cancel_order':
+        await handleCancelOrder(ws, message);
+        break;
+        
     }
   } catch (error) {
     console.error('[WebSocket] Error handling message:', error);
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'Invalid message format'
-    });
+    sendError(ws, 'INTERNAL_ERROR', 'Internal server error');
   }
 }
 
+/**
+ * Send the standard error envelope as an ERROR message
+ */
+function sendError(ws: WebSocket, code: ErrorCode, error: string, details?: unknown): void {
+  sendToClient(ws, {
+    type: 'ERROR',
+    ...apiError(code, error, details)
+  });
+}
+
 /**
  * Handle subscribe request
  */
 function handleSubscribe(ws: WebSocket, message: SubscribeMessage): void {
-  const validChannels = message.channels.filter(ch => 
-    Object.values(CHANNELS).includes(ch as any)
-  );
-  
-  if (validChannels.length === 0) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'No valid channels specified'
-    });
-    return;
-  }
-  
-  subscribeClient(ws, validChannels);
+  subscribeClient(ws, message.channels);
   
   sendToClient(ws, {
     type: 'SUBSCRIBED',
-    channels: validChannels
+    channels: message.channels
   });
+  
+  // Round deltas only make sense on top of a snapshot - one per room's round channel
+  for (const channel of message.channels) {
+    const { base, asset } = parseChannel(channel);
+    if (base === CHANNELS.ROUND) {
+      sendRoundSnapshot(ws, asset);
+    }
+  }
 }
 
 /**
@@ -124,38 +168,47 @@ function handleUnsubscribe(ws: WebSocket, message: UnsubscribeMessage): void {
 
 /**
  * Handle identify request
+ * The wallet comes from the verified token, the same way requireAuth does it for HTTP
  */
 async function handleIdentify(ws: WebSocket, message: IdentifyMessage): Promise<void> {
-  const { wallet_address } = message;
+  const { token } = message;
   
-  if (!wallet_address) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'wallet_address is required'
-    });
+  let identity;
+  try {
+    identity = await verifyAuthToken(token);
+  } catch (error: any) {
+    if (error.message === 'NO_SOLANA_WALLET') {
+      sendError(ws, 'NO_SOLANA_WALLET', 'No Solana wallet linked to this account');
+    } else {
+      sendError(ws, 'INVALID_TOKEN', 'Invalid or expired authentication token');
+    }
     return;
   }
   
+  const wallet_address = identity.walletAddress;
+  
   // Verify profile exists
   const profile = await prisma.profile.findUnique({
     where: { wallet_address }
   });
   
   if (!profile) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'Profile not found'
-    });
+    sendError(ws, 'PROFILE_NOT_FOUND', 'Profile not found');
     return;
   }
   
-  identifyClient(ws, wallet_address);
+  if (!identifyClient(ws, wallet_address, identity.expiresAt)) {
+    sendError(ws, 'TOO_MANY_CONNECTIONS', `Too many connections for this wallet (max ${MAX_CONNECTIONS_PER_WALLET})`);
+    return;
+  }
   
   sendToClient(ws, {
     type: 'IDENTIFIED',
     wallet_address,
     username: profile.username,
-    deposited_balance: Number(profile.deposited_balance)
+    deposited_balance: Number(profile.deposited_balance),
+    usdc_balance: Number(profile.usdc_balance),
+    expires_at: identity.expiresAt * 1000
   });
 }
 
@@ -166,28 +219,14 @@ async function handleChat(ws: WebSocket, message: ChatMessage): Promise<void> {
   const client = getClient(ws);
   
   if (!client?.walletAddress) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'Must identify before sending chat messages'
-    });
+    sendError(ws, 'NOT_IDENTIFIED', 'Must identify before sending chat messages');
     return;
   }
   
-  const { message: text, room = 'pumpit' } = message;
+  const { message: text, room } = message;
   
-  if (!text || text.trim().length === 0) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'Message cannot be empty'
-    });
-    return;
-  }
-  
-  if (text.length > 500) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'Message too long (max 500 characters)'
-    });
+  if (text.trim().length === 0) {
+    sendError(ws, 'VALIDATION_ERROR', 'Message cannot be empty');
     return;
   }
   
@@ -197,10 +236,7 @@ async function handleChat(ws: WebSocket, message: ChatMessage): Promise<void> {
   });
   
   if (!profile) {
-    sendToClient(ws, {
-      type: 'ERROR',
-      error: 'Profile not found'
-    });
+    sendError(ws, 'PROFILE_NOT_FOUND', 'Profile not found');
     return;
   }
   
@@ -243,3 +279,122 @@ function handlePing(ws: WebSocket): void {
     timestamp: Date.now()
   });
 }
+
+/**
+ * Handle resume request
+ * Replays the missed messages of a channel, or sends a snapshot if they are no longer buffered
+ */
+async function handleResume(ws: WebSocket, message: ResumeMessage): Promise<void> {
+  const { channel, last_seq } = message;
+  
+  // Replay and subscribe in the same tick so no live message falls in between
+  const missed = getMessagesSince(channel, last_seq);
+  if (missed) {
+    missed.forEach(msg => sendToClient(ws, msg));
+    subscribeClient(ws, [channel]);
+    sendToClient(ws, {
+      type: 'RESUMED',
+      channel,
+      from_seq: last_seq,
+      seq: getChannelSequence(channel),
+      replayed: missed.length
+    });
+    return;
+  }
+  
+  // Gap too old - build the current state first, then subscribe and read seq in the
+  // same tick, so every live message the client gets comes after the snapshot.
+  // Something broadcast while building may be missing from it - build again
+  let seq = getChannelSequence(channel);
+  let snapshot = await buildChannelSnapshot(channel);
+  for (let attempt = 1; attempt < SNAPSHOT_ATTEMPTS && getChannelSequence(channel) !== seq; attempt++) {
+    seq = getChannelSequence(channel);
+    snapshot = await buildChannelSnapshot(channel);
+  }
+  
+  subscribeClient(ws, [channel]);
+  sendToClient(ws, {
+    type: 'SNAPSHOT',
+    channel,
+    seq: getChannelSequence(channel),
+    snapshot,
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Get the identified client's profile, or send an error
+ */
+async function getIdentifiedProfile(ws: WebSocket, action: string) {
+  const client = getClient(ws);
+  
+  if (!client?.walletAddress) {
+    sendError(ws, 'NOT_IDENTIFIED', `Must identify before ${action}`);
+    return null;
+  }
+  
+  const profile = await prisma.profile.findUnique({
+    where: { wallet_address: client.walletAddress }
+  });
+  
+  if (!profile) {
+    sendError(ws, 'PROFILE_NOT_FOUND', 'Profile not found');
+    return null;
+  }
+  
+  return profile;
+}
+
+/**
+ * Handle place order request
+ */
+async function handlePlaceOrder(ws: WebSocket, message: PlaceOrderMessage): Promise<void> {
+  const profile = await getIdentifiedProfile(ws, 'placing orders');
+  if (!profile) return;
+  
+  const result = await placeOrder(profile.id, {
+    order_type: message.order_type,
+    trigger_multiplier: message.trigger_multiplier,
+    sell_percent: message.sell_percent,
+    asset: message.asset
+  });
+  
+  if (!result.success || !result.order) {
+    sendError(ws, result.code || 'INTERNAL_ERROR', result.error || 'Order failed');
+    return;
+  }
+  
+  sendOrderUpdate(profile.wallet_address, formatOrder(result.order));
+}
+
+/**
+ * Handle list orders request
+ */
+async function handleListOrders(ws: WebSocket, message: ListOrdersMessage): Promise<void> {
+  const profile = await getIdentifiedProfile(ws, 'listing orders');
+  if (!profile) return;
+  
+  const orders = await listOrders(profile.id, { roundId: message.round_id });
+  
+  sendToClient(ws, {
+    type: 'ORDERS',
+    orders: orders.map(formatOrder)
+  });
+}
+
+/**
+ * Handle cancel order request
+ */
+async function handleCancelOrder(ws: WebSocket, message: CancelOrderMessage): Promise<void> {
+  const profile = await getIdentifiedProfile(ws, 'cancelling orders');
+  if (!profile) return;
+  
+  const result = await cancelOrder(profile.id, message.order_id);
+  
+  if (!result.success || !result.order) {
+    sendError(ws, result.code || 'INTERNAL_ERROR', result.error || 'Order failed');
+    return;
+  }
+  
+  sendOrderUpdate(profile.wallet_address, formatOrder(result.order));
+}
@@ -0,0 +1,77 @@
+/**
+ * Channel Replay Buffer
+ *
+ * Every channel broadcast gets the next sequence number for that channel and
+ * is kept in a bounded ring buffer, so a reconnecting client can ask for
+ * everything after the last sequence it saw. If that is older than the buffer,
+ * the client needs a fresh snapshot instead.
+ */
+
+// Messages kept per channel
+export const REPLAY_BUFFER_SIZE = Number(process.env.WS_REPLAY_BUFFER_SIZE) || 500;
+
+export interface SequencedMessage {
+  channel: string;
+  seq: number;
+  [key: string]: unknown;
+}
+
+interface ChannelBuffer {
+  seq: number;                    // Last sequence number issued
+  messages: SequencedMessage[];   // Ring storage, index = seq % REPLAY_BUFFER_SIZE
+}
+
+const buffers: Map<string, ChannelBuffer> = new Map();
+
+function getBuffer(channel: string): ChannelBuffer {
+  let buffer = buffers.get(channel);
+  if (!buffer) {
+    buffer = { seq: 0, messages: [] };
+    buffers.set(channel, buffer);
+  }
+  return buffer;
+}
+
+/**
+ * Stamp a message with the channel's next sequence number and keep it for replay
+ */
+export function recordMessage(channel: string, data: object): SequencedMessage {
+  const buffer = getBuffer(channel);
+  buffer.seq++;
+
+  const message: SequencedMessage = { ...data, channel, seq: buffer.seq };
+  buffer.messages[buffer.seq % REPLAY_BUFFER_SIZE] = message;
+
+  return message;
+}
+
+/**
+ * Last sequence number issued on a channel (0 if nothing was sent yet)
+ */
+export function getChannelSequence(channel: string): number {
+  return buffers.get(channel)?.seq || 0;
+}
+
+/**
+ * Messages after lastSeq, oldest first
+ * Returns null if part of the gap has already been dropped (or lastSeq is from
+ * a previous server run) - the client needs a snapshot then
+ */
+export function getMessagesSince(channel: string, lastSeq: number): SequencedMessage[] | null {
+  const buffer = getBuffer(channel);
+
+  if (!Number.isInteger(lastSeq) || lastSeq < 0 || lastSeq > buffer.seq) {
+    return null;
+  }
+
+  const oldestKept = Math.max(1, buffer.seq - REPLAY_BUFFER_SIZE + 1);
+  if (lastSeq + 1 < oldestKept) {
+    return null;
+  }
+
+  const messages: SequencedMessage[] = [];
+  for (let seq = lastSeq + 1; seq <= buffer.seq; seq++) {
+    messages.push(buffer.messages[seq % REPLAY_BUFFER_SIZE]);
+  }
+  return messages;
+}
@@ -0,0 +1,149 @@
+import { WebSocket } from 'ws';
+import { Asset } from '@prisma/client';
+import { sendToClient, roomChannel, CHANNELS } from './server';
+import { broadcastToChannel, WS_EVENTS } from './broadcast';
+import { getChannelSequence } from './replay';
+
+/**
+ * Round Channel State
+ *
+ * Subscribers to the round channel get one ROUND_SNAPSHOT, then only
+ * ROUND_DELTA messages with the fields that changed (price, timer, positions
+ * joining or leaving). Every snapshot/delta bumps the version; a delta whose
+ * base_version isn't the client's version means the client missed something
+ * and should send `resync` for a new snapshot.
+ *
+ * Each quote asset's room keeps its own state and version on its own round
+ * channel (round, round:usdc).
+ */
+
+export type { RoundPositionBroadcast, RoundState } from '../schemas/events';
+import type { RoundBroadcast, RoundPositionBroadcast, RoundState } from '../schemas/events';
+
+// Scalar fields compared between states
+const DELTA_FIELDS: ReadonlyArray<keyof RoundState> = [
+  'status',
+  'pool_sol_balance',
+  'pool_token_supply',
+  'current_price',
+  'price_multiplier',
+  'time_remaining',
+  'positions_count'
+];
+
+interface RoomState {
+  state: RoundState | null;
+  version: number;
+}
+
+const rooms: Map<Asset, RoomState> = new Map();
+
+function getRoom(asset: Asset): RoomState {
+  let room = rooms.get(asset);
+  if (!room) {
+    room = { state: null, version: 0 };
+    rooms.set(asset, room);
+  }
+  return room;
+}
+
+/**
+ * Current round state and version of a room
+ */
+export function getRoundSnapshot(asset: Asset = 'sol'): { version: number; round: RoundState | null } {
+  const room = getRoom(asset);
+  return { version: room.version, round: room.state };
+}
+
+/**
+ * Copy one field of a state into a delta - K keeps the key and its value type together
+ */
+function copyField<K extends keyof RoundState>(changes: Partial<RoundState>, state: RoundState, field: K): void {
+  changes[field] = state[field];
+}
+
+/**
+ * Publish the latest round state to its room
+ * A new round goes out as a snapshot, the same round as a delta (or nothing if unchanged)
+ */
+export function setRoundState(state: RoundState): void {
+  const room = getRoom(state.quote_asset);
+  const channel = roomChannel(CHANNELS.ROUND, state.quote_asset);
+  const currentState = room.state;
+
+  if (!currentState || currentState.id !== state.id) {
+    room.state = state;
+    room.version++;
+    broadcastToChannel(channel, {
+      type: WS_EVENTS.ROUND_SNAPSHOT,
+      version: room.version,
+      round: state,
+      timestamp: Date.now()
+    });
+    return;
+  }
+
+  const changes: Partial<RoundState> = {};
+  for (const field of DELTA_FIELDS) {
+    if (state[field] !== currentState[field]) {
+      copyField(changes, state, field);
+    }
+  }
+
+  const previousIds = new Set(currentState.positions.map(p => p.profile_id));
+  const nextIds = new Set(state.positions.map(p => p.profile_id));
+  const joined = state.positions.filter(p => !previousIds.has(p.profile_id));
+  const left = currentState.positions.filter(p => !nextIds.has(p.profile_id)).map(p => p.profile_id);
+
+  if (Object.keys(changes).length === 0 && joined.length === 0 && left.length === 0) {
+    return;
+  }
+
+  room.state = state;
+  room.version++;
+  broadcastToChannel(channel, {
+    type: WS_EVENTS.ROUND_DELTA,
+    round_id: state.id,
+    version: room.version,
+    base_version: room.version - 1,
+    changes,
+    positions_joined: joined.length > 0 ? joined : undefined,
+    positions_left: left.length > 0 ? left : undefined,
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Apply a partial update (e.g. a price change from a trade) to whichever room runs the round
+ */
+export function patchRoundState(roundId: string, patch: Partial<RoundBroadcast>): void {
+  for (const room of rooms.values()) {
+    if (room.state && room.state.id === roundId) {
+      setRoundState({ ...room.state, ...patch });
+      return;
+    }
+  }
+}
+
+/**
+ * Forget a room's round once it has ended - the next round starts with a snapshot
+ */
+export function clearRoundState(asset: Asset): void {
+  getRoom(asset).state = null;
+}
+
+/**
+ * Send a room's current snapshot to one client (on subscribe or resync)
+ */
+export function sendRoundSnapshot(ws: WebSocket, asset: Asset = 'sol'): void {
+  const room = getRoom(asset);
+  const channel = roomChannel(CHANNELS.ROUND, asset);
+  sendToClient(ws, {
+    type: WS_EVENTS.ROUND_SNAPSHOT,
+    channel,
+    seq: getChannelSequence(channel),
+    version: room.version,
+    round: room.state,
+    timestamp: Date.now()
+  });
+}
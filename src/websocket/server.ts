@@ -1,28 +1,62 @@
 import { WebSocket, WebSocketServer } from 'ws';
 import { IncomingMessage } from 'http';
 import { Server } from 'http';
+import { Asset } from '@prisma/client';
 
 // Client interface for tracking connected users
 export interface Client {
   ws: WebSocket;
   walletAddress?: string;
+  authExpiresAt?: number;          // unix seconds - identity is dropped when the token expires
+  authTimer?: NodeJS.Timeout;
   subscriptions: Set<string>;
   isAlive: boolean;
 }
 
+// Longest delay setTimeout accepts
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 // Subscription channels
+// round, trades and prices follow the SOL room - every other quote asset's room has its own copies
 export const CHANNELS = {
   ROUND: 'round',
   TRADES: 'trades',
   CHAT: 'chat',
-  PRICES: 'prices'
+  PRICES: 'prices',
+  ROUND_USDC: 'round:usdc',
+  TRADES_USDC: 'trades:usdc',
+  PRICES_USDC: 'prices:usdc'
 } as const;
 
 export type Channel = typeof CHANNELS[keyof typeof CHANNELS];
 
+// Channels each room has a copy of
+export type RoomChannel = typeof CHANNELS.ROUND | typeof CHANNELS.TRADES | typeof CHANNELS.PRICES;
+
+/**
+ * A room's copy of a channel - SOL keeps the plain name, e.g. round / round:usdc
+ */
+export function roomChannel(channel: RoomChannel, asset: Asset): Channel {
+  return (asset === 'sol' ? channel : `${channel}:${asset}`) as Channel;
+}
+
+/**
+ * Split a channel into its plain name and the quote asset of its room
+ */
+export function parseChannel(channel: string): { base: string; asset: Asset } {
+  const [base, asset] = channel.split(':');
+  return { base, asset: (asset || 'sol') as Asset };
+}
+
+// Max identified connections per wallet (0 = unlimited)
+export const MAX_CONNECTIONS_PER_WALLET = Number(process.env.WS_MAX_CONNECTIONS_PER_WALLET) || 0;
+
 // Connected clients store
 const clients: Map<WebSocket, Client> = new Map();
 
+// Identified clients by wallet - a wallet can have several tabs/devices connected
+const walletClients: Map<string, Set<Client>> = new Map();
+
 // WebSocket server instance
 let wss: WebSocketServer | null = null;
 
@@ -41,9 +75,13 @@ export function initializeWebSocket(server: Server): WebSocketServer {
     clients.forEach((client, ws) => {
       if (!client.isAlive) {
         console.log('[WebSocket] Terminating dead connection');
-        clients.delete(ws);
+        removeClient(ws);
         return ws.terminate();
       }
+      // Backstop for the expiry timer
+      if (client.authExpiresAt !== undefined && client.authExpiresAt <= Date.now() / 1000) {
+        expireClientIdentity(ws);
+      }
       client.isAlive = false;
       ws.ping();
     });
@@ -95,7 +133,7 @@ export function handleClose(ws: WebSocket): void {
   if (client) {
     console.log(`[WebSocket] Client disconnected${client.walletAddress ? `: ${client.walletAddress}` : ''}`);
   }
-  clients.delete(ws);
+  removeClient(ws);
 }
 
 /**
@@ -103,6 +141,18 @@ export function handleClose(ws: WebSocket): void {
  */
 export function handleError(ws: WebSocket, error: Error): void {
   console.error('[WebSocket] Error:', error.message);
+  removeClient(ws);
+}
+
+/**
+ * Forget a connection and its wallet identity
+ */
+function removeClient(ws: WebSocket): void {
+  const client = clients.get(ws);
+  if (client) {
+    clearClientAuth(client);
+    unindexWallet(client);
+  }
   clients.delete(ws);
 }
 
@@ -134,15 +184,26 @@ export function getSubscribers(channel: string): Client[] {
 }
 
 /**
- * Get client by wallet address
+ * Get every connection identified as a wallet
+ */
+export function getClientsByWallet(walletAddress: string): Client[] {
+  const set = walletClients.get(walletAddress);
+  return set ? Array.from(set) : [];
+}
+
+/**
+ * Remove a client from its wallet's connection set
  */
-export function getClientByWallet(walletAddress: string): Client | undefined {
-  for (const client of clients.values()) {
-    if (client.walletAddress === walletAddress) {
-      return client;
+function unindexWallet(client: Client): void {
+  if (!client.walletAddress) return;
+
+  const set = walletClients.get(client.walletAddress);
+  if (set) {
+    set.delete(client);
+    if (set.size === 0) {
+      walletClients.delete(client.walletAddress);
     }
   }
-  return undefined;
 }
 
 /**
@@ -172,14 +233,79 @@ export function unsubscribeClient(ws: WebSocket, channels: string[]): void {
 }
 
 /**
- * Identify client with wallet address
+ * Identify client with a verified wallet address
+ * The identity only lasts until the token it was verified from expires
+ * Returns false if the wallet is already at its connection cap
  */
-export function identifyClient(ws: WebSocket, walletAddress: string): void {
+export function identifyClient(ws: WebSocket, walletAddress: string, expiresAt: number): boolean {
   const client = clients.get(ws);
-  if (!client) return;
+  if (!client) return false;
+
+  const existing = walletClients.get(walletAddress);
+  const alreadyCounted = client.walletAddress === walletAddress;
+  if (MAX_CONNECTIONS_PER_WALLET > 0 && !alreadyCounted && (existing?.size || 0) >= MAX_CONNECTIONS_PER_WALLET) {
+    return false;
+  }
 
+  clearClientAuth(client);
+  unindexWallet(client);
   client.walletAddress = walletAddress;
-  console.log(`[WebSocket] Client identified: ${walletAddress}`);
+  client.authExpiresAt = expiresAt;
+
+  const set = existing || new Set<Client>();
+  set.add(client);
+  walletClients.set(walletAddress, set);
+
+  scheduleAuthExpiry(ws, client, expiresAt);
+
+  console.log(`[WebSocket] Client identified: ${walletAddress} (${set.size} connection${set.size === 1 ? '' : 's'})`);
+  return true;
+}
+
+/**
+ * Drop the client's identity once its token expires
+ */
+function scheduleAuthExpiry(ws: WebSocket, client: Client, expiresAt: number): void {
+  const delay = Math.min(Math.max(0, expiresAt * 1000 - Date.now()), MAX_TIMER_MS);
+  client.authTimer = setTimeout(() => {
+    client.authTimer = undefined;
+    // Long-lived tokens outlast one timer - re-check before dropping the identity
+    if (expiresAt <= Date.now() / 1000) {
+      expireClientIdentity(ws);
+    } else {
+      scheduleAuthExpiry(ws, client, expiresAt);
+    }
+  }, delay);
+}
+
+/**
+ * Drop an expired identity and tell the client to identify again
+ */
+function expireClientIdentity(ws: WebSocket): void {
+  const client = clients.get(ws);
+  if (!client?.walletAddress) return;
+
+  console.log(`[WebSocket] Identity expired: ${client.walletAddress}`);
+  clearClientAuth(client);
+  unindexWallet(client);
+  client.walletAddress = undefined;
+
+  sendToClient(ws, {
+    type: 'AUTH_EXPIRED',
+    message: 'Authentication token expired - send identify with a fresh token',
+    timestamp: Date.now()
+  });
+}
+
+/**
+ * Stop a client's expiry timer
+ */
+function clearClientAuth(client: Client): void {
+  if (client.authTimer) {
+    clearTimeout(client.authTimer);
+    client.authTimer = undefined;
+  }
+  client.authExpiresAt = undefined;
 }
 
 /**
@@ -204,15 +330,13 @@ export function getWebSocketServer(): WebSocketServer | null {
 export function getConnectionStats(): {
   totalConnections: number;
   identifiedUsers: number;
+  identifiedWallets: number;
   subscriptionCounts: Record<string, number>;
 } {
   let identifiedUsers = 0;
-  const subscriptionCounts: Record<string, number> = {
-    [CHANNELS.ROUND]: 0,
-    [CHANNELS.TRADES]: 0,
-    [CHANNELS.CHAT]: 0,
-    [CHANNELS.PRICES]: 0
-  };
+  const subscriptionCounts: Record<string, number> = Object.fromEntries(
+    Object.values(CHANNELS).map(channel => [channel, 0])
+  );
 
   clients.forEach(client => {
     if (client.walletAddress) identifiedUsers++;
@@ -224,6 +348,7 @@ export function getConnectionStats(): {
   return {
     totalConnections: clients.size,
     identifiedUsers,
+    identifiedWallets: walletClients.size,
     subscriptionCounts
   };
 }
@@ -0,0 +1,130 @@
+import prisma from '../lib/prisma';
+import { Asset } from '@prisma/client';
+import { CHANNELS, parseChannel } from './server';
+import { getActiveRound, formatRoundResponse } from '../services/roundService';
+import { getCountdownStatus } from '../services/roundManager';
+import { getRoundSnapshot } from './roundChannel';
+
+// Recent items included in trade / chat snapshots
+const SNAPSHOT_LIMIT = 50;
+
+/**
+ * Build the current state of a channel for a client that can't replay its gap
+ * Room channels (round, prices, trades and their copies) describe their room's round
+ */
+export async function buildChannelSnapshot(channel: string): Promise<object | null> {
+  const { base, asset } = parseChannel(channel);
+  switch (base) {
+    case CHANNELS.ROUND:
+      return buildRoundSnapshot(asset);
+    case CHANNELS.PRICES:
+      return buildPricesSnapshot(asset);
+    case CHANNELS.TRADES:
+      return buildTradesSnapshot(asset);
+    case CHANNELS.CHAT:
+      return buildChatSnapshot();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Active round (or countdown) plus the round state that deltas apply to
+ */
+async function buildRoundSnapshot(asset: Asset): Promise<object> {
+  const { version, round: roundState } = getRoundSnapshot(asset);
+  const countdown = getCountdownStatus(asset);
+  if (countdown.inCountdown) {
+    return { status: 'countdown', countdown_seconds: countdown.secondsRemaining, round: null, version, round_state: null };
+  }
+
+  const activeRound = await getActiveRound(asset);
+  return {
+    status: activeRound ? 'active' : 'waiting',
+    round: activeRound ? formatRoundResponse(activeRound) : null,
+    version,
+    round_state: roundState
+  };
+}
+
+/**
+ * Current price of the active round
+ */
+async function buildPricesSnapshot(asset: Asset): Promise<object> {
+  const activeRound = await getActiveRound(asset);
+  if (!activeRound) {
+    return { round_id: null };
+  }
+
+  const round = formatRoundResponse(activeRound);
+  return {
+    round_id: round.id,
+    price: round.current_price,
+    price_multiplier: round.price_multiplier,
+    pool_sol_balance: round.pool_sol_balance,
+    pool_token_supply: round.pool_token_supply
+  };
+}
+
+/**
+ * Most recent trades of the active round, newest first
+ */
+async function buildTradesSnapshot(asset: Asset): Promise<object> {
+  const activeRound = await getActiveRound(asset);
+  if (!activeRound) {
+    return { round_id: null, trades: [] };
+  }
+
+  const trades = await prisma.trade.findMany({
+    where: { round_id: activeRound.id },
+    orderBy: [{ sequence: 'desc' }, { created_at: 'desc' }],
+    take: SNAPSHOT_LIMIT,
+    include: {
+      profile: {
+        select: { username: true, wallet_address: true }
+      }
+    }
+  });
+
+  return {
+    round_id: activeRound.id,
+    trades: trades.map(t => ({
+      round_id: t.round_id,
+      sequence: t.sequence,
+      trade_type: t.trade_type,
+      username: t.profile.username || `${t.profile.wallet_address.slice(0, 4)}...${t.profile.wallet_address.slice(-4)}`,
+      wallet_address: t.profile.wallet_address,
+      sol_amount: Number(t.sol_amount),
+      token_amount: Number(t.token_amount),
+      price: Number(t.price_at_trade),
+      timestamp: t.created_at.getTime()
+    }))
+  };
+}
+
+/**
+ * Most recent chat messages of the default room, oldest first
+ */
+async function buildChatSnapshot(): Promise<object> {
+  const messages = await prisma.chatMessage.findMany({
+    where: { room: 'pumpit' },
+    orderBy: { created_at: 'desc' },
+    take: SNAPSHOT_LIMIT,
+    include: {
+      profile: {
+        select: { wallet_address: true }
+      }
+    }
+  });
+
+  return {
+    messages: messages.reverse().map(msg => ({
+      id: msg.id,
+      username: msg.username,
+      wallet_address: msg.profile?.wallet_address || null,
+      message: msg.message,
+      room: msg.room,
+      created_at: msg.created_at
+    }))
+  };
+}
@@ -0,0 +1,173 @@
+import { escrow, DATABASE_SKIP } from './support/env';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { Keypair } from '@solana/web3.js';
+import { createFakeSolana, FakeSolana } from './support/fakeSolana';
+import { resetDatabase, waitFor } from './support/db';
+import { Lamports, toLamports, toSol } from '../src/lib/lamports';
+import { createSessionToken } from '../src/lib/siws';
+
+/**
+ * A player's money end to end against the in-memory chain: deposit through
+ * /api/deposit/confirm and the deposit worker, a buy and a sell, then a
+ * withdrawal through /api/withdraw and the withdrawal worker.
+ */
+describe('deposit -> trade -> withdraw', { skip: DATABASE_SKIP }, () => {
+  // Loaded in before() so a skipped suite never creates a Prisma client
+  let prisma: typeof import('../src/lib/prisma').default;
+  let deposits: typeof import('../src/services/depositService');
+  let withdrawals: typeof import('../src/services/withdrawalService');
+  let trades: typeof import('../src/services/tradeService');
+  let rounds: typeof import('../src/services/roundService');
+
+  let solana: FakeSolana;
+  let server: Server;
+  let baseUrl: string;
+  const escrowAddress = escrow.publicKey.toBase58();
+
+  before(async () => {
+    prisma = (await import('../src/lib/prisma')).default;
+    deposits = await import('../src/services/depositService');
+    withdrawals = await import('../src/services/withdrawalService');
+    trades = await import('../src/services/tradeService');
+    rounds = await import('../src/services/roundService');
+    const { createDepositRouter } = await import('../src/routes/deposit');
+
+    solana = createFakeSolana();
+    const router = createDepositRouter(solana);
+    const app = express();
+    app.use(express.json());
+    app.use('/api/deposit', router);
+    app.use('/api/withdraw', router);
+    server = app.listen(0);
+    await once(server, 'listening');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    deposits.startDepositWorker(solana);
+  });
+
+  beforeEach(async () => {
+    await resetDatabase(prisma);
+  });
+
+  after(async () => {
+    deposits.stopDepositWorker();
+    withdrawals.stopWithdrawalWorker();
+    server.close();
+    await prisma.$disconnect();
+  });
+
+  // The fields of deposit / withdraw responses these tests read
+  interface ApiBody {
+    status?: string;
+    withdrawal_id?: string;
+  }
+
+  const post = async (path: string, body: object, token?: string) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() as ApiBody };
+  };
+
+  const balanceOf = async (wallet: string): Promise<Lamports> => {
+    const profile = await prisma.profile.findUniqueOrThrow({ where: { wallet_address: wallet } });
+    return toLamports(profile.deposited_balance);
+  };
+
+  // A new wallet holding 10 SOL on chain that deposits `amount` and waits for the worker to credit it
+  const depositAs = async (amount: number) => {
+    const wallet = Keypair.generate().publicKey.toBase58();
+    solana.airdrop(wallet, toLamports(10));
+    const signature = solana.transfer(wallet, escrowAddress, toLamports(amount));
+
+    const { status, body } = await post('/api/deposit/confirm', {
+      wallet_address: wallet,
+      tx_signature: signature,
+      amount,
+      asset: 'sol'
+    });
+    assert.equal(status, 200);
+    assert.equal(body.status, 'pending');
+
+    await waitFor(async () => {
+      const deposit = await prisma.depositHistory.findUnique({ where: { tx_signature: signature } });
+      return deposit?.status === 'confirmed';
+    });
+    return { wallet, token: createSessionToken(wallet).token };
+  };
+
+  it('credits a deposit, trades it and withdraws the proceeds', async () => {
+    const escrowBefore = await solana.getBalance(escrowAddress);
+    const { wallet, token } = await depositAs(1);
+    assert.equal(await balanceOf(wallet), toLamports(1));
+
+    const profile = await prisma.profile.findUniqueOrThrow({ where: { wallet_address: wallet } });
+    const round = await rounds.createRound();
+    const buy = await trades.executeBuy(profile.id, round.id, 0.5);
+    assert.equal(buy.success, true, buy.error);
+    const sell = await trades.executeSell(profile.id, round.id, buy.tokensTraded!);
+    assert.equal(sell.success, true, sell.error);
+
+    const balance = await balanceOf(wallet);
+    assert.equal(balance, toLamports(0.5) + toLamports(sell.solAmount!));
+
+    const { status, body } = await post('/api/withdraw', { amount: toSol(balance), asset: 'sol' }, token);
+    assert.equal(status, 200);
+    assert.equal(body.status, 'confirmed');
+
+    assert.equal(await balanceOf(wallet), 0n);
+    assert.equal(await solana.getBalance(wallet), toLamports(9) + balance);
+    assert.equal(await solana.getBalance(escrowAddress), escrowBefore + toLamports(1) - balance);
+  });
+
+  it('leaves a withdrawal that has not landed to the worker', async () => {
+    const { wallet, token } = await depositAs(1);
+
+    // Dropped on the first broadcast and the request's rebroadcast
+    solana.nextSend({ drop: true });
+    solana.nextSend({ drop: true });
+    const { body } = await post('/api/withdraw', { amount: 0.4, asset: 'sol' }, token);
+    assert.equal(body.status, 'processing');
+    assert.equal(await solana.getBalance(wallet), toLamports(9));
+
+    withdrawals.startWithdrawalWorker(solana);
+    try {
+      await waitFor(async () => {
+        const withdrawal = await prisma.withdrawal.findUniqueOrThrow({ where: { id: body.withdrawal_id! } });
+        return withdrawal.status === 'confirmed';
+      });
+    } finally {
+      withdrawals.stopWithdrawalWorker();
+    }
+
+    assert.equal(await balanceOf(wallet), toLamports(0.6));
+    assert.equal(await solana.getBalance(wallet), toLamports(9.4));
+  });
+
+  it('refunds a withdrawal whose blockhash expired before it landed', async () => {
+    const { wallet, token } = await depositAs(1);
+
+    solana.nextSend({ drop: true });
+    solana.nextSend({ drop: true });
+    const { body } = await post('/api/withdraw', { amount: 0.4, asset: 'sol' }, token);
+    assert.equal(body.status, 'processing');
+
+    solana.advanceBlocks(200);
+    await withdrawals.resumeWithdrawals(solana);
+
+    const withdrawal = await prisma.withdrawal.findUniqueOrThrow({ where: { id: body.withdrawal_id! } });
+    assert.equal(withdrawal.status, 'failed');
+    assert.equal(await balanceOf(wallet), toLamports(1));
+    assert.equal(await solana.getBalance(wallet), toLamports(9));
+  });
+});
@@ -0,0 +1,175 @@
+import { escrow, house, DATABASE_SKIP } from './support/env';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Asset } from '@prisma/client';
+import { Keypair } from '@solana/web3.js';
+import { createFakeSolana, FakeSolana } from './support/fakeSolana';
+import { resetDatabase } from './support/db';
+import { ZERO_LAMPORTS, toLamports } from '../src/lib/lamports';
+import { ASSETS, toChainUnits } from '../src/lib/assets';
+
+/**
+ * Fee sweeps from escrow to the house wallet on the fake chain
+ */
+describe('runFeeSweeps', { skip: DATABASE_SKIP }, () => {
+  // Loaded in before() so a skipped suite never creates a Prisma client
+  let prisma: typeof import('../src/lib/prisma').default;
+  let sweeps: typeof import('../src/services/feeSweepService');
+  let ledger: typeof import('../src/services/ledgerService');
+  let rounds: typeof import('../src/services/roundService');
+
+  let solana: FakeSolana;
+  const escrowAddress = escrow.publicKey.toBase58();
+  const houseAddress = house.publicKey.toBase58();
+  const usdcMint = ASSETS.usdc.mint!.toBase58();
+
+  before(async () => {
+    prisma = (await import('../src/lib/prisma')).default;
+    sweeps = await import('../src/services/feeSweepService');
+    ledger = await import('../src/services/ledgerService');
+    rounds = await import('../src/services/roundService');
+  });
+
+  beforeEach(async () => {
+    await resetDatabase(prisma);
+    solana = createFakeSolana();
+    solana.airdrop(escrowAddress, toLamports(10));
+    solana.mintTokens(escrowAddress, usdcMint, toChainUnits('usdc', toLamports(100)));
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  // A completed round with one buy per fee, each fee credited to house_fees like executeBuy does
+  const completedRound = async (fees: string[], asset: Asset = 'sol') => {
+    const player = await prisma.profile.create({
+      data: { wallet_address: Keypair.generate().publicKey.toBase58() }
+    });
+    const round = await rounds.createRound(undefined, asset);
+    for (const fee of fees) {
+      await prisma.trade.create({
+        data: {
+          round_id: round.id,
+          profile_id: player.id,
+          trade_type: 'buy',
+          sol_amount: 1,
+          token_amount: 1,
+          price_at_trade: 1,
+          fee_amount: fee
+        }
+      });
+      await ledger.recordTransfers(prisma, [{
+        kind: 'buy_fee',
+        debit: ledger.LedgerAccounts.user(player.id),
+        credit: ledger.LedgerAccounts.houseFees,
+        amount: toLamports(fee)
+      }], asset);
+    }
+    return prisma.gameRound.update({
+      where: { id: round.id },
+      data: { status: 'completed', ended_at: new Date() }
+    });
+  };
+
+  const houseFees = (asset: Asset = 'sol') => ledger.getAccountBalance(ledger.LedgerAccounts.houseFees, asset);
+
+  it('sends the fees of completed rounds to the house wallet', async () => {
+    const first = await completedRound(['0.02', '0.03']);
+    const second = await completedRound(['0.05']);
+
+    const touched = await sweeps.runFeeSweeps(solana);
+    assert.equal(touched.length, 1);
+    const [sweep] = touched;
+    assert.equal(sweep.status, 'confirmed');
+    assert.equal(sweep.round_count, 2);
+    assert.equal(toLamports(sweep.amount), toLamports('0.1'));
+
+    assert.equal(await solana.getBalance(houseAddress), toLamports('0.1'));
+    assert.equal(await solana.getBalance(escrowAddress), toLamports('9.9'));
+    assert.equal(await houseFees(), ZERO_LAMPORTS);
+    for (const round of [first, second]) {
+      const swept = await prisma.gameRound.findUniqueOrThrow({ where: { id: round.id } });
+      assert.equal(swept.fee_sweep_id, sweep.id);
+    }
+  });
+
+  it('leaves the fees of active rounds for a later sweep', async () => {
+    await completedRound(['0.02']);
+    const player = await prisma.profile.findFirstOrThrow();
+    const active = await rounds.createRound();
+    await prisma.trade.create({
+      data: {
+        round_id: active.id,
+        profile_id: player.id,
+        trade_type: 'buy',
+        sol_amount: 1,
+        token_amount: 1,
+        price_at_trade: 1,
+        fee_amount: '0.03'
+      }
+    });
+    await ledger.recordTransfers(prisma, [{
+      kind: 'buy_fee',
+      debit: ledger.LedgerAccounts.user(player.id),
+      credit: ledger.LedgerAccounts.houseFees,
+      amount: toLamports('0.03')
+    }]);
+
+    const [sweep] = await sweeps.runFeeSweeps(solana);
+    assert.equal(toLamports(sweep.amount), toLamports('0.02'));
+    assert.equal(await houseFees(), toLamports('0.03'));
+  });
+
+  it('refunds house_fees and releases the rounds when the transfer fails', async () => {
+    const round = await completedRound(['0.05']);
+
+    // The failed sweep hands its round back, and the same run sweeps it again - once
+    solana.nextSend({ fail: true });
+    const [failed, retry] = await sweeps.runFeeSweeps(solana);
+    assert.equal(failed.status, 'failed');
+    const refund = await prisma.ledgerEntry.findFirstOrThrow({ where: { kind: 'fee_sweep_refund', reference: failed.id } });
+    assert.equal(toLamports(refund.amount), toLamports('0.05'));
+
+    assert.equal(retry.status, 'confirmed');
+    assert.equal(toLamports(retry.amount), toLamports('0.05'));
+    const swept = await prisma.gameRound.findUniqueOrThrow({ where: { id: round.id } });
+    assert.equal(swept.fee_sweep_id, retry.id);
+
+    assert.equal(await solana.getBalance(houseAddress), toLamports('0.05'));
+    assert.equal(await houseFees(), ZERO_LAMPORTS);
+  });
+
+  it('does not sweep the same rounds twice', async () => {
+    await completedRound(['0.05']);
+
+    await sweeps.runFeeSweeps(solana);
+    assert.deepEqual(await sweeps.runFeeSweeps(solana), []);
+    assert.equal(await solana.getBalance(houseAddress), toLamports('0.05'));
+    assert.equal(await prisma.feeSweep.count(), 1);
+  });
+
+  it('refuses a second run while one is in progress', async () => {
+    await completedRound(['0.05']);
+
+    const running = sweeps.runFeeSweeps(solana);
+    await assert.rejects(sweeps.runFeeSweeps(solana), /FEE_SWEEP_RUNNING/);
+    await running;
+    assert.equal(await solana.getBalance(houseAddress), toLamports('0.05'));
+  });
+
+  it('carries USDC dust below chain precision into the next sweep', async () => {
+    await completedRound(['0.5000004', '0.5000004'], 'usdc');
+
+    const [first] = await sweeps.runFeeSweeps(solana);
+    assert.equal(toLamports(first.amount), toLamports('1'));
+    assert.equal(await houseFees('usdc'), toLamports('0.0000008'));
+
+    await completedRound(['1.0000004'], 'usdc');
+    const [second] = await sweeps.runFeeSweeps(solana);
+    assert.equal(toLamports(second.amount), toLamports('1.000001'));
+    assert.equal(await houseFees('usdc'), toLamports('0.0000002'));
+
+    assert.equal(await solana.getTokenBalance(houseAddress, usdcMint), 2_000_001n);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  LAMPORTS_PER_SOL_BIG,
+  toLamports,
+  toSol,
+  lamportsToDecimal,
+  scaleLamports,
+  calculateFee
+} from '../src/lib/lamports';
+import { forAll, Random } from './support/random';
+
+const RUNS = 2000;
+
+// Up to 100k SOL - every amount keeps its 9 decimals through a JS number
+const MAX_LAMPORTS = 100_000n * LAMPORTS_PER_SOL_BIG;
+
+// A ratio with at most 6 decimals, as a string and as the exact fraction numerator / 10^6
+const randomRatio = (random: Random, max: number) => {
+  const micros = random.int(0, max * 1_000_000);
+  const text = (micros / 1_000_000).toString();
+  return { ratio: Number(text), numerator: BigInt(micros), denominator: 1_000_000n };
+};
+
+const floorDiv = (a: bigint, b: bigint) => a / b;
+const ceilDiv = (a: bigint, b: bigint) => (a + b - 1n) / b;
+
+describe('toLamports', () => {
+  it('round-trips every lamport amount through Decimal and SOL numbers', () => {
+    forAll(RUNS, (random) => {
+      const amount = random.bigint(0n, MAX_LAMPORTS);
+      assert.equal(toLamports(lamportsToDecimal(amount)), amount);
+      assert.equal(toLamports(toSol(amount)), amount);
+    });
+  });
+
+  it('rounds sub-lamport digits down by default and up when asked', () => {
+    forAll(RUNS, (random) => {
+      const amount = random.bigint(0n, MAX_LAMPORTS);
+      // 1-6 extra digits, never all zero
+      const digits = random.int(1, 6);
+      const extra = random.int(1, 10 ** digits - 1).toString().padStart(digits, '0');
+      const sol = `${lamportsToDecimal(amount).toFixed(9)}${extra}`;
+
+      assert.equal(toLamports(sol), amount, sol);
+      assert.equal(toLamports(sol, 'up'), amount + 1n, sol);
+    });
+  });
+
+  it('rejects amounts that are not finite', () => {
+    assert.throws(() => toLamports(Infinity), /Invalid SOL amount/);
+    assert.throws(() => toLamports(NaN), /Invalid SOL amount/);
+  });
+});
+
+describe('scaleLamports', () => {
+  it('floors and ceils the exact product', () => {
+    forAll(RUNS, (random) => {
+      const amount = random.bigint(0n, MAX_LAMPORTS);
+      const { ratio, numerator, denominator } = randomRatio(random, 10);
+      const product = amount * numerator;
+
+      assert.equal(scaleLamports(amount, ratio, 'down'), floorDiv(product, denominator));
+      assert.equal(scaleLamports(amount, ratio, 'up'), ceilDiv(product, denominator));
+    });
+  });
+
+  it('rejects negative and non-finite ratios', () => {
+    assert.throws(() => scaleLamports(1n, -0.5, 'down'), /Invalid ratio/);
+    assert.throws(() => scaleLamports(1n, Infinity, 'up'), /Invalid ratio/);
+  });
+});
+
+describe('calculateFee', () => {
+  it('rounds up and never takes more than the amount', () => {
+    forAll(RUNS, (random) => {
+      const amount = random.bigint(0n, MAX_LAMPORTS);
+      const { ratio, numerator, denominator } = randomRatio(random, 2);
+      const fee = calculateFee(amount, ratio);
+
+      const exact = ceilDiv(amount * numerator, denominator);
+      assert.equal(fee, exact > amount ? amount : exact);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { DATABASE_SKIP } from './support/env';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { Keypair } from '@solana/web3.js';
+import { resetDatabase } from './support/db';
+import { createSessionToken } from '../src/lib/siws';
+
+describe('GET /api/orders/:wallet_address', { skip: DATABASE_SKIP }, () => {
+  // Loaded in before() so a skipped suite never creates a Prisma client
+  let prisma: typeof import('../src/lib/prisma').default;
+  let server: Server;
+  let baseUrl: string;
+
+  const wallet = Keypair.generate().publicKey.toBase58();
+  const other = Keypair.generate().publicKey.toBase58();
+
+  before(async () => {
+    prisma = (await import('../src/lib/prisma')).default;
+    const orders = (await import('../src/routes/orders')).default;
+    await resetDatabase(prisma);
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/orders', orders);
+    server = app.listen(0);
+    await once(server, 'listening');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.close();
+    await prisma.$disconnect();
+  });
+
+  const list = async (address: string, token?: string) => {
+    const response = await fetch(`${baseUrl}/api/orders/${address}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    });
+    return { status: response.status, body: await response.json() as { code?: string; orders?: unknown[] } };
+  };
+
+  it('requires a session', async () => {
+    const { status, body } = await list(wallet);
+    assert.equal(status, 401);
+    assert.equal(body.code, 'UNAUTHORIZED');
+  });
+
+  it('refuses another wallet\'s orders', async () => {
+    const { status, body } = await list(wallet, createSessionToken(other).token);
+    assert.equal(status, 403);
+    assert.equal(body.code, 'WALLET_MISMATCH');
+  });
+
+  it('lists the signed-in wallet\'s own orders', async () => {
+    const { status, body } = await list(wallet, createSessionToken(wallet).token);
+    assert.equal(status, 200);
+    assert.deepEqual(body.orders, []);
+  });
+});
+
+describe('evaluateOrders', { skip: DATABASE_SKIP }, () => {
+  let prisma: typeof import('../src/lib/prisma').default;
+  let orders: typeof import('../src/services/orderService');
+  let rounds: typeof import('../src/services/roundService');
+
+  before(async () => {
+    prisma = (await import('../src/lib/prisma')).default;
+    orders = await import('../src/services/orderService');
+    rounds = await import('../src/services/roundService');
+    await resetDatabase(prisma);
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('fails a triggered order whose sell throws instead of leaving it triggered', async () => {
+    const profile = await prisma.profile.create({
+      data: { wallet_address: Keypair.generate().publicKey.toBase58() }
+    });
+    const round = await rounds.createRound();
+    const position = await prisma.playerPosition.create({
+      data: { round_id: round.id, profile_id: profile.id, token_balance: 1, total_sol_in: 1, entry_price: 1 }
+    });
+    const order = await prisma.conditionalOrder.create({
+      data: {
+        round_id: round.id,
+        profile_id: profile.id,
+        position_id: position.id,
+        order_type: 'take_profit',
+        trigger_multiplier: 2
+      }
+    });
+    // A curve that can't be built makes executeSell throw rather than return an error
+    await prisma.gameRound.update({ where: { id: round.id }, data: { pricing_params: {} } });
+
+    await orders.evaluateOrders(round.id, 3);
+
+    const failed = await prisma.conditionalOrder.findUniqueOrThrow({ where: { id: order.id } });
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.error, 'Sell failed');
+    const unchanged = await prisma.playerPosition.findUniqueOrThrow({ where: { id: position.id } });
+    assert.equal(unchanged.token_balance.toString(), '1');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Pool,
+  calculateBuy,
+  calculateSell,
+  applyBuy,
+  applySell,
+  getMultiplier
+} from '../src/lib/poolEngine';
+import {
+  PricingCurve,
+  createLinearCurve,
+  createConstantProductCurve,
+  createExponentialCurve
+} from '../src/lib/pricingCurve';
+import { LAMPORTS_PER_SOL_BIG, ZERO_LAMPORTS, calculateFee } from '../src/lib/lamports';
+import { forAll, Random } from './support/random';
+import { simulateRound } from './support/simulatedRound';
+
+const RUNS = 1000;
+const MAX_POOL = 50n * LAMPORTS_PER_SOL_BIG;
+
+const CURVES: PricingCurve[] = [
+  createLinearCurve({ virtual_base: 0.5 }),
+  createConstantProductCurve({ virtual_base: 0.5 }),
+  createExponentialCurve({ growth_rate: 0.1 })
+];
+
+const FEE_RATES = [0, 0.01, 0.02, 0.025, 0.1];
+
+const randomPool = (random: Random): Pool => ({
+  sol_balance: random.bigint(0n, MAX_POOL),
+  token_supply: 1_000_000
+});
+
+describe('calculateBuy', () => {
+  it('splits every lamport paid between the pool and the fee', () => {
+    forAll(RUNS, (random) => {
+      const pool = randomPool(random);
+      const amount = random.bigint(1n, 10n * LAMPORTS_PER_SOL_BIG);
+      const fee = calculateFee(amount, random.pick(FEE_RATES));
+
+      const tokens = calculateBuy(pool, amount - fee);
+      const after = applyBuy(pool, amount - fee);
+
+      assert.equal((after.sol_balance - pool.sol_balance) + fee, amount);
+      assert.equal(tokens, amount - fee);
+    });
+  });
+});
+
+describe('calculateSell', () => {
+  it('takes exactly the payout and fee out of the pool and never more than it holds', () => {
+    forAll(RUNS, (random) => {
+      const curve = random.pick(CURVES);
+      const pool = randomPool(random);
+      const tokens = random.bigint(0n, MAX_POOL);
+      const entry = 1 + random.next() * 10;
+
+      const gross = calculateSell(pool, tokens, entry, curve);
+      const fee = calculateFee(gross, random.pick(FEE_RATES));
+      const payout = gross - fee;
+      const after = applySell(pool, gross);
+
+      assert.ok(gross >= ZERO_LAMPORTS && gross <= pool.sol_balance);
+      assert.ok(payout >= ZERO_LAMPORTS);
+      assert.equal(pool.sol_balance - after.sol_balance, fee + payout);
+    });
+  });
+
+  it('pays the position its multiplier gain, rounded down, while the pool can cover it', () => {
+    forAll(RUNS, (random) => {
+      const curve = random.pick(CURVES);
+      const pool = randomPool(random);
+      const tokens = random.bigint(1n, LAMPORTS_PER_SOL_BIG);
+      const entry = 1 + random.next() * 10;
+
+      const gross = calculateSell(pool, tokens, entry, curve);
+      const exact = Number(tokens) * getMultiplier(pool, curve) / entry;
+      if (gross < pool.sol_balance) {
+        // Float reference - within a lamport of the Decimal result, never above it
+        assert.ok(Number(gross) <= exact + 1 && Number(gross) > exact - 2, `${gross} vs ${exact}`);
+      }
+    });
+  });
+});
+
+describe('a round of buys and sells', () => {
+  it('accounts for every lamport: paid in = pool + fees + paid out', () => {
+    forAll(200, (random) => {
+      const round = simulateRound({
+        curve: random.pick(CURVES),
+        buyFee: random.pick(FEE_RATES),
+        sellFee: random.pick(FEE_RATES)
+      });
+      const players = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+      for (let step = 0; step < 40; step++) {
+        const holders = round.holders();
+        if (holders.length > 0 && random.next() < 0.4) {
+          round.sell(random.pick(holders));
+        } else {
+          round.buy(random.pick(players), random.bigint(1_000_000n, 2n * LAMPORTS_PER_SOL_BIG));
+        }
+
+        assert.equal(round.deposited, round.pool.sol_balance + round.fees + round.payouts);
+      }
+
+      // Everyone out - whatever the pool still holds is what the capped sells left behind
+      for (const holder of round.holders()) {
+        round.sell(holder);
+      }
+      assert.equal(round.deposited, round.pool.sol_balance + round.fees + round.payouts);
+      assert.ok(round.paidOut <= round.stakedIn);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { escrow, DATABASE_SKIP } from './support/env';
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { createFakeSolana, FakeSolana } from './support/fakeSolana';
+import { resetDatabase } from './support/db';
+import { Lamports, ZERO_LAMPORTS, toLamports, lamportsToDecimal } from '../src/lib/lamports';
+import { ASSETS, toChainUnits } from '../src/lib/assets';
+
+/**
+ * Escrow holdings on the fake chain against balances, open pools, unswept fees and forfeitures in the database
+ */
+describe('runReconciliation', { skip: DATABASE_SKIP }, () => {
+  // Loaded in before() so a skipped suite never creates a Prisma client
+  let prisma: typeof import('../src/lib/prisma').default;
+  let reconciliation: typeof import('../src/services/reconciliationService');
+  let ledger: typeof import('../src/services/ledgerService');
+  let rounds: typeof import('../src/services/roundService');
+
+  let solana: FakeSolana;
+  const escrowAddress = escrow.publicKey.toBase58();
+
+  before(async () => {
+    prisma = (await import('../src/lib/prisma')).default;
+    reconciliation = await import('../src/services/reconciliationService');
+    ledger = await import('../src/services/ledgerService');
+    rounds = await import('../src/services/roundService');
+  });
+
+  beforeEach(async () => {
+    await resetDatabase(prisma);
+    solana = createFakeSolana();
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  // 3 SOL across two players, 1 SOL in an active round's pool and 0.2 SOL of unswept fees - 4.2 SOL in escrow balances it
+  const seedSol = async () => {
+    const player = await prisma.profile.create({
+      data: { wallet_address: Keypair.generate().publicKey.toBase58(), deposited_balance: 2 }
+    });
+    await prisma.profile.create({
+      data: { wallet_address: Keypair.generate().publicKey.toBase58(), deposited_balance: 1 }
+    });
+
+    const round = await rounds.createRound();
+    await prisma.gameRound.update({ where: { id: round.id }, data: { pool_sol_balance: 1 } });
+
+    await ledger.recordTransfers(prisma, [{
+      kind: 'buy_fee',
+      debit: ledger.LedgerAccounts.user(player.id),
+      credit: ledger.LedgerAccounts.houseFees,
+      amount: toLamports('0.2')
+    }]);
+  };
+
+  const reconcileSol = async () => {
+    const reports = await reconciliation.runReconciliation(solana);
+    const report = reports.find(r => r.asset === 'sol')!;
+    const stored = await prisma.escrowReconciliation.findFirstOrThrow({ where: { asset: 'sol' } });
+    return { report, stored };
+  };
+
+  it('balances when the escrow holds exactly what is owed plus unswept fees', async () => {
+    await seedSol();
+    solana.airdrop(escrowAddress, toLamports('4.2'));
+
+    const { report, stored } = await reconcileSol();
+    assert.equal(report.userBalances, toLamports(3));
+    assert.equal(report.openPools, toLamports(1));
+    assert.equal(report.unsweptFees, toLamports('0.2'));
+    assert.equal(report.liability, toLamports(4));
+    assert.equal(report.surplus, ZERO_LAMPORTS);
+    assert.equal(report.shortfall, ZERO_LAMPORTS);
+    assert.equal(report.alerted, false);
+    assert.equal(stored.alerted, false);
+  });
+
+  it('raises an alert when the escrow is short', async () => {
+    await seedSol();
+    solana.airdrop(escrowAddress, toLamports('3.7'));
+
+    const { report, stored } = await reconcileSol();
+    assert.equal(report.surplus, -toLamports('0.5'));
+    assert.equal(report.shortfall, toLamports('0.5'));
+    assert.equal(report.alerted, true);
+    assert.equal(stored.alerted, true);
+    assert.equal(stored.shortfall.toString(), lamportsToDecimal(toLamports('0.5')).toString());
+  });
+
+  it('does not alert on a shortfall within the threshold', async () => {
+    await seedSol();
+    const threshold: Lamports = reconciliation.RECONCILIATION_ALERT_THRESHOLDS.sol;
+    solana.airdrop(escrowAddress, toLamports('4.2') - threshold);
+
+    const { report } = await reconcileSol();
+    assert.equal(report.shortfall, threshold);
+    assert.equal(report.alerted, false);
+  });
+
+  it('reports a surplus without alerting when the escrow holds more', async () => {
+    await seedSol();
+    solana.airdrop(escrowAddress, toLamports(5));
+
+    const { report, stored } = await reconcileSol();
+    assert.equal(report.surplus, toLamports('0.8'));
+    assert.equal(report.shortfall, ZERO_LAMPORTS);
+    assert.equal(report.alerted, false);
+    assert.equal(stored.alerted, false);
+  });
+
+  it('counts forfeited pools as held, so a shortfall smaller than them still alerts', async () => {
+    await seedSol();
+    // An ended round whose 0.3 SOL pool nobody sold out of - it moves to forfeiture and stays in escrow
+    const player = await prisma.profile.findFirstOrThrow();
+    const ended = await rounds.createRound();
+    await prisma.gameRound.update({ where: { id: ended.id }, data: { pool_sol_balance: '0.3' } });
+    await ledger.recordTransfers(prisma, [{
+      kind: 'buy',
+      debit: ledger.LedgerAccounts.user(player.id),
+      credit: ledger.LedgerAccounts.roundPool(ended.id),
+      amount: toLamports('0.3')
+    }]);
+    await rounds.endRound(ended.id);
+
+    // 4.2 + 0.3 expected, 0.1 missing
+    solana.airdrop(escrowAddress, toLamports('4.4'));
+
+    const { report, stored } = await reconcileSol();
+    assert.equal(report.openPools, toLamports(1));
+    assert.equal(report.forfeitures, toLamports('0.3'));
+    assert.equal(report.shortfall, toLamports('0.1'));
+    assert.equal(report.alerted, true);
+    assert.equal(stored.forfeitures.toString(), lamportsToDecimal(toLamports('0.3')).toString());
+  });
+
+  it('checks USDC against the escrow token account on its own', async () => {
+    await prisma.profile.create({
+      data: { wallet_address: Keypair.generate().publicKey.toBase58(), usdc_balance: 50 }
+    });
+    // Plenty of SOL - only the USDC side is short
+    solana.airdrop(escrowAddress, toLamports(100));
+    solana.mintTokens(escrowAddress, ASSETS.usdc.mint!.toBase58(), toChainUnits('usdc', toLamports(20)));
+
+    const reports = await reconciliation.runReconciliation(solana);
+    const sol = reports.find(r => r.asset === 'sol')!;
+    const usdc = reports.find(r => r.asset === 'usdc')!;
+    assert.equal(sol.alerted, false);
+    assert.equal(usdc.escrowBalance, toLamports(20));
+    assert.equal(usdc.userBalances, toLamports(50));
+    assert.equal(usdc.shortfall, toLamports(30));
+    assert.equal(usdc.alerted, true);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runSerialized, getActiveQueueCount } from '../src/lib/serialQueue';
+import { createRandom } from './support/random';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runSerialized', () => {
+  it('runs hundreds of parallel tasks one at a time per key, in queue order', async () => {
+    const random = createRandom();
+    const running = new Map<string, number>();
+    const finished = new Map<string, number[]>();
+    let overlapping = 0;
+
+    const tasks = Array.from({ length: 400 }, (_, index) => {
+      const key = random.pick(['round-a', 'round-b', 'round-c']);
+      const delay = random.int(0, 3);
+      return runSerialized(key, async () => {
+        running.set(key, (running.get(key) || 0) + 1);
+        if (running.get(key)! > 1) overlapping++;
+        await sleep(delay);
+        running.set(key, running.get(key)! - 1);
+        finished.set(key, [...(finished.get(key) || []), index]);
+        return index;
+      });
+    });
+
+    const results = await Promise.all(tasks);
+    assert.deepEqual(results, results.map((_, index) => index));
+    assert.equal(overlapping, 0);
+    for (const order of finished.values()) {
+      assert.deepEqual(order, [...order].sort((a, b) => a - b));
+    }
+
+    // Tails are dropped once a key's queue drains
+    await sleep(0);
+    assert.equal(getActiveQueueCount(), 0);
+  });
+
+  it('keeps running the queue after a task fails', async () => {
+    const ran: number[] = [];
+    const first = runSerialized('round', async () => { ran.push(1); throw new Error('TRADE_FAILED'); });
+    const second = runSerialized('round', async () => { ran.push(2); return 2; });
+
+    await assert.rejects(first, /TRADE_FAILED/);
+    assert.equal(await second, 2);
+    assert.deepEqual(ran, [1, 2]);
+  });
+});
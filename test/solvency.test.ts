@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePoolSolvency, calculateSell } from '../src/lib/poolEngine';
+import { ZERO_LAMPORTS, toLamports } from '../src/lib/lamports';
+import { simulateRound } from './support/simulatedRound';
+
+describe('calculatePoolSolvency', () => {
+  it('covers a lone position, whose claim is capped at the pool', () => {
+    const round = simulateRound();
+    round.buy('alice', toLamports(1));
+
+    // Uncapped, 0.98 staked at a 1.98x entry is worth ~1.465 at 2.96x
+    const report = round.solvency();
+    assert.equal(report.isSolvent, true);
+    assert.equal(report.outstandingClaims, toLamports('0.98'));
+    assert.equal(report.shortfall, ZERO_LAMPORTS);
+    assert.equal(report.coverageRatio, 1);
+  });
+
+  it('stays solvent while players take turns holding the only position', () => {
+    const round = simulateRound();
+    const steps: Array<() => unknown> = [
+      () => round.buy('alice', toLamports(1)),
+      () => round.sell('alice'),
+      () => round.buy('bob', toLamports(0.5)),
+      () => round.buy('bob', toLamports(0.25)),
+      () => round.sell('bob'),
+      () => round.buy('carol', toLamports(2)),
+      () => round.sell('carol')
+    ];
+
+    for (const step of steps) {
+      step();
+      const report = round.solvency();
+      assert.equal(report.isSolvent, true, `coverage ${report.coverageRatio}`);
+      assert.equal(report.shortfall, ZERO_LAMPORTS);
+    }
+  });
+
+  it('flags open positions whose claims add up to more than the pool', () => {
+    const round = simulateRound();
+    round.buy('alice', toLamports(1));
+    round.buy('bob', toLamports(1));
+
+    const pool = round.pool;
+    const alice = calculateSell(pool, toLamports('0.98'), 1.98);
+    assert.equal(alice, pool.sol_balance);
+
+    const report = round.solvency();
+    assert.equal(report.isSolvent, false);
+    assert.ok(report.outstandingClaims > pool.sol_balance);
+    assert.equal(report.shortfall, report.outstandingClaims - pool.sol_balance);
+    assert.ok(report.coverageRatio < 1);
+  });
+
+  it('counts nothing for positions an emptied pool can no longer pay', () => {
+    const round = simulateRound();
+    round.buy('alice', toLamports(1));
+    round.buy('bob', toLamports(1));
+
+    // Alice's claim is worth more than the whole pool, so her sell takes all of it
+    assert.equal(round.sell('alice').gross, toLamports('1.96'));
+
+    const report = round.solvency();
+    assert.equal(report.isSolvent, true);
+    assert.equal(report.outstandingClaims, ZERO_LAMPORTS);
+    assert.equal(report.coverageRatio, Infinity);
+  });
+
+  it('fails rounds below the minimum coverage', () => {
+    const pool = { sol_balance: toLamports(1), token_supply: 0 };
+    const positions = [{ tokens: toLamports('0.5'), entryMultiplier: 3 }];
+
+    // 0.5 at 3x entry on a 3x pool claims 0.5 - coverage 2
+    assert.equal(calculatePoolSolvency(pool, positions, undefined, 2).isSolvent, true);
+    assert.equal(calculatePoolSolvency(pool, positions, undefined, 2.5).isSolvent, false);
+  });
+});
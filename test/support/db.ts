@@ -0,0 +1,25 @@
+import type { PrismaClient } from '@prisma/client';
+
+/**
+ * Empty every table of the test database
+ */
+export async function resetDatabase(prisma: PrismaClient): Promise<void> {
+  const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+    SELECT tablename FROM pg_tables WHERE schemaname = current_schema()
+  `;
+  if (tables.length === 0) return;
+  await prisma.$executeRawUnsafe(`TRUNCATE ${tables.map(t => `"${t.tablename}"`).join(', ')} CASCADE`);
+}
+
+/**
+ * Poll until `check` returns something truthy, or fail after timeoutMs
+ */
+export async function waitFor<T>(check: () => Promise<T | null | undefined | false>, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() >= deadline) throw new Error(`Timed out after ${timeoutMs}ms`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
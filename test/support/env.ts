@@ -0,0 +1,26 @@
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+/**
+ * Test environment - import before anything from src/
+ *
+ * Database tests run against TEST_DATABASE_URL (schema applied with
+ * `prisma db push`) and are skipped without it. They empty every table,
+ * so never point it at a database with real data.
+ */
+
+export const escrow = Keypair.generate();
+export const house = Keypair.generate();
+
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
+process.env.ESCROW_PRIVATE_KEY = bs58.encode(escrow.secretKey);
+process.env.ESCROW_WALLET_ADDRESS = escrow.publicKey.toBase58();
+process.env.HOUSE_WALLET_ADDRESS = house.publicKey.toBase58();
+process.env.SESSION_SECRET ||= 'test-session-secret';
+// Requests give up on a withdrawal quickly - the worker tests finish the rest
+process.env.WITHDRAWAL_WAIT_MS ||= '500';
+
+// `skip` option for suites that need the database
+export const DATABASE_SKIP: string | false = process.env.TEST_DATABASE_URL ? false : 'TEST_DATABASE_URL not set';
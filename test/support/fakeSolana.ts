@@ -0,0 +1,392 @@
+import { randomBytes } from 'crypto';
+import { PublicKey, SystemInstruction, SystemProgram, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { Lamports, ZERO_LAMPORTS } from '../../src/lib/lamports';
+import {
+  SolanaGateway,
+  SignatureInfo,
+  SignatureState,
+  SystemTransfer,
+  TokenTransfer,
+  TransactionInfo,
+  TransferResult,
+  TOKEN_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddress
+} from '../../src/lib/solana';
+
+/**
+ * In-memory Solana
+ *
+ * A SolanaGateway that keeps wallets, token accounts and transactions in
+ * memory, so deposits, withdrawals and the background jobs run without an RPC
+ * node. Player-side transfers (deposits) are added with transfer /
+ * tokenTransfer; escrow-signed transactions (withdrawals) arrive through
+ * sendTransaction and are decoded from their instructions.
+ *
+ * Every transaction lands (becomes confirmed) once its delay has passed, in
+ * that order. It fails on chain if asked to or if a source can't cover it, and
+ * a dropped one is accepted but never lands - a rebroadcast of the same bytes
+ * can still land it. Blockhashes expire 150 blocks after they were handed out;
+ * blocks only advance through advanceBlocks. Fees and rent are not charged.
+ */
+
+// How a transaction behaves once submitted
+export interface FakeOutcome {
+  fail?: boolean;      // Lands as failed - nothing moves
+  delayMs?: number;    // Stays pending this long before landing
+  drop?: boolean;      // Never lands
+}
+
+export interface FakeSolana extends SolanaGateway {
+  // Give a wallet lamports out of thin air
+  airdrop(address: string, lamports: Lamports): void;
+  // Give a wallet tokens of a mint (creates its token account)
+  mintTokens(owner: string, mint: string, amount: bigint): void;
+  // A SystemProgram transfer signed by `from` - returns its signature
+  transfer(from: string, to: string, lamports: Lamports, outcome?: FakeOutcome): string;
+  // An SPL transfer between the two wallets' token accounts, signed by `from` - returns its signature
+  tokenTransfer(from: string, to: string, mint: string, amount: bigint, outcome?: FakeOutcome): string;
+  // Outcome for the next sendTransaction call (queued, one per call; default lands right away)
+  nextSend(outcome: FakeOutcome): void;
+  advanceBlocks(count: number): void;
+}
+
+interface TokenMove {
+  mint: string;
+  authority: string;
+  source: string;        // Token accounts
+  destination: string;
+  amount: bigint;
+}
+
+interface FakeTransaction {
+  signature: string;
+  feePayer: string;
+  systemTransfers: SystemTransfer[];
+  tokenMoves: TokenMove[];
+  createdAccounts: { address: string; owner: string; mint: string }[];
+  forceFail: boolean;
+  landsAt: number;       // Date.now() from which it is confirmed
+  lastValidBlockHeight: number | null;   // Sent transactions never land once their blockhash expired
+  // Filled in when it lands
+  failed: boolean;
+  slot: number;
+  blockTime: number;
+  lamportChanges: Map<string, bigint>;
+  tokenChanges: Map<string, bigint>;   // tokenKey(owner, mint)
+}
+
+// Blocks a blockhash stays valid for, as on mainnet
+const BLOCKHASH_VALIDITY = 150;
+
+const tokenKey = (owner: string, mint: string) => `${owner}:${mint}`;
+const randomSignature = () => bs58.encode(randomBytes(64));
+
+const addTo = (map: Map<string, bigint>, key: string, amount: bigint) => {
+  map.set(key, (map.get(key) || 0n) + amount);
+};
+
+/**
+ * Create an empty in-memory chain
+ */
+export function createFakeSolana(): FakeSolana {
+  const lamports = new Map<string, bigint>();
+  const tokens = new Map<string, bigint>();
+  const tokenAccounts = new Map<string, { owner: string; mint: string }>();
+  const blockhashes = new Map<string, number>();   // blockhash -> lastValidBlockHeight
+
+  const pending: FakeTransaction[] = [];
+  const landed: FakeTransaction[] = [];            // Oldest first
+  const known = new Set<string>();                 // Every signature that was accepted
+  const sendOutcomes: FakeOutcome[] = [];
+  let blockHeight = 1;
+  let slot = 1;
+
+  const openTokenAccount = (owner: string, mint: string): string => {
+    const address = getAssociatedTokenAddress(new PublicKey(owner), new PublicKey(mint)).toBase58();
+    if (!tokenAccounts.has(address)) {
+      tokenAccounts.set(address, { owner, mint });
+    }
+    return address;
+  };
+
+  const touches = (transaction: FakeTransaction, address: string) =>
+    transaction.feePayer === address ||
+    transaction.systemTransfers.some(t => t.source === address || t.destination === address) ||
+    transaction.tokenMoves.some(t => t.source === address || t.destination === address || t.authority === address || t.mint === address) ||
+    transaction.createdAccounts.some(a => a.address === address || a.owner === address);
+
+  type Submitted = Pick<FakeTransaction, 'signature' | 'feePayer' | 'systemTransfers' | 'tokenMoves' | 'createdAccounts'>;
+
+  const submit = (transaction: Submitted, outcome: FakeOutcome = {}, lastValidBlockHeight: number | null = null) => {
+    if (outcome.drop) {
+      return;
+    }
+    known.add(transaction.signature);
+    pending.push({
+      ...transaction,
+      forceFail: !!outcome.fail,
+      landsAt: Date.now() + (outcome.delayMs || 0),
+      lastValidBlockHeight,
+      failed: false,
+      slot: 0,
+      blockTime: 0,
+      lamportChanges: new Map(),
+      tokenChanges: new Map()
+    });
+  };
+
+  // Apply a transaction all-or-nothing, like the runtime does
+  const land = (transaction: FakeTransaction) => {
+    const lamportChanges = new Map<string, bigint>();
+    const tokenChanges = new Map<string, bigint>();
+    const created: typeof transaction.createdAccounts = [];
+    let failed = transaction.forceFail;
+
+    for (const account of transaction.createdAccounts) {
+      const existing = tokenAccounts.get(account.address);
+      if (existing && (existing.owner !== account.owner || existing.mint !== account.mint)) failed = true;
+      if (!existing) created.push(account);
+    }
+    for (const transfer of transaction.systemTransfers) {
+      addTo(lamportChanges, transfer.source, -transfer.lamports);
+      addTo(lamportChanges, transfer.destination, transfer.lamports);
+    }
+    for (const move of transaction.tokenMoves) {
+      const source = tokenAccounts.get(move.source);
+      const destination = tokenAccounts.get(move.destination) || created.find(a => a.address === move.destination);
+      if (!source || !destination || source.mint !== move.mint || destination.mint !== move.mint || source.owner !== move.authority) {
+        failed = true;
+        continue;
+      }
+      addTo(tokenChanges, tokenKey(source.owner, move.mint), -move.amount);
+      addTo(tokenChanges, tokenKey(destination.owner, move.mint), move.amount);
+    }
+
+    const overdrawn =
+      Array.from(lamportChanges).some(([address, change]) => (lamports.get(address) || 0n) + change < 0n) ||
+      Array.from(tokenChanges).some(([key, change]) => (tokens.get(key) || 0n) + change < 0n);
+
+    transaction.slot = slot++;
+    transaction.blockTime = Math.floor(transaction.landsAt / 1000);
+    transaction.failed = failed || overdrawn;
+    if (!transaction.failed) {
+      for (const account of created) tokenAccounts.set(account.address, { owner: account.owner, mint: account.mint });
+      lamportChanges.forEach((change, address) => addTo(lamports, address, change));
+      tokenChanges.forEach((change, key) => addTo(tokens, key, change));
+      transaction.lamportChanges = lamportChanges;
+      transaction.tokenChanges = tokenChanges;
+    }
+    landed.push(transaction);
+  };
+
+  // Land everything whose delay has passed - called before every read
+  const settle = () => {
+    const now = Date.now();
+    const due = pending
+      .filter(transaction => transaction.landsAt <= now)
+      .sort((a, b) => a.landsAt - b.landsAt);
+    for (const transaction of due) {
+      pending.splice(pending.indexOf(transaction), 1);
+      if (transaction.lastValidBlockHeight === null || blockHeight <= transaction.lastValidBlockHeight) {
+        land(transaction);
+      }
+    }
+  };
+
+  const find = (signature: string): FakeTransaction | null => {
+    settle();
+    return landed.find(transaction => transaction.signature === signature) || null;
+  };
+
+  // Decode the instructions this codebase signs: SystemProgram transfers,
+  // CreateIdempotent token accounts and Transfer / TransferChecked
+  const decode = (transaction: Transaction) => {
+    const systemTransfers: SystemTransfer[] = [];
+    const tokenMoves: TokenMove[] = [];
+    const createdAccounts: FakeTransaction['createdAccounts'] = [];
+
+    for (const instruction of transaction.instructions) {
+      const keys = instruction.keys.map(key => key.pubkey.toBase58());
+
+      if (instruction.programId.equals(SystemProgram.programId)) {
+        if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') {
+          throw new Error('Fake Solana: unsupported SystemProgram instruction');
+        }
+        const decoded = SystemInstruction.decodeTransfer(instruction);
+        systemTransfers.push({
+          source: decoded.fromPubkey.toBase58(),
+          destination: decoded.toPubkey.toBase58(),
+          lamports: BigInt(decoded.lamports)
+        });
+      } else if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+        createdAccounts.push({ address: keys[1], owner: keys[2], mint: keys[3] });
+      } else if (instruction.programId.equals(TOKEN_PROGRAM_ID)) {
+        const type = instruction.data.readUInt8(0);
+        const amount = instruction.data.readBigUInt64LE(1);
+        if (type === 12) {
+          tokenMoves.push({ source: keys[0], mint: keys[1], destination: keys[2], authority: keys[3], amount });
+        } else if (type === 3) {
+          const mint = tokenAccounts.get(keys[0])?.mint || '';
+          tokenMoves.push({ source: keys[0], mint, destination: keys[1], authority: keys[2], amount });
+        } else {
+          throw new Error(`Fake Solana: unsupported token instruction ${type}`);
+        }
+      } else {
+        throw new Error(`Fake Solana: unsupported program ${instruction.programId.toBase58()}`);
+      }
+    }
+
+    return { systemTransfers, tokenMoves, createdAccounts };
+  };
+
+  const transferResult = (transaction: FakeTransaction | null, received: (transaction: FakeTransaction) => bigint | null): TransferResult | null => {
+    if (!transaction) return null;
+    if (transaction.failed) {
+      return { succeeded: false, sender: transaction.feePayer, received: null };
+    }
+    return { succeeded: true, sender: transaction.feePayer, received: received(transaction) };
+  };
+
+  return {
+    airdrop(address: string, amount: Lamports): void {
+      addTo(lamports, address, amount);
+    },
+
+    mintTokens(owner: string, mint: string, amount: bigint): void {
+      openTokenAccount(owner, mint);
+      addTo(tokens, tokenKey(owner, mint), amount);
+    },
+
+    transfer(from: string, to: string, amount: Lamports, outcome?: FakeOutcome): string {
+      const signature = randomSignature();
+      submit({
+        signature,
+        feePayer: from,
+        systemTransfers: [{ source: from, destination: to, lamports: amount }],
+        tokenMoves: [],
+        createdAccounts: []
+      }, outcome);
+      return signature;
+    },
+
+    tokenTransfer(from: string, to: string, mint: string, amount: bigint, outcome?: FakeOutcome): string {
+      const signature = randomSignature();
+      const source = openTokenAccount(from, mint);
+      const destination = getAssociatedTokenAddress(new PublicKey(to), new PublicKey(mint)).toBase58();
+      submit({
+        signature,
+        feePayer: from,
+        systemTransfers: [],
+        tokenMoves: [{ mint, authority: from, source, destination, amount }],
+        createdAccounts: [{ address: destination, owner: to, mint }]
+      }, outcome);
+      return signature;
+    },
+
+    nextSend(outcome: FakeOutcome): void {
+      sendOutcomes.push(outcome);
+    },
+
+    advanceBlocks(count: number): void {
+      blockHeight += count;
+    },
+
+    async getBalance(address: string): Promise<Lamports> {
+      settle();
+      return lamports.get(address) || ZERO_LAMPORTS;
+    },
+
+    async getTransaction(signature: string): Promise<TransactionInfo | null> {
+      const transaction = find(signature);
+      return transaction && { slot: transaction.slot, blockTime: transaction.blockTime, failed: transaction.failed };
+    },
+
+    async getTransfer(signature: string, recipient: string): Promise<TransferResult | null> {
+      return transferResult(find(signature), transaction =>
+        touches(transaction, recipient) ? transaction.lamportChanges.get(recipient) || 0n : null
+      );
+    },
+
+    async getSignatures(address: string, options: { until?: string; before?: string; limit: number }): Promise<SignatureInfo[]> {
+      settle();
+      const newestFirst = landed.filter(transaction => touches(transaction, address)).reverse();
+      const start = options.before ? newestFirst.findIndex(t => t.signature === options.before) + 1 : 0;
+      const result: SignatureInfo[] = [];
+      for (const transaction of newestFirst.slice(start)) {
+        if (transaction.signature === options.until || result.length >= options.limit) break;
+        result.push({ signature: transaction.signature, failed: transaction.failed });
+      }
+      return result;
+    },
+
+    async getSystemTransfers(signature: string): Promise<SystemTransfer[] | null> {
+      return find(signature)?.systemTransfers || null;
+    },
+
+    async getTokenBalance(owner: string, mint: string): Promise<bigint> {
+      settle();
+      return tokens.get(tokenKey(owner, mint)) || 0n;
+    },
+
+    async getTokenTransfer(signature: string, owner: string, mint: string): Promise<TransferResult | null> {
+      const key = tokenKey(owner, mint);
+      return transferResult(find(signature), transaction => {
+        const touched = transaction.tokenMoves.some(move =>
+          move.mint === mint && [move.source, move.destination].some(address => tokenAccounts.get(address)?.owner === owner)
+        );
+        return touched ? transaction.tokenChanges.get(key) || 0n : null;
+      });
+    },
+
+    async getTokenTransfers(signature: string): Promise<TokenTransfer[] | null> {
+      const transaction = find(signature);
+      return transaction && transaction.tokenMoves.map(({ authority, source, destination, amount }) => ({
+        authority, source, destination, amount
+      }));
+    },
+
+    async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+      const blockhash = bs58.encode(randomBytes(32));
+      const lastValidBlockHeight = blockHeight + BLOCKHASH_VALIDITY;
+      blockhashes.set(blockhash, lastValidBlockHeight);
+      return { blockhash, lastValidBlockHeight };
+    },
+
+    async getBlockHeight(): Promise<number> {
+      return blockHeight;
+    },
+
+    async sendTransaction(serialized: string): Promise<void> {
+      const transaction = Transaction.from(Buffer.from(serialized, 'base64'));
+      if (!transaction.signature || !transaction.feePayer || !transaction.verifySignatures()) {
+        throw new Error('Fake Solana: transaction is not signed');
+      }
+
+      const lastValid = blockhashes.get(transaction.recentBlockhash || '');
+      if (lastValid === undefined || blockHeight > lastValid) {
+        throw new Error('Fake Solana: Blockhash not found');
+      }
+
+      const outcome = sendOutcomes.shift();
+      const signature = bs58.encode(transaction.signature);
+      // Rebroadcasting something already accepted does nothing
+      if (known.has(signature)) {
+        return;
+      }
+
+      submit({
+        signature,
+        feePayer: transaction.feePayer.toBase58(),
+        ...decode(transaction)
+      }, outcome, lastValid);
+    },
+
+    async getSignatureState(signature: string): Promise<SignatureState> {
+      const transaction = find(signature);
+      if (!transaction) return 'pending';
+      return transaction.failed ? 'failed' : 'confirmed';
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Seeded random values for property tests
+ *
+ * Every run uses TEST_SEED (or a fixed default) so a failure can be replayed:
+ * the seed is part of each property's failure message.
+ */
+
+export const TEST_SEED = Number(process.env.TEST_SEED) || 20240611;
+
+export interface Random {
+  seed: number;
+  // Float in [0, 1)
+  next(): number;
+  // Integer in [min, max]
+  int(min: number, max: number): number;
+  // Bigint in [min, max]
+  bigint(min: bigint, max: bigint): bigint;
+  pick<T>(values: readonly T[]): T;
+}
+
+/**
+ * mulberry32 - small, fast and good enough to spread test inputs
+ */
+export function createRandom(seed: number = TEST_SEED): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed,
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    bigint: (min, max) => {
+      // Two draws cover ranges past 2^53
+      const span = max - min + 1n;
+      const draw = BigInt(Math.floor(next() * 2 ** 32)) * 2n ** 32n + BigInt(Math.floor(next() * 2 ** 32));
+      return min + draw % span;
+    },
+    pick: (values) => values[Math.floor(next() * values.length)]
+  };
+}
+
+/**
+ * Run a property `runs` times with a fresh draw each time
+ * The failing run and seed are added to the assertion message
+ */
+export function forAll(runs: number, property: (random: Random, run: number) => void, seed: number = TEST_SEED): void {
+  const random = createRandom(seed);
+  for (let run = 0; run < runs; run++) {
+    try {
+      property(random, run);
+    } catch (error) {
+      (error as Error).message = `${(error as Error).message} (run ${run}, TEST_SEED=${seed})`;
+      throw error;
+    }
+  }
+}
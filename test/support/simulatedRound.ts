@@ -0,0 +1,113 @@
+import {
+  Pool,
+  PoolSolvency,
+  DEFAULT_PRICING_CURVE,
+  getInitialPool,
+  getMultiplier,
+  calculateBuy,
+  calculateSell,
+  calculateAverageEntry,
+  calculatePoolSolvency,
+  applyBuy,
+  applySell
+} from '../../src/lib/poolEngine';
+import { PricingCurve } from '../../src/lib/pricingCurve';
+import { Lamports, ZERO_LAMPORTS, calculateFee } from '../../src/lib/lamports';
+
+/**
+ * A round's pool moved the way executeBuy / executeSell move it, without a database
+ *
+ * Keeps the totals the tests check against: what players paid in, what the
+ * house took, what players got back and what went in and out of the pool,
+ * plus the open positions checkRoundSolvency weighs against it.
+ */
+
+export interface SimulatedRound {
+  readonly pool: Pool;
+  readonly deposited: Lamports;   // Paid by players, fees included
+  readonly fees: Lamports;        // Buy and sell fees
+  readonly payouts: Lamports;     // Received by players, after fees
+  readonly stakedIn: Lamports;    // Into the pool (buys after fees)
+  readonly paidOut: Lamports;     // Out of the pool (sells before fees)
+  holders(): string[];
+  buy(player: string, amount: Lamports): { fee: Lamports; stake: Lamports; tokens: Lamports };
+  // Sells the player's whole position
+  sell(player: string): { gross: Lamports; fee: Lamports; payout: Lamports };
+  solvency(): PoolSolvency;
+}
+
+export interface SimulatedRoundOptions {
+  curve?: PricingCurve;
+  buyFee?: number;
+  sellFee?: number;
+}
+
+export function simulateRound({
+  curve = DEFAULT_PRICING_CURVE,
+  buyFee = 0.02,
+  sellFee = 0.02
+}: SimulatedRoundOptions = {}): SimulatedRound {
+  let pool: Pool = getInitialPool();
+  let deposited = ZERO_LAMPORTS;
+  let fees = ZERO_LAMPORTS;
+  let payouts = ZERO_LAMPORTS;
+  let stakedIn = ZERO_LAMPORTS;
+  let paidOut = ZERO_LAMPORTS;
+  const positions = new Map<string, { tokens: Lamports; entry: number }>();
+
+  return {
+    get pool() { return pool; },
+    get deposited() { return deposited; },
+    get fees() { return fees; },
+    get payouts() { return payouts; },
+    get stakedIn() { return stakedIn; },
+    get paidOut() { return paidOut; },
+
+    holders: () => Array.from(positions.keys()),
+
+    buy(player, amount) {
+      const fee = calculateFee(amount, buyFee);
+      const stake = amount - fee;
+      const before = getMultiplier(pool, curve);
+      const tokens = calculateBuy(pool, stake);
+      pool = applyBuy(pool, stake);
+      const entry = calculateAverageEntry(before, getMultiplier(pool, curve));
+
+      // Weighted average entry, as executeBuy keeps it
+      const existing = positions.get(player);
+      positions.set(player, existing
+        ? {
+            tokens: existing.tokens + tokens,
+            entry: (Number(existing.tokens) * existing.entry + Number(tokens) * entry) / Number(existing.tokens + tokens)
+          }
+        : { tokens, entry });
+
+      deposited += amount;
+      fees += fee;
+      stakedIn += stake;
+      return { fee, stake, tokens };
+    },
+
+    sell(player) {
+      const position = positions.get(player);
+      if (!position) {
+        throw new Error(`No position for ${player}`);
+      }
+      const gross = calculateSell(pool, position.tokens, position.entry, curve);
+      const fee = calculateFee(gross, sellFee);
+      pool = applySell(pool, gross);
+      positions.delete(player);
+
+      fees += fee;
+      payouts += gross - fee;
+      paidOut += gross;
+      return { gross, fee, payout: gross - fee };
+    },
+
+    solvency: () => calculatePoolSolvency(
+      pool,
+      Array.from(positions.values(), ({ tokens, entry }) => ({ tokens, entryMultiplier: entry })),
+      curve
+    )
+  };
+}
@@ -0,0 +1,95 @@
+import { DATABASE_SKIP } from './support/env';
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { resetDatabase } from './support/db';
+import { createRandom } from './support/random';
+import { ZERO_LAMPORTS, toLamports, sumLamports } from '../src/lib/lamports';
+
+const PLAYERS = 25;
+const TRADES = 300;
+const STARTING_BALANCE = 10;
+
+/**
+ * Hundreds of buys and sells fired at one round at once - the serial queue and
+ * row locks must apply them one by one as if they had arrived in order
+ */
+describe('parallel trades on one round', { skip: DATABASE_SKIP }, () => {
+  // Loaded in before() so a skipped suite never creates a Prisma client
+  let prisma: typeof import('../src/lib/prisma').default;
+  let trades: typeof import('../src/services/tradeService');
+  let rounds: typeof import('../src/services/roundService');
+
+  before(async () => {
+    prisma = (await import('../src/lib/prisma')).default;
+    trades = await import('../src/services/tradeService');
+    rounds = await import('../src/services/roundService');
+    await resetDatabase(prisma);
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  it('numbers every fill, keeps the pool equal to the fills and no balance below zero', async () => {
+    const random = createRandom();
+    const round = await rounds.createRound();
+    // Long enough that the round can't end (or reach auto-exit) mid-test
+    await prisma.gameRound.update({ where: { id: round.id }, data: { duration_seconds: 3600 } });
+
+    const profiles = await Promise.all(Array.from({ length: PLAYERS }, () =>
+      prisma.profile.create({
+        data: { wallet_address: Keypair.generate().publicKey.toBase58(), deposited_balance: STARTING_BALANCE }
+      })
+    ));
+
+    // Sells can arrive before the player holds anything - those are rejected, not filled
+    const results = await Promise.all(Array.from({ length: TRADES }, () => {
+      const profile = random.pick(profiles);
+      const amount = random.int(10, 500) / 1000;
+      return random.next() < 0.6
+        ? trades.executeBuy(profile.id, round.id, amount)
+        : trades.executeSell(profile.id, round.id, amount);
+    }));
+    const filled = results.filter(result => result.success);
+    assert.ok(filled.length > TRADES / 2, `only ${filled.length} of ${TRADES} trades filled`);
+
+    // trade_sequence: 1..n with no gaps, one per fill
+    const fills = await prisma.trade.findMany({ where: { round_id: round.id }, orderBy: { sequence: 'asc' } });
+    assert.equal(fills.length, filled.length);
+    assert.deepEqual(fills.map(fill => fill.sequence), fills.map((_, index) => index + 1));
+    assert.deepEqual(
+      filled.map(result => result.sequence).sort((a, b) => a! - b!),
+      fills.map(fill => fill.sequence)
+    );
+
+    // Pool = buy stakes - sell payouts (fees included)
+    const buys = fills.filter(fill => fill.trade_type === 'buy');
+    const sells = fills.filter(fill => fill.trade_type === 'sell');
+    const stakedIn = sumLamports(buys.map(fill => toLamports(fill.sol_amount) - toLamports(fill.fee_amount)));
+    const paidOut = sumLamports(sells.map(fill => toLamports(fill.sol_amount)));
+
+    const finalRound = await prisma.gameRound.findUniqueOrThrow({ where: { id: round.id } });
+    assert.equal(finalRound.trade_sequence, fills.length);
+    assert.equal(toLamports(finalRound.pool_sol_balance), stakedIn - paidOut);
+    assert.equal(finalRound.trading_halted, false);
+
+    // Every balance is what its own fills left it with - and never negative
+    for (const profile of profiles) {
+      const own = fills.filter(fill => fill.profile_id === profile.id);
+      const spent = sumLamports(own.filter(fill => fill.trade_type === 'buy').map(fill => toLamports(fill.sol_amount)));
+      const received = sumLamports(own.filter(fill => fill.trade_type === 'sell')
+        .map(fill => toLamports(fill.sol_amount) - toLamports(fill.fee_amount)));
+
+      const after = await prisma.profile.findUniqueOrThrow({ where: { id: profile.id } });
+      const balance = toLamports(after.deposited_balance);
+      assert.ok(balance >= ZERO_LAMPORTS, `${profile.id} balance ${balance}`);
+      assert.equal(balance, toLamports(STARTING_BALANCE) - spent + received);
+    }
+
+    const positions = await prisma.playerPosition.findMany({ where: { round_id: round.id } });
+    for (const position of positions) {
+      assert.ok(toLamports(position.token_balance) >= ZERO_LAMPORTS, `${position.profile_id} tokens ${position.token_balance}`);
+    }
+  });
+});
@@ -0,0 +1,960 @@
+// Generated by `npm run generate:types` from src/schemas - do not edit by hand
+
+export type ErrorCode =
+  | "VALIDATION_ERROR"
+  | "NOT_FOUND"
+  | "INTERNAL_ERROR"
+  | "UNAUTHORIZED"
+  | "ADMIN_REQUIRED"
+  | "WALLET_MISMATCH"
+  | "INVALID_TOKEN"
+  | "NO_SOLANA_WALLET"
+  | "INVALID_WALLET"
+  | "INVALID_NONCE"
+  | "INVALID_SIGNATURE"
+  | "AUTH_SERVICE_ERROR"
+  | "IDEMPOTENCY_IN_PROGRESS"
+  | "IDEMPOTENCY_KEY_REUSED"
+  | "PROFILE_NOT_FOUND"
+  | "USERNAME_TAKEN"
+  | "NO_ACTIVE_ROUND"
+  | "ROUND_NOT_FOUND"
+  | "ROUND_NOT_ACTIVE"
+  | "ROUND_ENDED"
+  | "TRADING_HALTED"
+  | "AUTO_EXIT_ACTIVE"
+  | "TRADE_TOO_SMALL"
+  | "INSUFFICIENT_BALANCE"
+  | "NO_POSITION"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "SLIPPAGE_EXCEEDED"
+  | "ORDER_NOT_FOUND"
+  | "ORDER_ALREADY_TRIGGERED"
+  | "ORDER_LIMIT_REACHED"
+  | "TX_NOT_CONFIRMED"
+  | "TX_FAILED"
+  | "TX_SENDER_MISMATCH"
+  | "TX_NOT_TO_ESCROW"
+  | "AMOUNT_MISMATCH"
+  | "TRANSFER_FAILED"
+  | "WITHDRAWAL_LIMIT_EXCEEDED"
+  | "WITHDRAWAL_COOLDOWN"
+  | "WITHDRAWAL_NOT_FOUND"
+  | "WITHDRAWAL_NOT_IN_REVIEW"
+  | "FEE_SWEEP_RUNNING"
+  | "UNKNOWN_MESSAGE"
+  | "NOT_IDENTIFIED"
+  | "TOO_MANY_CONNECTIONS";
+
+/** Body of every failed REST response (WebSocket errors add type: "ERROR") */
+export interface ApiError {
+  success: false;
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+}
+
+export interface ProfileRequest {
+  /** Solana wallet address (base58) */
+  wallet_address: string;
+}
+
+export interface NonceRequest {
+  /** Solana wallet address (base58) */
+  wallet_address: string;
+}
+
+export interface VerifyRequest {
+  /** Solana wallet address (base58) */
+  wallet_address: string;
+  nonce: string;
+  /** base58 or base64 ed25519 signature of the sign-in message */
+  signature: string;
+}
+
+export interface UsernameRequest {
+  /** 1-20 alphanumeric characters, at most 1 capital letter */
+  username: string;
+}
+
+export interface AutoExitRequest {
+  enabled: boolean;
+}
+
+export interface TradeRequest {
+  trade_type: "buy" | "sell";
+  /** Amount of the round's quote asset to spend (buy) or tokens to sell (sell) */
+  sol_amount: number;
+  /** Buys: reject if the entry multiplier would be higher */
+  max_entry_multiplier?: number;
+  /** Sells: reject if less of the quote asset (after fee) would come out */
+  min_sol_out?: number;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface SellAllRequest {
+  min_sol_out?: number;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface PreviewQuery {
+  trade_type: "buy" | "sell";
+  sol_amount: number;
+  /** Solana wallet address (base58) */
+  wallet_address?: string;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface TradesQuery {
+  /** Default: 50 */
+  limit?: number;
+}
+
+export interface RoomQuery {
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface PlaceOrderRequest {
+  order_type: "take_profit" | "stop_loss";
+  trigger_multiplier: number;
+  /** Default: 100 */
+  sell_percent?: number;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface OrdersQuery {
+  round_id?: string;
+  status?: "open" | "triggered" | "filled" | "cancelled" | "failed" | "expired";
+}
+
+export interface ChatRequest {
+  message: string;
+  /** Default: "pumpit" */
+  room?: string;
+}
+
+export interface DepositConfirmRequest {
+  /** Solana wallet address (base58) */
+  wallet_address: string;
+  /** Solana transaction signature (base58) */
+  tx_signature: string;
+  /** Amount of asset sent to the escrow wallet */
+  amount: number;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface WithdrawRequest {
+  /** Amount of asset to withdraw */
+  amount: number;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface LedgerQuery {
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface AdminWithdrawalsQuery {
+  /** Default: "pending_review" */
+  status?: "pending_review" | "requested" | "signed" | "submitted" | "confirmed" | "failed";
+}
+
+export interface ReviewWithdrawalRequest {
+  /** Kept on the withdrawal for the audit trail */
+  note?: string;
+}
+
+export interface ProfileResponse {
+  /** Always true */
+  success: boolean;
+  id: string;
+  wallet_address: string;
+  username: string | null;
+  /** SOL, as a decimal string */
+  deposited_balance: string;
+  /** USDC, as a decimal string */
+  usdc_balance: string;
+  auto_exit_enabled: boolean;
+  needsUsername: boolean;
+}
+
+export interface NonceResponse {
+  /** Always true */
+  success: boolean;
+  nonce: string;
+  /** Sign this message with the wallet */
+  message: string;
+  expires_at: string;
+}
+
+export interface VerifyResponse {
+  /** Always true */
+  success: boolean;
+  /** Send as "Authorization: Bearer <token>" */
+  token: string;
+  wallet_address: string;
+  expires_at: string;
+}
+
+export interface SuccessResponse {
+  /** Always true */
+  success: boolean;
+}
+
+export interface AutoExitResponse {
+  /** Always true */
+  success: boolean;
+  auto_exit_enabled: boolean;
+  auto_exit_seconds: number;
+}
+
+export interface UsernameAvailability {
+  available: boolean;
+  /** Why the name is not allowed */
+  error?: string;
+}
+
+export type RoundResponse = Round | RoundCountdown;
+
+export interface PositionResponse {
+  position: Position | null;
+}
+
+export interface PnlResponse {
+  /** Always true */
+  success: boolean;
+  pnl: PnlSnapshot | null;
+  /** Why pnl is null */
+  message?: string;
+}
+
+export interface TradeResponse {
+  /** Always true */
+  success: boolean;
+  trade_type: "buy" | "sell";
+  tokens_traded: number;
+  sol_amount: number;
+  new_price: number;
+  price_multiplier: number;
+  fee_amount: number;
+  new_balance: number;
+  sequence: number;
+  position: {
+    token_balance: number;
+    total_sol_in: number;
+    total_sol_out: number;
+    entry_price: number | null;
+  };
+}
+
+export interface SellAllResponse {
+  /** Always true */
+  success: boolean;
+  tokens_sold: number;
+  sol_received: number;
+  new_price: number;
+  price_multiplier: number;
+  fee_amount: number;
+  new_balance: number;
+  sequence: number;
+}
+
+export type PreviewResponse = BuyPreview | SellPreview;
+
+export interface LeaderboardResponse {
+  leaderboard: LeaderboardEntry[];
+}
+
+export interface SolvencyResponse {
+  solvency: SolvencyReport | null;
+  trading_halted?: boolean;
+  halt_reason?: string | null;
+  message?: string;
+}
+
+export interface TradesResponse {
+  trades: RoundTrade[];
+}
+
+export interface OrderResponse {
+  /** Always true */
+  success: boolean;
+  order: OrderBroadcast;
+}
+
+export interface OrdersResponse {
+  orders: OrderBroadcast[];
+}
+
+export interface DepositConfirmResponse {
+  /** Always true */
+  success: boolean;
+  status: "pending" | "confirmed";
+  deposit_id: string;
+  asset: "sol" | "usdc";
+  /** Balance of asset, as a decimal string - does not include a pending deposit */
+  new_balance: string;
+  message: string;
+}
+
+export interface WithdrawResponse {
+  /** Always true */
+  success: boolean;
+  withdrawal_id: string;
+  /** processing: still landing - refunded if it fails; pending_review: held for an admin, refunded if rejected */
+  status: "confirmed" | "processing" | "pending_review";
+  /** null if the transfer has not been signed yet */
+  tx_signature: string | null;
+  asset: "sol" | "usdc";
+  /** Balance of asset, as a decimal string */
+  new_balance: string;
+}
+
+export interface LedgerBalanceResponse {
+  wallet_address: string;
+  asset: "sol" | "usdc";
+  /** Balance rebuilt from ledger entries (in asset) */
+  balance: number;
+  /** Balance column on the profile (deposited_balance for SOL, usdc_balance for USDC) (in asset) */
+  stored_balance: number;
+  /** stored_balance - balance (in asset) */
+  drift: number;
+  in_sync: boolean;
+  /** Buys including fees, from the ledger (in asset) */
+  total_wagered: number;
+  /** total_wagered on the profile - null for assets other than SOL */
+  stored_total_wagered: number | null;
+  /** Sell proceeds after fees, from the ledger (in asset) */
+  total_won: number;
+  /** total_won on the profile - null for assets other than SOL */
+  stored_total_won: number | null;
+  entry_count: number;
+  /** Net effect of each entry kind on the balance (in asset) */
+  by_kind: {
+    opening_balance?: number;
+    deposit?: number;
+    withdrawal?: number;
+    withdrawal_refund?: number;
+    buy?: number;
+    buy_fee?: number;
+    sell?: number;
+    sell_fee?: number;
+    forfeiture?: number;
+    fee_sweep?: number;
+    fee_sweep_refund?: number;
+  };
+}
+
+export interface AdminWithdrawalsResponse {
+  withdrawals: AdminWithdrawal[];
+}
+
+export interface AdminWithdrawalResponse {
+  /** Always true */
+  success: boolean;
+  withdrawal: AdminWithdrawal;
+}
+
+export interface AdminFeeSweepsResponse {
+  sweeps: AdminFeeSweep[];
+}
+
+export interface AdminFeeSweepRunResponse {
+  /** Always true */
+  success: boolean;
+  /** Sweeps the run created or moved forward */
+  sweeps: AdminFeeSweep[];
+}
+
+export interface SubscribeMessage {
+  type: "subscribe";
+  channels: ("round" | "trades" | "chat" | "prices" | "round:usdc" | "trades:usdc" | "prices:usdc")[];
+}
+
+export interface UnsubscribeMessage {
+  type: "unsubscribe";
+  channels: ("round" | "trades" | "chat" | "prices" | "round:usdc" | "trades:usdc" | "prices:usdc")[];
+}
+
+export interface IdentifyMessage {
+  type: "identify";
+  /** Privy access token or wallet session token */
+  token: string;
+}
+
+export interface ChatMessage {
+  type: "chat";
+  message: string;
+  /** Default: "pumpit" */
+  room?: string;
+}
+
+export interface PingMessage {
+  type: "ping";
+}
+
+export interface ResumeMessage {
+  type: "resume";
+  channel: "round" | "trades" | "chat" | "prices" | "round:usdc" | "trades:usdc" | "prices:usdc";
+  /** Last sequence number the client saw on this channel */
+  last_seq: number;
+}
+
+export interface ResyncMessage {
+  type: "resync";
+  /** Only the round channels keep client-side state to resync */
+  channel: "round" | "round:usdc";
+}
+
+export interface PlaceOrderMessage {
+  type: "place_order";
+  order_type: "take_profit" | "stop_loss";
+  trigger_multiplier: number;
+  /** Default: 100 */
+  sell_percent?: number;
+  /** sol or usdc - Default: "sol" */
+  asset?: "sol" | "usdc";
+}
+
+export interface ListOrdersMessage {
+  type: "list_orders";
+  round_id?: string;
+}
+
+export interface CancelOrderMessage {
+  type: "cancel_order";
+  order_id: string;
+}
+
+export type ClientMessage = SubscribeMessage | UnsubscribeMessage | IdentifyMessage | ChatMessage | PingMessage | ResumeMessage | ResyncMessage | PlaceOrderMessage | ListOrdersMessage | CancelOrderMessage;
+
+export type ServerMessage = RoundSnapshotEvent | RoundDeltaEvent | RoundStartedEvent | RoundEndingEvent | RoundEndedEvent | CountdownEvent | TradeEvent | PriceUpdateEvent | PositionUpdateEvent | BalanceUpdateEvent | OrderUpdateEvent | AutoExitEvent | ChatEvent | ForfeitureEvent | SolvencyAlertEvent | ConnectedEvent | SubscribedEvent | UnsubscribedEvent | IdentifiedEvent | AuthExpiredEvent | PongEvent | OrdersEvent | ResumedEvent | SnapshotEvent | ErrorEvent;
+
+export interface Round {
+  id: string;
+  status: string;
+  /** Asset the round is traded in - balances, pool and trade amounts are in it */
+  quote_asset: "sol" | "usdc";
+  started_at: string;
+  ended_at: string | null;
+  duration_seconds: number;
+  /** Seconds */
+  time_remaining: number;
+  pool_sol_balance: number;
+  pool_token_supply: number;
+  current_price: number;
+  price_multiplier: number;
+  template_name: string;
+  pricing_curve: string;
+  /** Curve parameters */
+  pricing_params: unknown;
+  buy_fee: number;
+  sell_fee: number;
+  trading_halted: boolean;
+  positions: RoundPosition[];
+}
+
+export interface RoundPosition {
+  profile_id: string;
+  username: string | null;
+  wallet_address: string;
+  token_balance: number;
+  total_sol_in: number;
+  total_sol_out: number;
+}
+
+export interface RoundCountdown {
+  status: "countdown";
+  countdown_seconds: number;
+  message: string;
+}
+
+export interface Position {
+  round_id: string;
+  token_balance: number;
+  total_sol_in: number;
+  total_sol_out: number;
+  current_value: number;
+  entry_price: number | null;
+  current_price: number;
+  pnl: number;
+  pnl_percent: number;
+  unrealized_pnl: number;
+  unrealized_pnl_percent: number;
+}
+
+export interface PnlSnapshot {
+  round_id: string;
+  wallet_address: string;
+  token_balance: number;
+  entry_price: number | null;
+  current_price: number;
+  total_sol_in: number;
+  total_sol_out: number;
+  current_value: number;
+  total_pnl: number;
+  total_pnl_percent: number;
+  unrealized_pnl: number;
+  unrealized_pnl_percent: number;
+  timestamp: number;
+}
+
+export interface BuyPreview {
+  trade_type: "buy";
+  sol_in: number;
+  tokens_out: number;
+  new_price: number;
+  price_multiplier: number;
+  price_impact: number;
+  fee_amount: number;
+  entry_multiplier: number;
+  max_entry_multiplier: number;
+  pricing_curve: string;
+}
+
+export interface SellPreview {
+  trade_type: "sell";
+  tokens_in: number;
+  sol_out: number;
+  new_price: number;
+  price_multiplier: number;
+  price_impact: number;
+  fee_amount: number;
+  min_sol_out: number;
+  entry_multiplier: number;
+  pricing_curve: string;
+  note?: string;
+}
+
+export interface LeaderboardEntry {
+  username: string;
+  wallet_address: string;
+  token_balance: number;
+  total_sol_in: number;
+  total_sol_out: number;
+  current_value: number;
+  pnl: number;
+  pnl_percent: number;
+}
+
+export interface SolvencyReport {
+  round_id: string;
+  quote_asset: "sol" | "usdc";
+  pool_sol_balance: number;
+  /** Sum of what each open position could sell for now, each capped at the pool */
+  outstanding_claims: number;
+  shortfall: number;
+  /** null when there are no claims */
+  coverage_ratio: number | null;
+  multiplier: number;
+  open_positions: number;
+  is_solvent: boolean;
+  checked_at: string;
+}
+
+export interface RoundTrade {
+  id: string;
+  trade_type: "buy" | "sell";
+  username: string;
+  wallet_address: string;
+  sol_amount: number;
+  token_amount: number;
+  price_at_trade: number;
+  fee_amount: number;
+  sequence: number;
+  created_at: string;
+}
+
+export interface OrderBroadcast {
+  id: string;
+  round_id: string;
+  order_type: "take_profit" | "stop_loss";
+  trigger_multiplier: number;
+  sell_percent: number;
+  status: string;
+  trade_sequence: number | null;
+  sol_received: number | null;
+  error: string | null;
+}
+
+export interface AdminWithdrawal {
+  id: string;
+  wallet_address: string;
+  username: string | null;
+  asset: "sol" | "usdc";
+  amount: number;
+  status: "pending_review" | "requested" | "signed" | "submitted" | "confirmed" | "failed";
+  tx_signature: string | null;
+  attempts: number;
+  error: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface AdminFeeSweep {
+  id: string;
+  asset: "sol" | "usdc";
+  /** Fees moved to the house wallet (in asset) */
+  amount: number;
+  /** House wallet */
+  destination: string;
+  status: "requested" | "signed" | "submitted" | "confirmed" | "failed";
+  tx_signature: string | null;
+  attempts: number;
+  error: string | null;
+  /** Rounds the sweep was created for */
+  round_count: number;
+  /** Rounds it covers - empty once a failed sweep released them */
+  round_ids: string[];
+  created_at: string;
+}
+
+/** Full round state - on subscribe, resync and when a new round starts */
+export interface RoundSnapshotEvent {
+  type: "ROUND_SNAPSHOT";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  version: number;
+  round: RoundState | null;
+  timestamp: number;
+}
+
+export interface RoundState {
+  id: string;
+  status: string;
+  /** Asset the round is traded in - its room */
+  quote_asset: "sol" | "usdc";
+  pool_sol_balance: number;
+  pool_token_supply: number;
+  current_price: number;
+  price_multiplier: number;
+  /** Seconds */
+  time_remaining: number;
+  positions_count?: number;
+  positions: RoundPositionBroadcast[];
+}
+
+/** Player holding tokens in the round */
+export interface RoundPositionBroadcast {
+  profile_id: string;
+  username: string | null;
+  wallet_address: string;
+}
+
+/** Round fields that changed since base_version */
+export interface RoundDeltaEvent {
+  type: "ROUND_DELTA";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  round_id: string;
+  version: number;
+  /** Apply only on top of this version, otherwise resync */
+  base_version: number;
+  changes: {
+    status?: string;
+    pool_sol_balance?: number;
+    pool_token_supply?: number;
+    current_price?: number;
+    price_multiplier?: number;
+    time_remaining?: number;
+    positions_count?: number;
+  };
+  positions_joined?: RoundPositionBroadcast[];
+  /** Profile ids */
+  positions_left?: string[];
+  timestamp: number;
+}
+
+/** New round begins */
+export interface RoundStartedEvent {
+  type: "ROUND_STARTED";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  round: RoundBroadcast;
+  timestamp: number;
+}
+
+export interface RoundBroadcast {
+  id: string;
+  status: string;
+  /** Asset the round is traded in - its room */
+  quote_asset: "sol" | "usdc";
+  pool_sol_balance: number;
+  pool_token_supply: number;
+  current_price: number;
+  price_multiplier: number;
+  /** Seconds */
+  time_remaining: number;
+  positions_count?: number;
+}
+
+/** Last few seconds of the round */
+export interface RoundEndingEvent {
+  type: "ROUND_ENDING";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  round_id: string;
+  seconds_remaining: number;
+  timestamp: number;
+}
+
+/** Round completed */
+export interface RoundEndedEvent {
+  type: "ROUND_ENDED";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  round_id: string;
+  final_price: number;
+  pool_sol_balance: number;
+  forfeitures: {
+    profile_id: string;
+    tokens_forfeited: number;
+    sol_value_lost: number;
+  }[];
+  timestamp: number;
+}
+
+/** Countdown between rounds */
+export interface CountdownEvent {
+  type: "COUNTDOWN";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  seconds_remaining: number;
+  message: string;
+  timestamp: number;
+}
+
+/** Trade executed */
+export interface TradeEvent {
+  type: "TRADE";
+  channel: "trades" | "trades:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  trade: TradeBroadcast;
+  timestamp: number;
+}
+
+export interface TradeBroadcast {
+  id?: string;
+  round_id: string;
+  sequence?: number;
+  trade_type: "buy" | "sell";
+  username: string;
+  wallet_address: string;
+  sol_amount: number;
+  token_amount: number;
+  price: number;
+  timestamp: number;
+  /** Set when a conditional order triggered this trade */
+  order_id?: string;
+  order_type?: "take_profit" | "stop_loss";
+}
+
+/** Price changed */
+export interface PriceUpdateEvent {
+  type: "PRICE_UPDATE";
+  channel: "prices" | "prices:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  round_id: string;
+  price: number;
+  price_multiplier: number;
+  pool_sol_balance: number;
+  pool_token_supply: number;
+  timestamp: number;
+}
+
+/** Your position changed */
+export interface PositionUpdateEvent {
+  type: "POSITION_UPDATE";
+  position: PositionBroadcast;
+  timestamp: number;
+}
+
+export interface PositionBroadcast {
+  round_id: string;
+  token_balance: number;
+  total_sol_in: number;
+  total_sol_out: number;
+  current_value: number;
+  pnl: number;
+  pnl_percent: number;
+  entry_price?: number | null;
+  current_price?: number;
+  unrealized_pnl?: number;
+  unrealized_pnl_percent?: number;
+  /** Set on the last update when the round ends */
+  is_final?: boolean;
+}
+
+/** Your balance changed */
+export interface BalanceUpdateEvent {
+  type: "BALANCE_UPDATE";
+  balance: BalanceBroadcast;
+  timestamp: number;
+}
+
+export interface BalanceBroadcast {
+  asset: "sol" | "usdc";
+  /** New balance of asset */
+  deposited_balance: number;
+  change: number;
+  reason: string;
+}
+
+/** One of your orders was placed, filled, cancelled or failed */
+export interface OrderUpdateEvent {
+  type: "ORDER_UPDATE";
+  order: OrderBroadcast;
+  timestamp: number;
+}
+
+/** Auto-exit sold your tokens (or could not) */
+export interface AutoExitEvent {
+  type: "AUTO_EXIT";
+  round_id: string;
+  status: "sold" | "failed";
+  tokens_sold: number;
+  sol_received: number;
+  error?: string;
+  timestamp: number;
+}
+
+/** New chat message */
+export interface ChatEvent {
+  type: "CHAT";
+  channel: "chat";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  message: ChatBroadcast;
+  timestamp: number;
+}
+
+export interface ChatBroadcast {
+  id: string;
+  username: string;
+  wallet_address?: string | null;
+  message: string;
+  room: string;
+  created_at: string;
+}
+
+/** Tokens you still held when the round ended */
+export interface ForfeitureEvent {
+  type: "FORFEITURE";
+  tokens_forfeited: number;
+  sol_value_lost: number;
+  message: string;
+  timestamp: number;
+}
+
+/** Round pool cannot cover open positions */
+export interface SolvencyAlertEvent {
+  type: "SOLVENCY_ALERT";
+  channel: "round" | "round:usdc";
+  /** Per-channel sequence number for resume */
+  seq: number;
+  alert: SolvencyAlertBroadcast;
+  timestamp: number;
+}
+
+export interface SolvencyAlertBroadcast {
+  round_id: string;
+  pool_sol_balance: number;
+  outstanding_claims: number;
+  shortfall: number;
+  coverage_ratio: number;
+  trading_halted: boolean;
+}
+
+/** Sent once after connecting */
+export interface ConnectedEvent {
+  type: "CONNECTED";
+  message: string;
+  timestamp: number;
+}
+
+/** Reply to subscribe */
+export interface SubscribedEvent {
+  type: "SUBSCRIBED";
+  channels: string[];
+}
+
+/** Reply to unsubscribe */
+export interface UnsubscribedEvent {
+  type: "UNSUBSCRIBED";
+  channels: string[];
+}
+
+/** Reply to identify */
+export interface IdentifiedEvent {
+  type: "IDENTIFIED";
+  wallet_address: string;
+  username: string | null;
+  deposited_balance: number;
+  usdc_balance: number;
+  /** Unix ms when the identity expires */
+  expires_at: number;
+}
+
+/** Identify token expired - send identify again */
+export interface AuthExpiredEvent {
+  type: "AUTH_EXPIRED";
+  message: string;
+  timestamp: number;
+}
+
+/** Reply to ping */
+export interface PongEvent {
+  type: "PONG";
+  timestamp: number;
+}
+
+/** Reply to list_orders */
+export interface OrdersEvent {
+  type: "ORDERS";
+  orders: OrderBroadcast[];
+}
+
+/** Missed messages were replayed */
+export interface ResumedEvent {
+  type: "RESUMED";
+  channel: string;
+  from_seq: number;
+  seq: number;
+  replayed: number;
+}
+
+/** Reply to resume when the gap is no longer buffered */
+export interface SnapshotEvent {
+  type: "SNAPSHOT";
+  channel: string;
+  seq: number;
+  /** Channel state - same shape as the matching REST endpoint */
+  snapshot: unknown;
+  timestamp: number;
+}
+
+/** A client message was rejected */
+export interface ErrorEvent {
+  type: "ERROR";
+  /** Always false */
+  success: boolean;
+  code: "VALIDATION_ERROR" | "NOT_FOUND" | "INTERNAL_ERROR" | "UNAUTHORIZED" | "ADMIN_REQUIRED" | "WALLET_MISMATCH" | "INVALID_TOKEN" | "NO_SOLANA_WALLET" | "INVALID_WALLET" | "INVALID_NONCE" | "INVALID_SIGNATURE" | "AUTH_SERVICE_ERROR" | "IDEMPOTENCY_IN_PROGRESS" | "IDEMPOTENCY_KEY_REUSED" | "PROFILE_NOT_FOUND" | "USERNAME_TAKEN" | "NO_ACTIVE_ROUND" | "ROUND_NOT_FOUND" | "ROUND_NOT_ACTIVE" | "ROUND_ENDED" | "TRADING_HALTED" | "AUTO_EXIT_ACTIVE" | "TRADE_TOO_SMALL" | "INSUFFICIENT_BALANCE" | "NO_POSITION" | "INSUFFICIENT_LIQUIDITY" | "SLIPPAGE_EXCEEDED" | "ORDER_NOT_FOUND" | "ORDER_ALREADY_TRIGGERED" | "ORDER_LIMIT_REACHED" | "TX_NOT_CONFIRMED" | "TX_FAILED" | "TX_SENDER_MISMATCH" | "TX_NOT_TO_ESCROW" | "AMOUNT_MISMATCH" | "TRANSFER_FAILED" | "WITHDRAWAL_LIMIT_EXCEEDED" | "WITHDRAWAL_COOLDOWN" | "WITHDRAWAL_NOT_FOUND" | "WITHDRAWAL_NOT_IN_REVIEW" | "FEE_SWEEP_RUNNING" | "UNKNOWN_MESSAGE" | "NOT_IDENTIFIED" | "TOO_MANY_CONNECTIONS";
+  error: string;
+  details?: unknown;
+}